@@ -0,0 +1,115 @@
+// Keeps the app and its map usable without a connection.
+//
+// - Pages fall back to the cached app shell, so deep links still open offline.
+// - Scripts, styles, fonts and icons (including Leaflet's from its CDN) are served
+//   from the cache and refreshed in the background.
+// - Map tiles come from the cache first: regions downloaded for offline use
+//   live in TILE_CACHE, which the app manages, and tiles seen while browsing
+//   are kept in a bounded runtime cache when their server allows CORS.
+
+// Scripts and styles have hashed names that change with every build, so each
+// build gets its own cache and the previous one is dropped when this activates
+const BUILD = new URL(self.location.href).searchParams.get('build') ?? 'dev';
+const APP_CACHE = `app-${BUILD}`;
+// Shared with src/lib/offline/regions.ts
+const TILE_CACHE = 'offline-tiles-v1';
+const RUNTIME_TILE_CACHE = 'runtime-tiles-v1';
+const MAX_RUNTIME_TILES = 1000;
+
+const KNOWN_CACHES = [APP_CACHE, TILE_CACHE, RUNTIME_TILE_CACHE];
+
+// z/x/y (or z/y/x) paths, with or without an image extension
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?(\.(png|jpe?g|webp))?$/i;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(APP_CACHE)
+      .then((cache) => cache.add('/'))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names.filter((name) => !KNOWN_CACHES.includes(name)).map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isTileRequest = (request, url) =>
+  request.destination === 'image' && (TILE_PATH.test(url.pathname) || /service=wms/i.test(url.search));
+
+// Drops the oldest tiles once the runtime cache is over its limit
+const trimRuntimeTiles = async () => {
+  const cache = await caches.open(RUNTIME_TILE_CACHE);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_RUNTIME_TILES)).map((key) => cache.delete(key)));
+};
+
+// Keeping a tile is best-effort: a full quota or failed write must not stop it
+// from being shown
+const keepTile = async (request, response) => {
+  try {
+    const cache = await caches.open(RUNTIME_TILE_CACHE);
+    await cache.put(request, response);
+    await trimRuntimeTiles();
+  } catch {
+    // The tile is simply fetched again next time
+  }
+};
+
+const serveTile = async (event) => {
+  const { request } = event;
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Opaque tiles from servers without CORS are left out: browsers count each
+  // one as several megabytes against the quota
+  if (response.ok) event.waitUntil(keepTile(request, response.clone()));
+  return response;
+};
+
+const serveAsset = async (request) => {
+  const cache = await caches.open(APP_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  return cached ?? network;
+};
+
+const servePage = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(APP_CACHE);
+      cache.put('/', response.clone());
+    }
+    return response;
+  } catch {
+    // Every route renders the same app, so any page can fall back to the shell
+    return (await caches.match('/')) ?? Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(servePage(request));
+  } else if (isTileRequest(request, url)) {
+    event.respondWith(serveTile(event));
+  } else if (['script', 'style', 'font', 'image'].includes(request.destination)) {
+    event.respondWith(serveAsset(request));
+  }
+});
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { COORDINATE_FORMATS, CoordinateFormat, formatCoordinates } from '@/lib/coordinates';
+import { cn } from '@/lib/utils';
+
+interface CoordinateDisplayProps {
+  coordinates: [number, number]; // [longitude, latitude]
+  className?: string;
+}
+
+// A point's coordinates in a format of the user's choosing, ready to copy
+const CoordinateDisplay: React.FC<CoordinateDisplayProps> = ({ coordinates, className }) => {
+  const { t } = useTranslation();
+  const [format, setFormat] = useState<CoordinateFormat>('decimal');
+
+  // UTM and MGRS don't reach the poles, so they're only offered where they apply
+  const formats = COORDINATE_FORMATS.flatMap(option => {
+    const text = formatCoordinates(coordinates, option.value);
+    return text ? [{ ...option, text }] : [];
+  });
+  const selected = formats.find(option => option.value === format) ?? formats[0];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(selected.text);
+      toast({ title: t('coordinates.copied'), description: selected.text });
+    } catch {
+      toast({ title: t('coordinates.copyFailed'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center gap-1', className)}>
+      <Select value={selected.value} onValueChange={value => setFormat(value as CoordinateFormat)}>
+        <SelectTrigger className="h-7 w-auto shrink-0 px-2 text-xs" aria-label={t('coordinates.format')}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {formats.map(option => (
+            <SelectItem key={option.value} value={option.value} className="text-xs">
+              {t(option.labelKey)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <span className="flex-1 min-w-0 truncate font-mono text-xs" dir="ltr">{selected.text}</span>
+      <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={handleCopy} title={t('coordinates.copy')}>
+        <Copy className="w-3.5 h-3.5" />
+        <span className="sr-only">{t('coordinates.copy')}</span>
+      </Button>
+    </div>
+  );
+};
+
+export default CoordinateDisplay;
@@ -1,43 +1,113 @@
-import React, { useState, useEffect } from 'react';
-import { MapPin, Navigation, Clock, Route as RouteIcon, ArrowRight, Search, AlertTriangle } from 'lucide-react';
-import { Input } from '@/components/ui/input';
+import React, { useState, useEffect, useRef } from 'react';
+import { MapPin, Navigation, Clock, Route as RouteIcon, ArrowRight, AlertTriangle, Car, Bike, Footprints, Accessibility, Plus, X, GripVertical, Shuffle, Ship, Waves, SlidersHorizontal, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Location, Route, RouteStep } from '@/types/maps';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import ElevationProfileChart from '@/components/ElevationProfileChart';
+import LocationInput from '@/components/LocationInput';
+import ManeuverIcon from '@/components/ManeuverIcon';
+import TripTimePicker from '@/components/TripTimePicker';
+import { useSettings } from '@/components/SettingsProvider';
+import { useFormat } from '@/hooks/use-format';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  calculateRoutes,
+  createRoutingProvider,
+  describeStep,
+  getStops,
+  optimizeStopOrder,
+  pathCost,
+  ROUTE_AVOIDANCES,
+  RouteRequest,
+  RoutingError,
+  TRAVEL_MODES,
+  violatesAvoidance,
+} from '@/lib/routing';
+import { downloadRoute, EXPORT_FORMATS } from '@/lib/formats';
+import { cumulativeDistances } from '@/lib/geo';
+import { formatClockTime, scheduleTrip } from '@/lib/schedule';
+import { Location, MapViewport, Route, RouteAvoidance, RouteStep, TravelMode, TripTime } from '@/types/maps';
 
 interface DirectionsPanelProps {
   origin: Location | null;
   destination: Location | null;
-  onRouteCalculated: (route: Route) => void;
+  onRoutesCalculated: (routes: Route[]) => void;
   route: Route | null;
+  routes: Route[];
+  onRouteSelect: (route: Route) => void;
   onStepClick?: (coordinates: [number, number]) => void;
+  isNavigating?: boolean;
+  activeStepId?: string | null;
+  onStartNavigation?: () => void;
+  onElevationHover?: (coordinates: [number, number] | null) => void;
+  // A route opened from a link, to fill in and calculate
+  linkedRequest?: RouteRequest | null;
+  // Where the map is looking, which place searches prefer
+  mapView?: MapViewport | null;
 }
 
-interface AutocompleteResult {
+const TRAVEL_MODE_ICONS: Record<TravelMode, React.ElementType> = {
+  driving: Car,
+  cycling: Bike,
+  walking: Footprints,
+  wheelchair: Accessibility,
+};
+
+interface ViaPoint {
   id: string;
-  name: string;
-  address: string;
-  coordinates: [number, number];
+  input: string;
+  location: Location | null;
 }
 
 const DirectionsPanel: React.FC<DirectionsPanelProps> = ({
   origin,
   destination,
-  onRouteCalculated,
+  onRoutesCalculated,
   route,
+  routes,
+  onRouteSelect,
   onStepClick,
+  isNavigating = false,
+  activeStepId = null,
+  onStartNavigation,
+  onElevationHover,
+  linkedRequest = null,
+  mapView = null,
 }) => {
+  const { settings, updateSettings } = useSettings();
+  const { t, dateLocale } = useTranslation();
+  const { formatDistance, formatDuration } = useFormat();
   const [originInput, setOriginInput] = useState('');
   const [destinationInput, setDestinationInput] = useState('');
   const [isCalculating, setIsCalculating] = useState(false);
-  const [originResults, setOriginResults] = useState<AutocompleteResult[]>([]);
-  const [destinationResults, setDestinationResults] = useState<AutocompleteResult[]>([]);
-  const [showOriginResults, setShowOriginResults] = useState(false);
-  const [showDestinationResults, setShowDestinationResults] = useState(false);
   const [actualOrigin, setActualOrigin] = useState<Location | null>(null);
   const [actualDestination, setActualDestination] = useState<Location | null>(null);
+  const [viaPoints, setViaPoints] = useState<ViaPoint[]>([]);
+  const [draggableViaId, setDraggableViaId] = useState<string | null>(null);
+  const [draggedViaIndex, setDraggedViaIndex] = useState<number | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+  const [keepFirstStop, setKeepFirstStop] = useState(true);
+  const [keepLastStop, setKeepLastStop] = useState(true);
+  const [optimizationSavings, setOptimizationSavings] = useState<number | null>(null);
   const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
   const [routeError, setRouteError] = useState<string | null>(null);
+  // Straight-line distance shown when the stops have no road or ferry connection
+  const [noSurfaceRouteDistance, setNoSurfaceRouteDistance] = useState<number | null>(null);
+  const [travelMode, setTravelMode] = useState<TravelMode>(route?.mode ?? 'driving');
+  const [tripTime, setTripTime] = useState<TripTime>({ type: 'now', time: new Date() });
 
   useEffect(() => {
     if (origin) {
@@ -53,246 +123,386 @@ const DirectionsPanel: React.FC<DirectionsPanelProps> = ({
     }
   }, [destination]);
 
-  const searchLocations = async (query: string) => {
-    if (!query.trim()) return [];
+  // Only a new link should route, not later changes to the settings, so the
+  // effect below reaches the latest settings and callbacks through a ref
+  const routeLinkRef = useRef<(request: RouteRequest) => void>(() => {});
 
-    try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=5`
-      );
-      const data = await response.json();
-
-      return data.map((item: any, index: number) => ({
-        id: item.place_id?.toString() || index.toString(),
-        name: item.display_name.split(',')[0],
-        address: item.display_name,
-        coordinates: [parseFloat(item.lon), parseFloat(item.lat)] as [number, number],
-      }));
-    } catch (error) {
-      console.error('Error searching locations:', error);
-      return [];
-    }
+  // Fill in the stops from a shared link and route them straight away
+  useEffect(() => {
+    if (!linkedRequest) return;
+
+    setActualOrigin(linkedRequest.origin);
+    setOriginInput(linkedRequest.origin.address);
+    setActualDestination(linkedRequest.destination);
+    setDestinationInput(linkedRequest.destination.address);
+    setViaPoints(linkedRequest.waypoints.map((location, index) => ({
+      id: `via-${Date.now()}-${index}`,
+      input: location.address,
+      location,
+    })));
+    setTravelMode(linkedRequest.mode);
+    routeLinkRef.current(linkedRequest);
+  }, [linkedRequest]);
+
+  const addViaPoint = () => {
+    setViaPoints((points) => [...points, { id: `via-${Date.now()}`, input: '', location: null }]);
   };
 
-  const handleOriginInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setOriginInput(value);
-    
-    if (value.trim()) {
-      const results = await searchLocations(value);
-      setOriginResults(results);
-    } else {
-      setOriginResults([]);
-    }
+  const updateViaPoint = (id: string, changes: Partial<ViaPoint>) => {
+    setViaPoints((points) => points.map((point) => (point.id === id ? { ...point, ...changes } : point)));
+  };
+
+  const removeViaPoint = (id: string) => {
+    setViaPoints((points) => points.filter((point) => point.id !== id));
   };
 
-  const handleDestinationInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    setDestinationInput(value);
-    
-    if (value.trim()) {
-      const results = await searchLocations(value);
-      setDestinationResults(results);
-    } else {
-      setDestinationResults([]);
+  const handleViaDrop = (targetIndex: number) => {
+    if (draggedViaIndex === null || draggedViaIndex === targetIndex) return;
+
+    setViaPoints((points) => {
+      const reordered = [...points];
+      const [moved] = reordered.splice(draggedViaIndex, 1);
+      reordered.splice(targetIndex, 0, moved);
+      return reordered;
+    });
+    setDraggedViaIndex(null);
+  };
+
+  const getRouteErrorMessage = (error: unknown): string => {
+    if (error instanceof RoutingError && error.code === 'InvalidResponse') {
+      return t('directions.invalidResponse');
     }
+    return t('directions.requestFailed');
   };
 
-  const handleOriginSelect = (result: AutocompleteResult) => {
-    const location: Location = {
-      id: result.id,
-      name: result.name,
-      address: result.address,
-      coordinates: result.coordinates,
-    };
-    setActualOrigin(location);
-    setOriginInput(result.address);
-    setShowOriginResults(false);
-    setOriginResults([]);
+  const requestRoute = async (request: RouteRequest) => {
+    setIsCalculating(true);
+    setRouteError(null);
+    setNoSurfaceRouteDistance(null);
+
+    try {
+      const calculatedRoutes = await calculateRoutes(settings.routing, { ...request, alternatives: true });
+
+      onRoutesCalculated(calculatedRoutes);
+    } catch (error) {
+      console.error('Error calculating route:', error);
+      if (error instanceof RoutingError && error.code === 'NoRoute') {
+        // Clear any previous route rather than leave a misleading path on the map
+        onRoutesCalculated([]);
+        // As the crow flies from stop to stop, so via-points count too
+        const straightLine = cumulativeDistances(getStops(request).map((stop) => stop.coordinates));
+        setNoSurfaceRouteDistance(straightLine[straightLine.length - 1]);
+      } else {
+        setRouteError(getRouteErrorMessage(error));
+      }
+    } finally {
+      setIsCalculating(false);
+    }
   };
+  routeLinkRef.current = (request) => requestRoute({ ...request, avoid: settings.routing.avoid });
 
-  const handleDestinationSelect = (result: AutocompleteResult) => {
-    const location: Location = {
-      id: result.id,
-      name: result.name,
-      address: result.address,
-      coordinates: result.coordinates,
-    };
-    setActualDestination(location);
-    setDestinationInput(result.address);
-    setShowDestinationResults(false);
-    setDestinationResults([]);
+  const calculateRoute = async ({
+    mode = travelMode,
+    avoid = settings.routing.avoid,
+  }: { mode?: TravelMode; avoid?: RouteAvoidance[] } = {}) => {
+    if (!actualOrigin || !actualDestination) return;
+
+    setOptimizationSavings(null);
+    await requestRoute({
+      origin: actualOrigin,
+      destination: actualDestination,
+      // Via-points the user added but never resolved to a place are skipped
+      waypoints: viaPoints.filter((point) => point.location).map((point) => point.location),
+      mode,
+      avoid,
+    });
   };
 
-  const calculateRoute = async () => {
+  const optimizeStops = async () => {
     if (!actualOrigin || !actualDestination) return;
 
-    setIsCalculating(true);
+    const resolvedViaPoints = viaPoints.filter((point) => point.location);
+    const stops = [actualOrigin, ...resolvedViaPoints.map((point) => point.location), actualDestination];
+
+    setIsOptimizing(true);
     setRouteError(null);
 
     try {
-      // Using OSRM (Open Source Routing Machine) for routing - free OpenStreetMap service
-      const response = await fetch(
-        `https://router.project-osrm.org/route/v1/driving/${actualOrigin.coordinates[0]},${actualOrigin.coordinates[1]};${actualDestination.coordinates[0]},${actualDestination.coordinates[1]}?overview=full&geometries=geojson&steps=true`
-      );
-      const data = await response.json();
-
-      if (data.code === 'NoRoute') {
-        setRouteError('No driving route available between these locations. The destinations may be in different regions or there may be no connecting roads.');
-        return;
-      }
+      const provider = createRoutingProvider(settings.routing);
+      const matrix = await provider.matrix({ locations: stops, mode: travelMode });
+      const order = optimizeStopOrder(matrix, { fixFirst: keepFirstStop, fixLast: keepLastStop });
+      const savings = pathCost(stops.map((_, index) => index), matrix) - pathCost(order, matrix);
 
-      if (data.routes && data.routes.length > 0) {
-        const routeData = data.routes[0];
-        
-        const steps: RouteStep[] = routeData.legs[0].steps.map((step: any, index: number) => ({
-          id: `step-${index}`,
-          instruction: step.maneuver.instruction || `Step ${index + 1}`,
-          distance: step.distance,
-          duration: step.duration,
-          coordinates: step.geometry.coordinates.map((coord: number[]) => [coord[0], coord[1]] as [number, number]),
-        }));
-
-        const calculatedRoute: Route = {
-          id: 'route-1',
-          origin: actualOrigin,
-          destination: actualDestination,
-          distance: routeData.distance,
-          duration: routeData.duration,
-          geometry: routeData.geometry.coordinates.map((coord: number[]) => [coord[0], coord[1]] as [number, number]),
-          steps,
+      const orderedStops = order.map((index) => stops[index]);
+      const newOrigin = orderedStops[0];
+      const newDestination = orderedStops[orderedStops.length - 1];
+      // Keep the existing entries (and their ids) for stops that remain intermediate
+      const newViaPoints: ViaPoint[] = order.slice(1, -1).map((stopIndex) => {
+        const existing = resolvedViaPoints[stopIndex - 1];
+        return existing ?? {
+          id: `via-${Date.now()}-${stopIndex}`,
+          input: stops[stopIndex].address,
+          location: stops[stopIndex],
         };
+      });
 
-        onRouteCalculated(calculatedRoute);
-      } else {
-        setRouteError('Unable to calculate route. Please try different locations or check if the destinations are accessible by road.');
-      }
+      setActualOrigin(newOrigin);
+      setOriginInput(newOrigin.address);
+      setActualDestination(newDestination);
+      setDestinationInput(newDestination.address);
+      setViaPoints([...newViaPoints, ...viaPoints.filter((point) => !point.location)]);
+      setOptimizationSavings(Number.isFinite(savings) ? Math.max(savings, 0) : null);
+
+      await requestRoute({
+        origin: newOrigin,
+        destination: newDestination,
+        waypoints: newViaPoints.map((point) => point.location),
+        mode: travelMode,
+        avoid: settings.routing.avoid,
+      });
     } catch (error) {
-      console.error('Error calculating route:', error);
-      setRouteError('Route calculation failed. Please check your internet connection and try again.');
+      console.error('Error optimizing stop order:', error);
+      setRouteError(t('directions.optimizeFailed'));
     } finally {
-      setIsCalculating(false);
+      setIsOptimizing(false);
     }
   };
 
-  const handleStepClick = (step: RouteStep) => {
-    setSelectedStepId(step.id);
-    if (onStepClick && step.coordinates.length > 0) {
-      onStepClick(step.coordinates[0]);
+  const handleTravelModeChange = (value: string) => {
+    // Radix reports an empty value when the active item is clicked again
+    if (!value) return;
+
+    const mode = value as TravelMode;
+    setTravelMode(mode);
+    if (route) {
+      calculateRoute({ mode });
     }
   };
 
-  const formatDistance = (meters: number): string => {
-    if (meters < 1000) {
-      return `${meters} m`;
+  const handleAvoidanceToggle = (avoidance: RouteAvoidance, enabled: boolean) => {
+    const current = settings.routing.avoid;
+    const avoid = enabled ? [...current, avoidance] : current.filter((a) => a !== avoidance);
+    // Avoidances are remembered as defaults for future routes
+    updateSettings({ routing: { ...settings.routing, avoid } });
+    if (route) {
+      calculateRoute({ avoid });
     }
-    return `${(meters / 1000).toFixed(1)} km`;
   };
 
-  const formatDuration = (seconds: number): string => {
-    const minutes = Math.round(seconds / 60);
-    if (minutes < 60) {
-      return `${minutes} min`;
+  const handleRouteSelect = (selected: Route) => {
+    setSelectedStepId(null);
+    onRouteSelect(selected);
+  };
+
+  // Keep the upcoming maneuver highlighted and in view while navigating
+  useEffect(() => {
+    if (!activeStepId) return;
+    setSelectedStepId(activeStepId);
+    document.getElementById(`route-step-${activeStepId}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeStepId]);
+
+  const handleStepClick = (step: RouteStep) => {
+    setSelectedStepId(step.id);
+    if (onStepClick && step.coordinates.length > 0) {
+      onStepClick(step.coordinates[0]);
     }
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    return `${hours}h ${remainingMinutes}m`;
   };
 
+
+  const schedule = route ? scheduleTrip(route, tripTime) : null;
+
+  const renderStep = (step: RouteStep) => (
+    <button
+      key={step.id}
+      id={`route-step-${step.id}`}
+      onClick={() => handleStepClick(step)}
+      className={`w-full flex items-start space-x-3 rtl:space-x-reverse p-3 rounded-lg transition-colors cursor-pointer text-start ${
+        selectedStepId === step.id 
+          ? 'bg-blue-100 border-2 border-blue-300' 
+          : 'bg-gray-50 hover:bg-gray-100'
+      }`}
+    >
+      <div className="flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center bg-blue-600 text-white">
+        <ManeuverIcon maneuver={step.maneuver} className="w-3.5 h-3.5" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900">{describeStep(route, step, t)}</p>
+        <div className="flex items-center mt-1 text-xs text-gray-500 space-x-4 rtl:space-x-reverse">
+          {schedule?.stepTimes[step.id] && (
+            <span className="font-medium tabular-nums">
+              {formatClockTime(schedule.stepTimes[step.id], new Date(), dateLocale)}
+            </span>
+          )}
+          <span>{formatDistance(step.distance)}</span>
+          <span>{formatDuration(step.duration, route.mode)}</span>
+        </div>
+      </div>
+    </button>
+  );
+
   return (
     <div className="p-6">
       {/* Origin and Destination Inputs */}
       <div className="space-y-4 mb-6">
-        <div className="relative">
-          <div className="absolute left-3 top-1/2 transform -translate-y-1/2 w-3 h-3 bg-green-500 rounded-full"></div>
-          <Input
-            type="text"
-            placeholder="Choose starting point"
-            value={originInput}
-            onChange={handleOriginInputChange}
-            onFocus={() => setShowOriginResults(true)}
-            onBlur={() => setTimeout(() => setShowOriginResults(false), 200)}
-            className="pl-9 pr-4 py-3"
-          />
-          {showOriginResults && (
-            <div className="absolute top-full left-0 right-0 z-50 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
-              {originResults.length > 0 ? (
-                originResults.map((result) => (
-                  <button
-                    key={result.id}
-                    onClick={() => handleOriginSelect(result)}
-                    className="w-full text-left p-3 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
-                  >
-                    <div className="flex items-start space-x-3">
-                      <Search className="w-4 h-4 text-gray-400 mt-1 flex-shrink-0" />
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium text-gray-900 truncate">{result.name}</p>
-                        <p className="text-sm text-gray-500 truncate">{result.address}</p>
-                      </div>
-                    </div>
-                  </button>
-                ))
+        <LocationInput
+          value={originInput}
+          placeholder={t('directions.origin')}
+          indicator={<div className="w-3 h-3 bg-green-500 rounded-full"></div>}
+          onValueChange={setOriginInput}
+          onLocationSelect={setActualOrigin}
+          near={mapView}
+        />
+
+        {viaPoints.map((point, index) => (
+          <div
+            key={point.id}
+            draggable={draggableViaId === point.id}
+            onDragStart={() => setDraggedViaIndex(index)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleViaDrop(index)}
+            onDragEnd={() => {
+              setDraggedViaIndex(null);
+              setDraggableViaId(null);
+            }}
+            className={`flex items-center space-x-2 rtl:space-x-reverse ${draggedViaIndex === index ? 'opacity-50' : ''}`}
+          >
+            <button
+              type="button"
+              aria-label={t('directions.dragStop')}
+              onMouseDown={() => setDraggableViaId(point.id)}
+              onMouseUp={() => setDraggableViaId(null)}
+              className="cursor-grab text-gray-400 hover:text-gray-600"
+            >
+              <GripVertical className="w-4 h-4" />
+            </button>
+            <LocationInput
+              value={point.input}
+              placeholder={t('directions.stop', { number: index + 1 })}
+              indicator={<div className="w-3 h-3 bg-amber-500 rounded-full"></div>}
+              onValueChange={(input) => updateViaPoint(point.id, { input })}
+              onLocationSelect={(location) => updateViaPoint(point.id, { location })}
+              near={mapView}
+            />
+            <button
+              type="button"
+              aria-label={t('directions.removeStop')}
+              onClick={() => removeViaPoint(point.id)}
+              className="text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        <LocationInput
+          value={destinationInput}
+          placeholder={t('directions.destination')}
+          indicator={<div className="w-3 h-3 bg-red-500 rounded-full"></div>}
+          onValueChange={setDestinationInput}
+          onLocationSelect={setActualDestination}
+          near={mapView}
+        />
+
+        <Button variant="ghost" size="sm" onClick={addViaPoint} className="w-full">
+          <Plus className="w-4 h-4 me-2" />
+          {t('directions.addStop')}
+        </Button>
+
+        {viaPoints.some((point) => point.location) && (
+          <div className="rounded-lg border border-gray-200 p-3 space-y-3">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={optimizeStops}
+              disabled={!actualOrigin || !actualDestination || isOptimizing || isCalculating}
+              className="w-full"
+            >
+              {isOptimizing ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current me-2"></div>
               ) : (
-                <div className="p-4 text-center text-gray-500 text-sm">
-                  Start typing to search for locations
-                </div>
+                <Shuffle className="w-4 h-4 me-2" />
               )}
+              {t('directions.optimize')}
+            </Button>
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <label className="flex items-center space-x-2 rtl:space-x-reverse cursor-pointer">
+                <Checkbox checked={keepFirstStop} onCheckedChange={(checked) => setKeepFirstStop(checked === true)} />
+                <span>{t('directions.keepStart')}</span>
+              </label>
+              <label className="flex items-center space-x-2 rtl:space-x-reverse cursor-pointer">
+                <Checkbox checked={keepLastStop} onCheckedChange={(checked) => setKeepLastStop(checked === true)} />
+                <span>{t('directions.keepDestination')}</span>
+              </label>
             </div>
-          )}
-        </div>
-        
-        <div className="relative">
-          <div className="absolute left-3 top-1/2 transform -translate-y-1/2 w-3 h-3 bg-red-500 rounded-full"></div>
-          <Input
-            type="text"
-            placeholder="Choose destination"
-            value={destinationInput}
-            onChange={handleDestinationInputChange}
-            onFocus={() => setShowDestinationResults(true)}
-            onBlur={() => setTimeout(() => setShowDestinationResults(false), 200)}
-            className="pl-9 pr-4 py-3"
-          />
-          {showDestinationResults && (
-            <div className="absolute top-full left-0 right-0 z-50 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
-              {destinationResults.length > 0 ? (
-                destinationResults.map((result) => (
-                  <button
-                    key={result.id}
-                    onClick={() => handleDestinationSelect(result)}
-                    className="w-full text-left p-3 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
-                  >
-                    <div className="flex items-start space-x-3">
-                      <Search className="w-4 h-4 text-gray-400 mt-1 flex-shrink-0" />
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium text-gray-900 truncate">{result.name}</p>
-                        <p className="text-sm text-gray-500 truncate">{result.address}</p>
-                      </div>
-                    </div>
-                  </button>
-                ))
-              ) : (
-                <div className="p-4 text-center text-gray-500 text-sm">
-                  Start typing to search for locations
-                </div>
+          </div>
+        )}
+
+        <ToggleGroup
+          type="single"
+          value={travelMode}
+          onValueChange={handleTravelModeChange}
+          variant="outline"
+          className="justify-between"
+        >
+          {TRAVEL_MODES.map((mode) => {
+            const ModeIcon = TRAVEL_MODE_ICONS[mode];
+            return (
+              <ToggleGroupItem
+                key={mode}
+                value={mode}
+                aria-label={t(`mode.${mode}`)}
+                title={t(`mode.${mode}`)}
+                className="flex-1"
+              >
+                <ModeIcon className="w-4 h-4" />
+              </ToggleGroupItem>
+            );
+          })}
+        </ToggleGroup>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="w-full">
+              <SlidersHorizontal className="w-4 h-4 me-2" />
+              {t('directions.options')}
+              {settings.routing.avoid.length > 0 && (
+                <Badge variant="secondary" className="ms-2">{settings.routing.avoid.length}</Badge>
               )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72">
+            <h4 className="text-sm font-medium mb-3">{t('directions.avoid')}</h4>
+            <div className="space-y-3">
+              {ROUTE_AVOIDANCES.map((avoidance) => (
+                <div key={avoidance} className="flex items-center justify-between">
+                  <Label htmlFor={`avoid-${avoidance}`}>{t(`avoidance.${avoidance}`)}</Label>
+                  <Switch
+                    id={`avoid-${avoidance}`}
+                    checked={settings.routing.avoid.includes(avoidance)}
+                    onCheckedChange={(checked) => handleAvoidanceToggle(avoidance, checked)}
+                  />
+                </div>
+              ))}
             </div>
-          )}
-        </div>
+          </PopoverContent>
+        </Popover>
+
+        <TripTimePicker value={tripTime} onChange={setTripTime} />
 
         <Button
-          onClick={calculateRoute}
+          onClick={() => calculateRoute()}
           disabled={!actualOrigin || !actualDestination || isCalculating}
           className="w-full bg-blue-600 hover:bg-blue-700"
         >
           {isCalculating ? (
             <div className="flex items-center">
-              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-              Calculating...
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white me-2"></div>
+              {t('directions.calculating')}
             </div>
           ) : (
             <div className="flex items-center">
-              <RouteIcon className="w-4 h-4 mr-2" />
-              Get Directions
+              <RouteIcon className="w-4 h-4 me-2" />
+              {t('directions.submit')}
             </div>
           )}
         </Button>
@@ -310,61 +520,192 @@ const DirectionsPanel: React.FC<DirectionsPanelProps> = ({
         </div>
       )}
 
+      {/* No Surface Route */}
+      {noSurfaceRouteDistance !== null && (
+        <div className="mb-6">
+          <Alert>
+            <Waves className="h-4 w-4" />
+            <AlertTitle>{t('directions.noRouteTitle')}</AlertTitle>
+            <AlertDescription>
+              <p>{t('directions.noRoute')}</p>
+              <p className="mt-2 font-medium">
+                {t('directions.straightLine', { distance: formatDistance(noSurfaceRouteDistance) })}
+              </p>
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {/* Route Summary */}
       {route && (
         <div className="mb-6">
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
             <div className="flex items-center justify-between mb-2">
               <span className="text-lg font-semibold text-blue-900">
-                {formatDuration(route.duration)}
+                {formatDuration(route.duration, route.mode)}
               </span>
-              <span className="text-sm text-blue-700">
-                {formatDistance(route.distance)}
+              <div className="flex items-center gap-1">
+                <span className="text-sm text-blue-700">
+                  {formatDistance(route.distance)}
+                </span>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 text-blue-700 hover:bg-blue-100">
+                      <Download className="w-4 h-4" />
+                      <span className="sr-only">{t('export.title')}</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>{t('export.title')}</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {EXPORT_FORMATS.map((format) => (
+                      <DropdownMenuItem key={format.value} onSelect={() => downloadRoute(route, format.value, t)}>
+                        {format.label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+
+            <div className="flex items-center text-sm text-blue-800 mb-2">
+              <Clock className="w-4 h-4 me-1" />
+              <span className="font-medium">
+                {t(
+                  tripTime.type === 'arrive'
+                    ? 'directions.leaveBy'
+                    : tripTime.type === 'depart'
+                      ? 'directions.arriveIfLeaving'
+                      : 'directions.arrive',
+                  {
+                    departure: formatClockTime(schedule.departure, new Date(), dateLocale),
+                    arrival: formatClockTime(schedule.arrival, new Date(), dateLocale),
+                  }
+                )}
               </span>
             </div>
             
             <div className="flex items-center text-sm text-blue-700">
-              <MapPin className="w-4 h-4 mr-1" />
+              <MapPin className="w-4 h-4 me-1" />
               <span className="truncate">{route.origin.name}</span>
-              <ArrowRight className="w-4 h-4 mx-2" />
+              <ArrowRight className="w-4 h-4 mx-2 rtl:rotate-180" />
               <span className="truncate">{route.destination.name}</span>
             </div>
+
+            {route.avoid.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-3">
+                {route.avoid.map((avoidance) =>
+                  violatesAvoidance(route, avoidance) ? (
+                    <Badge key={avoidance} variant="destructive" title={t('directions.cannotAvoid')}>
+                      {t(`avoidance.${avoidance}.used`)}
+                    </Badge>
+                  ) : (
+                    <Badge key={avoidance} variant="outline" className="border-blue-300 text-blue-800">
+                      {t(`avoidance.${avoidance}.avoided`)}
+                    </Badge>
+                  )
+                )}
+              </div>
+            )}
+
+            {route.legs.length > 1 && (
+              <div className="mt-3 pt-3 border-t border-blue-200 space-y-1">
+                {route.legs.map((leg, legIndex) => (
+                  <div key={leg.id} className="flex items-center justify-between text-xs text-blue-700">
+                    <span className="truncate me-2">
+                      {t('directions.legSummary', { number: legIndex + 1, origin: leg.origin.name, destination: leg.destination.name })}
+                    </span>
+                    <span className="flex-shrink-0">
+                      {formatDuration(leg.duration, route.mode)} · {formatDistance(leg.distance)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="mb-4">
+            <ElevationProfileChart route={route} onHover={onElevationHover} />
           </div>
 
+          {onStartNavigation && !isNavigating && (
+            <Button onClick={onStartNavigation} className="w-full mb-4 bg-green-600 hover:bg-green-700">
+              <Navigation className="w-4 h-4 me-2" />
+              {t('directions.startNavigation')}
+            </Button>
+          )}
+
+          {route.steps.some((step) => step.mode === 'ferry') && (
+            <Alert className="mb-4 border-amber-300 bg-amber-50 text-amber-900">
+              <Ship className="h-4 w-4" />
+              <AlertDescription>
+                {t('directions.ferryWarning')}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Alternative Routes */}
+          {routes.length > 1 && (
+            <div className="mb-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">{t('directions.routes')}</h3>
+              <div className="space-y-2">
+                {routes.map((alternative) => (
+                  <button
+                    key={alternative.id}
+                    onClick={() => handleRouteSelect(alternative)}
+                    className={`w-full text-start p-3 rounded-lg border transition-colors ${
+                      alternative.id === route.id
+                        ? 'bg-blue-50 border-blue-300'
+                        : 'bg-white border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">
+                        {formatDuration(alternative.duration, alternative.mode)}
+                      </span>
+                      <span className="text-sm text-gray-500">{formatDistance(alternative.distance)}</span>
+                    </div>
+                    {alternative.roads.length > 0 && (
+                      <p className="text-xs text-gray-500 truncate mt-1">{t('directions.via', { roads: alternative.roads.join(', ') })}</p>
+                    )}
+                    {(alternative.hasFerry || alternative.hasToll) && (
+                      <div className="flex items-center mt-2 space-x-2 rtl:space-x-reverse">
+                        {alternative.hasFerry && <Badge variant="secondary">{t('directions.ferry')}</Badge>}
+                        {alternative.hasToll && <Badge variant="secondary">{t('directions.toll')}</Badge>}
+                      </div>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {optimizationSavings !== null && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4 text-sm text-green-800">
+              {optimizationSavings >= 60
+                ? t('directions.optimizeSavings', { duration: formatDuration(optimizationSavings, route.mode) })
+                : t('directions.optimizeNoSavings')}
+            </div>
+          )}
+
           {/* Turn-by-turn Directions */}
           <div>
             <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center">
-              <Navigation className="w-4 h-4 mr-2" />
-              Turn-by-turn Directions
+              <Navigation className="w-4 h-4 me-2" />
+              {t('directions.turnByTurn')}
             </h3>
             
             <div className="space-y-3">
-              {route.steps.map((step, index) => (
-                <button
-                  key={step.id}
-                  onClick={() => handleStepClick(step)}
-                  className={`w-full flex items-start space-x-3 p-3 rounded-lg transition-colors cursor-pointer text-left ${
-                    selectedStepId === step.id 
-                      ? 'bg-blue-100 border-2 border-blue-300' 
-                      : 'bg-gray-50 hover:bg-gray-100'
-                  }`}
-                >
-                  <div className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs font-medium ${
-                    selectedStepId === step.id 
-                      ? 'bg-blue-600 text-white' 
-                      : 'bg-blue-600 text-white'
-                  }`}>
-                    {index + 1}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-gray-900">{step.instruction}</p>
-                    <div className="flex items-center mt-1 text-xs text-gray-500 space-x-4">
-                      <span>{formatDistance(step.distance)}</span>
-                      <span>{formatDuration(step.duration)}</span>
+              {route.legs.length > 1
+                ? route.legs.map((leg, legIndex) => (
+                    <div key={leg.id} className="space-y-3">
+                      <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">
+                        {t('directions.leg', { number: legIndex + 1, origin: leg.origin.name, destination: leg.destination.name })}
+                      </p>
+                      {leg.steps.map(renderStep)}
                     </div>
-                  </div>
-                </button>
-              ))}
+                  ))
+                : route.steps.map(renderStep)}
             </div>
           </div>
         </div>
@@ -372,11 +713,11 @@ const DirectionsPanel: React.FC<DirectionsPanelProps> = ({
 
       {/* Tips */}
       <div className="bg-gray-50 rounded-lg p-4">
-        <h4 className="text-sm font-medium text-gray-700 mb-2">Tips</h4>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">{t('directions.tips')}</h4>
         <ul className="text-xs text-gray-600 space-y-1">
-          <li>• Click on the map to set destination</li>
-          <li>• Use "My Location" button for current position</li>
-          <li>• Route calculation is optimized for driving</li>
+          <li>• {t('directions.tipMap')}</li>
+          <li>• {t('directions.tipLocation')}</li>
+          <li>• {t('directions.tipMode')}</li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,116 @@
+import React, { useEffect } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Loader, Mountain, TrendingDown, TrendingUp } from 'lucide-react';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useElevationProfile } from '@/hooks/use-elevation-profile';
+import { useFormat } from '@/hooks/use-format';
+import { useTranslation } from '@/hooks/use-translation';
+import { Route } from '@/types/maps';
+
+interface ElevationProfileChartProps {
+  route: Route;
+  // Called with the point under the cursor, or null when it leaves the chart
+  onHover?: (coordinates: [number, number] | null) => void;
+}
+
+const ElevationProfileChart: React.FC<ElevationProfileChartProps> = ({ route, onHover }) => {
+  const { t, dir } = useTranslation();
+  const { formatDistance, formatElevation, formatGrade } = useFormat();
+  const { profile, isLoading, error } = useElevationProfile(route);
+
+  // Drop the map highlight when the route changes or the chart goes away
+  useEffect(() => () => onHover?.(null), [route, onHover]);
+
+  const chartConfig = {
+    elevation: { label: t('elevation.title'), color: '#2563eb' },
+  } satisfies ChartConfig;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-gray-500 py-2">
+        <Loader className="w-4 h-4 me-2 animate-spin" />
+        {t('elevation.loading')}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-gray-500 py-2">{t('elevation.unavailable')}</p>;
+  }
+
+  if (!profile || profile.points.length < 2) return null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700">{t('elevation.title')}</span>
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          <span className="flex items-center" title={t('elevation.ascent')}>
+            <TrendingUp className="w-3 h-3 me-1" />
+            {formatElevation(profile.ascent)}
+          </span>
+          <span className="flex items-center" title={t('elevation.descent')}>
+            <TrendingDown className="w-3 h-3 me-1" />
+            {formatElevation(profile.descent)}
+          </span>
+          <span className="flex items-center" title={t('elevation.maxGrade')}>
+            <Mountain className="w-3 h-3 me-1" />
+            {formatGrade(profile.maxGrade)}
+          </span>
+        </div>
+      </div>
+
+      <ChartContainer config={chartConfig} className="aspect-auto h-32 w-full">
+        <AreaChart
+          data={profile.points}
+          margin={{ top: 4, right: 4, bottom: 0, left: 4 }}
+          onMouseMove={(state) => {
+            const point = state?.activeTooltipIndex !== undefined ? profile.points[state.activeTooltipIndex] : undefined;
+            if (point) onHover?.(point.coordinates);
+          }}
+          onMouseLeave={() => onHover?.(null)}
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="distance"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            reversed={dir === 'rtl'}
+            tickFormatter={formatDistance}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+          />
+          <YAxis
+            dataKey="elevation"
+            domain={['auto', 'auto']}
+            orientation={dir === 'rtl' ? 'right' : 'left'}
+            tickFormatter={formatElevation}
+            tickLine={false}
+            axisLine={false}
+            width={48}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                indicator="line"
+                labelFormatter={(_, payload) => formatDistance(payload[0]?.payload.distance ?? 0)}
+                formatter={(value) => formatElevation(Number(value))}
+              />
+            }
+          />
+          <Area
+            dataKey="elevation"
+            type="monotone"
+            stroke="var(--color-elevation)"
+            fill="var(--color-elevation)"
+            fillOpacity={0.2}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default ElevationProfileChart;
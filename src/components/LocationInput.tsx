@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useFormat } from '@/hooks/use-format';
+import { usePlaceSearch } from '@/hooks/use-place-search';
+import { useTranslation } from '@/hooks/use-translation';
+import { Location, MapViewport } from '@/types/maps';
+
+interface LocationInputProps {
+  value: string;
+  placeholder: string;
+  indicator: React.ReactNode;
+  onValueChange: (value: string) => void;
+  onLocationSelect: (location: Location) => void;
+  // The map view to prefer places in
+  near?: MapViewport | null;
+}
+
+const LocationInput: React.FC<LocationInputProps> = ({
+  value,
+  placeholder,
+  indicator,
+  onValueChange,
+  onLocationSelect,
+  near,
+}) => {
+  const { t } = useTranslation();
+  const { formatDistance } = useFormat();
+  // Only what the user types is searched for, not addresses filled in for them
+  const [query, setQuery] = useState('');
+  const { results } = usePlaceSearch(query, { near });
+  const [showResults, setShowResults] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onValueChange(e.target.value);
+    setQuery(e.target.value);
+  };
+
+  const handleSelect = (location: Location) => {
+    onLocationSelect(location);
+    onValueChange(location.address);
+    setShowResults(false);
+    setQuery('');
+  };
+
+  return (
+    <div className="relative flex-1">
+      <div className="absolute start-3 top-1/2 transform -translate-y-1/2">{indicator}</div>
+      <Input
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={handleInputChange}
+        onFocus={() => setShowResults(true)}
+        onBlur={() => setTimeout(() => setShowResults(false), 200)}
+        className="ps-9 pe-4 py-3"
+      />
+      {showResults && (
+        <div className="absolute top-full start-0 end-0 z-50 bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {results.length > 0 ? (
+            results.map((result) => (
+              <button
+                key={result.id}
+                onClick={() => handleSelect(result)}
+                className="w-full text-start p-3 hover:bg-gray-50 border-b border-gray-100 last:border-b-0"
+              >
+                <div className="flex items-start space-x-3 rtl:space-x-reverse">
+                  <Search className="w-4 h-4 text-gray-400 mt-1 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{result.name}</p>
+                    <p className="text-sm text-gray-500 truncate">{result.address}</p>
+                  </div>
+                  {result.distance !== undefined && (
+                    <span className="text-xs text-gray-500 whitespace-nowrap mt-1">
+                      {formatDistance(result.distance)}
+                    </span>
+                  )}
+                </div>
+              </button>
+            ))
+          ) : (
+            <div className="p-4 text-center text-gray-500 text-sm">
+              {t('search.hint')}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationInput;
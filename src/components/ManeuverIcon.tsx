@@ -0,0 +1,58 @@
+import React from 'react';
+import {
+  ArrowDownLeft,
+  ArrowDownRight,
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerUpLeft,
+  CornerUpRight,
+  Flag,
+  LucideIcon,
+  MapPin,
+  Merge,
+  Navigation,
+  RotateCcw,
+  Ship,
+  Split,
+  Undo2,
+} from 'lucide-react';
+import { Maneuver, ManeuverModifier, ManeuverType } from '@/types/maps';
+
+const TYPE_ICONS: Partial<Record<ManeuverType, LucideIcon>> = {
+  depart: Navigation,
+  arrive: Flag,
+  waypoint: MapPin,
+  merge: Merge,
+  fork: Split,
+  roundabout: RotateCcw,
+  'exit-roundabout': RotateCcw,
+  ferry: Ship,
+};
+
+const MODIFIER_ICONS: Record<ManeuverModifier, LucideIcon> = {
+  uturn: Undo2,
+  'sharp right': ArrowDownRight,
+  right: CornerUpRight,
+  'slight right': ArrowUpRight,
+  straight: ArrowUp,
+  'slight left': ArrowUpLeft,
+  left: CornerUpLeft,
+  'sharp left': ArrowDownLeft,
+};
+
+interface ManeuverIconProps {
+  maneuver: Maneuver;
+  className?: string;
+  size?: number;
+}
+
+const ManeuverIcon: React.FC<ManeuverIconProps> = ({ maneuver, className, size }) => {
+  // Forks read better as the direction to keep to
+  const Icon = (maneuver.type !== 'fork' || !maneuver.modifier ? TYPE_ICONS[maneuver.type] : undefined)
+    || MODIFIER_ICONS[maneuver.modifier || 'straight'];
+
+  return <Icon className={className} size={size} />;
+};
+
+export default ManeuverIcon;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Map as MapIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useSettings } from '@/components/SettingsProvider';
+import { useTranslation } from '@/hooks/use-translation';
+import { activeBaseLayer, tileSources } from '@/lib/tiles';
+import { cn } from '@/lib/utils';
+import { MapSettings } from '@/types/settings';
+
+interface MapLayerControlProps {
+  className?: string;
+}
+
+const MapLayerControl: React.FC<MapLayerControlProps> = ({ className }) => {
+  const { t } = useTranslation();
+  const { settings, updateSettings } = useSettings();
+  const map = settings.map;
+  const sources = tileSources(map);
+  const baseLayers = sources.filter(source => source.role === 'base');
+  const overlays = sources.filter(source => source.role === 'overlay');
+
+  const updateMap = (changes: Partial<MapSettings>) => {
+    updateSettings({ map: { ...map, ...changes } });
+  };
+
+  const toggleOverlay = (id: string, visible: boolean) => {
+    updateMap({ overlays: visible ? [...map.overlays, id] : map.overlays.filter(overlay => overlay !== id) });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className={cn('shadow-lg', className)}
+          title={t('layers.title')}
+        >
+          <MapIcon className="w-4 h-4" />
+          <span className="sr-only">{t('layers.title')}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 max-h-[70vh] overflow-y-auto">
+        <h3 className="text-sm font-semibold mb-2">{t('layers.base')}</h3>
+        <RadioGroup
+          value={activeBaseLayer(map).id}
+          onValueChange={baseLayer => updateMap({ baseLayer })}
+        >
+          {baseLayers.map(source => (
+            <div key={source.id} className="flex items-center gap-2">
+              <RadioGroupItem id={`base-layer-${source.id}`} value={source.id} />
+              <Label htmlFor={`base-layer-${source.id}`} className="font-normal">
+                {source.labelKey ? t(source.labelKey) : source.name}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <h3 className="text-sm font-semibold mt-4 mb-2">{t('layers.overlays')}</h3>
+        <div className="space-y-2">
+          {overlays.map(source => (
+            <div key={source.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`tile-overlay-${source.id}`}
+                checked={map.overlays.includes(source.id)}
+                onCheckedChange={checked => toggleOverlay(source.id, checked === true)}
+              />
+              <Label htmlFor={`tile-overlay-${source.id}`} className="font-normal">
+                {source.labelKey ? t(source.labelKey) : source.name}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MapLayerControl;
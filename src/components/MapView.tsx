@@ -1,31 +1,167 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
 import { Navigation, Loader } from 'lucide-react';
-import { Location, Route } from '@/types/maps';
+import { Location, MapBounds, MapViewport, Route, SearchResult, TileSource, TravelMode } from '@/types/maps';
+import { NavigationProgress } from '@/types/navigation';
+import { Overlay } from '@/types/overlays';
 import { Button } from '@/components/ui/button';
+import ManeuverIcon from '@/components/ManeuverIcon';
+import MapLayerControl from '@/components/MapLayerControl';
+import OfflineRegionsDialog from '@/components/OfflineRegionsDialog';
+import { useSettings } from '@/components/SettingsProvider';
+import { ResolvedTheme, useTheme } from '@/components/ThemeProvider';
+import { useFormat } from '@/hooks/use-format';
+import { useGeocoder } from '@/hooks/use-geocoder';
 import { toast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { escapeXml } from '@/lib/formats';
+import { describeGeolocationError } from '@/lib/navigation';
+import { describeStep } from '@/lib/routing';
+import { activeBaseLayer, activeOverlays } from '@/lib/tiles';
 
 interface MapViewProps {
   selectedLocation: Location | null;
   currentLocation: Location | null;
   route: Route | null;
+  alternativeRoutes: Route[];
+  onRouteSelect: (route: Route) => void;
   onCurrentLocationFound: (location: Location) => void;
   onLocationSelect: (location: Location) => void;
   zoomToCoordinates?: [number, number] | null;
+  isNavigating?: boolean;
+  navigationProgress?: NavigationProgress | null;
+  highlightedPoint?: [number, number] | null;
+  overlays?: Overlay[];
+  onFilesDropped?: (files: File[]) => void;
+  initialView?: MapViewport | null;
+  onViewChange?: (view: MapViewport) => void;
 }
 
+interface MapPalette {
+  routes: Record<TravelMode, { color: string; weight: number; dashArray?: string }>;
+  alternative: string;
+  maneuver: string;
+  ferry: string;
+  stop: string;
+  // Ring around markers so they stand out from the tiles
+  outline: string;
+}
+
+// Dark tiles need lighter lines and darker rings to keep the same contrast
+const MAP_PALETTES: Record<ResolvedTheme, MapPalette> = {
+  light: {
+    routes: {
+      driving: { color: 'blue', weight: 4 },
+      cycling: { color: '#16a34a', weight: 4 },
+      walking: { color: '#9333ea', weight: 4, dashArray: '2 8' },
+      wheelchair: { color: '#0d9488', weight: 5, dashArray: '2 8' },
+    },
+    alternative: '#9ca3af',
+    maneuver: '#2563eb',
+    ferry: '#0ea5e9',
+    stop: '#f59e0b',
+    outline: 'white',
+  },
+  dark: {
+    routes: {
+      driving: { color: '#60a5fa', weight: 4 },
+      cycling: { color: '#4ade80', weight: 4 },
+      walking: { color: '#c084fc', weight: 4, dashArray: '2 8' },
+      wheelchair: { color: '#2dd4bf', weight: 5, dashArray: '2 8' },
+    },
+    alternative: '#6b7280',
+    maneuver: '#3b82f6',
+    ferry: '#38bdf8',
+    stop: '#d97706',
+    outline: '#1e293b',
+  },
+};
+
+// Leaflet copies options over its defaults key by key, so unset ones are left out
+const tileLayerOptions = (source: TileSource, zIndex: number) => {
+  const options: Record<string, string | number | boolean> = { zIndex };
+  if (source.attribution) options.attribution = source.attribution;
+  if (source.maxZoom) options.maxZoom = source.maxZoom;
+  if (source.subdomains) options.subdomains = source.subdomains;
+  if (source.opacity !== undefined) options.opacity = source.opacity;
+  if (source.cors) options.crossOrigin = 'anonymous';
+  if (source.kind === 'wms') {
+    options.layers = source.wmsLayers ?? '';
+    options.format = 'image/png';
+    options.transparent = source.role === 'overlay';
+  }
+  return options;
+};
+
+interface LeafletBounds {
+  getNorth(): number;
+  getSouth(): number;
+  getEast(): number;
+  getWest(): number;
+}
+
+const toMapBounds = (bounds: LeafletBounds): MapBounds => ({
+  north: bounds.getNorth(),
+  south: bounds.getSouth(),
+  east: bounds.getEast(),
+  west: bounds.getWest(),
+});
+
 const MapView: React.FC<MapViewProps> = ({
   selectedLocation,
   currentLocation,
   route,
+  alternativeRoutes,
+  onRouteSelect,
   onCurrentLocationFound,
   onLocationSelect,
   zoomToCoordinates,
+  isNavigating = false,
+  navigationProgress = null,
+  highlightedPoint = null,
+  overlays = [],
+  onFilesDropped,
+  initialView = null,
+  onViewChange,
 }) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const mapRef = useRef<any>(null);
   const markersRef = useRef<any[]>([]);
+  const routeLayersRef = useRef<unknown[]>([]);
+  const navigationMarkerRef = useRef<{
+    setLatLng: (latLng: [number, number]) => { setIcon: (icon: unknown) => void };
+  } | null>(null);
+  const highlightMarkerRef = useRef<{
+    setLatLng: (latLng: [number, number]) => void;
+    setStyle: (style: { color: string; fillColor: string }) => void;
+  } | null>(null);
+  const overlayLayersRef = useRef(new Map<string, { remove: () => void }>());
+  const baseTileLayerRef = useRef<{ remove: () => void } | null>(null);
+  const tileOverlaysRef = useRef(new Map<string, {
+    source: TileSource;
+    layer: { remove: () => void; setZIndex: (zIndex: number) => void };
+  }>());
+  // Overlays the map has already zoomed to, so toggling one doesn't move the map
+  const fittedOverlaysRef = useRef(new Set<string>());
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const isNavigatingRef = useRef(isNavigating);
   const [mapLoaded, setMapLoaded] = useState(false);
+  const { t } = useTranslation();
+  const { formatDistance } = useFormat();
+  const { settings } = useSettings();
+  const { resolvedTheme } = useTheme();
+  const palette = MAP_PALETTES[resolvedTheme];
+  const baseLayer = useMemo(() => activeBaseLayer(settings.map, resolvedTheme), [settings.map, resolvedTheme]);
+  const tileOverlays = useMemo(() => activeOverlays(settings.map), [settings.map]);
+  // The map's own event handlers are bound once, so they read the translator through a ref
+  const translateRef = useRef(t);
+  translateRef.current = t;
+  const viewChangeRef = useRef(onViewChange);
+  viewChangeRef.current = onViewChange;
+  const geocoder = useGeocoder();
+  const geocoderRef = useRef(geocoder);
+  geocoderRef.current = geocoder;
 
   useEffect(() => {
     initializeMap();
@@ -62,21 +198,15 @@ const MapView: React.FC<MapViewProps> = ({
       // Small delay to ensure container is ready
       await new Promise(resolve => setTimeout(resolve, 100));
 
-      // Initialize map with a default location (New York City)
+      // Initialize map at the linked view, or a default location (New York City)
       const map = L.map(mapContainer.current, {
-        center: [40.7128, -74.0060],
-        zoom: 10,
+        center: initialView ? [initialView.center[1], initialView.center[0]] : [40.7128, -74.0060],
+        zoom: initialView?.zoom ?? 10,
         zoomControl: true,
         attributionControl: true,
         preferCanvas: false
       });
 
-      // Add OpenStreetMap tiles
-      L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-        attribution: '© OpenStreetMap contributors',
-        maxZoom: 19,
-      }).addTo(map);
-
       mapRef.current = map;
       setMapLoaded(true);
       console.log('Map initialized successfully');
@@ -86,41 +216,44 @@ const MapView: React.FC<MapViewProps> = ({
         map.invalidateSize();
       }, 100);
 
+      const reportView = () => {
+        const center = map.getCenter();
+        viewChangeRef.current?.({
+          center: [center.lng, center.lat],
+          zoom: map.getZoom(),
+          bounds: toMapBounds(map.getBounds()),
+        });
+      };
+      // The starting view counts too, not only the ones the user moves to
+      reportView();
+      map.on('moveend', reportView);
+
       // Add click handler for selecting locations
       map.on('click', async (e: any) => {
         const { lat, lng } = e.latlng;
         const coordinates: [number, number] = [lng, lat];
-        
+
+        // A point is still selectable where reverse geocoding fails or finds nothing
+        let place: SearchResult | null = null;
         try {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`
-          );
-          const data = await response.json();
-          
-          const location: Location = {
-            id: Date.now().toString(),
-            name: data.display_name?.split(',')[0] || 'Selected Location',
-            address: data.display_name || `${lat.toFixed(6)}, ${lng.toFixed(6)}`,
-            coordinates,
-          };
-          onLocationSelect(location);
+          place = await geocoderRef.current.reverse(coordinates);
         } catch (error) {
           console.error('Error reverse geocoding:', error);
-          const location: Location = {
-            id: Date.now().toString(),
-            name: 'Selected Location',
-            address: `${lat.toFixed(6)}, ${lng.toFixed(6)}`,
-            coordinates,
-          };
-          onLocationSelect(location);
         }
+
+        onLocationSelect({
+          id: Date.now().toString(),
+          name: place?.name || translateRef.current('location.selected'),
+          address: place?.address || `${lat.toFixed(6)}, ${lng.toFixed(6)}`,
+          coordinates,
+        });
       });
 
     } catch (error) {
       console.error('Error initializing map:', error);
       toast({
-        title: "Error",
-        description: "Failed to initialize map.",
+        title: t('map.error'),
+        description: t('map.initFailed'),
         variant: "destructive",
       });
     }
@@ -131,8 +264,8 @@ const MapView: React.FC<MapViewProps> = ({
     
     if (!navigator.geolocation) {
       toast({
-        title: "Error",
-        description: "Geolocation is not supported by this browser.",
+        title: t('map.error'),
+        description: t('location.unsupported'),
         variant: "destructive",
       });
       setIsLoadingLocation(false);
@@ -146,61 +279,33 @@ const MapView: React.FC<MapViewProps> = ({
           position.coords.latitude,
         ];
 
+        // Still create location even if reverse geocoding fails
+        let place: SearchResult | null = null;
         try {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${coordinates[1]}&lon=${coordinates[0]}`
-          );
-          const data = await response.json();
-          
-          const location: Location = {
-            id: 'current-location',
-            name: 'Current Location',
-            address: data.display_name || `${coordinates[1].toFixed(6)}, ${coordinates[0].toFixed(6)}`,
-            coordinates,
-          };
-
-          onCurrentLocationFound(location);
-          
-          if (mapRef.current) {
-            mapRef.current.setView([coordinates[1], coordinates[0]], 15);
-          }
+          place = await geocoder.reverse(coordinates);
         } catch (error) {
           console.error('Error getting location details:', error);
-          // Still create location even if reverse geocoding fails
-          const location: Location = {
-            id: 'current-location',
-            name: 'Current Location',
-            address: `${coordinates[1].toFixed(6)}, ${coordinates[0].toFixed(6)}`,
-            coordinates,
-          };
-          onCurrentLocationFound(location);
-          
-          if (mapRef.current) {
-            mapRef.current.setView([coordinates[1], coordinates[0]], 15);
-          }
         }
-        
+
+        const location: Location = {
+          id: 'current-location',
+          name: t('location.current'),
+          address: place?.address || `${coordinates[1].toFixed(6)}, ${coordinates[0].toFixed(6)}`,
+          coordinates,
+        };
+        onCurrentLocationFound(location);
+
+        if (mapRef.current) {
+          mapRef.current.setView([coordinates[1], coordinates[0]], 15);
+        }
+
         setIsLoadingLocation(false);
       },
       (error) => {
         console.error('Error getting current location:', error);
-        let errorMessage = "Unable to retrieve your location.";
-        
-        switch (error.code) {
-          case error.PERMISSION_DENIED:
-            errorMessage = "Location access denied. Please enable location permissions.";
-            break;
-          case error.POSITION_UNAVAILABLE:
-            errorMessage = "Location information is unavailable.";
-            break;
-          case error.TIMEOUT:
-            errorMessage = "Location request timed out.";
-            break;
-        }
-        
         toast({
-          title: "Location Error",
-          description: errorMessage,
+          title: t('location.error'),
+          description: t(describeGeolocationError(error)),
           variant: "destructive",
         });
         setIsLoadingLocation(false);
@@ -222,6 +327,15 @@ const MapView: React.FC<MapViewProps> = ({
     markersRef.current = [];
   };
 
+  const clearRouteLayers = () => {
+    routeLayersRef.current.forEach(layer => {
+      if (mapRef.current) {
+        mapRef.current.removeLayer(layer);
+      }
+    });
+    routeLayersRef.current = [];
+  };
+
   // Add effect to handle zooming to specific coordinates
   useEffect(() => {
     if (zoomToCoordinates && mapRef.current) {
@@ -244,7 +358,7 @@ const MapView: React.FC<MapViewProps> = ({
         markersRef.current.push(marker);
       });
     }
-  }, [selectedLocation]);
+  }, [selectedLocation, mapLoaded]);
 
   // Update map when currentLocation changes
   useEffect(() => {
@@ -252,7 +366,7 @@ const MapView: React.FC<MapViewProps> = ({
       import('leaflet').then(L => {
         const marker = L.marker([currentLocation.coordinates[1], currentLocation.coordinates[0]])
           .addTo(mapRef.current)
-          .bindPopup('Current Location');
+          .bindPopup(currentLocation.name);
         
         markersRef.current.push(marker);
       });
@@ -261,25 +375,80 @@ const MapView: React.FC<MapViewProps> = ({
 
   // Draw route when route changes
   useEffect(() => {
+    clearRouteLayers();
+    // Leaflet loads asynchronously; a rerun in the meantime draws the route itself
+    let cancelled = false;
+
     if (route && mapRef.current) {
       import('leaflet').then(L => {
+        if (cancelled) return;
+
+        // Draw alternatives first so they sit underneath the selected route
+        alternativeRoutes.forEach(alternative => {
+          const alternativeCoords = alternative.geometry.map(coord => [coord[1], coord[0]] as [number, number]);
+          const alternativeLine = L.polyline(alternativeCoords, { color: palette.alternative, weight: 5, opacity: 0.8 })
+            .addTo(mapRef.current)
+            .bindTooltip(t('map.selectRoute'), { sticky: true });
+
+          alternativeLine.on('click', () => onRouteSelect(alternative));
+          routeLayersRef.current.push(alternativeLine);
+        });
+
         // Convert coordinates to Leaflet format [lat, lng]
         const routeCoords = route.geometry.map(coord => [coord[1], coord[0]] as [number, number]);
         
-        const polyline = L.polyline(routeCoords, { color: 'blue', weight: 4 })
+        const polyline = L.polyline(routeCoords, palette.routes[route.mode] ?? palette.routes.driving)
           .addTo(mapRef.current);
         
-        markersRef.current.push(polyline);
+        routeLayersRef.current.push(polyline);
+
+        // Ferry crossings are drawn dashed over the route so they don't read as roads
+        route.steps
+          .filter(step => step.mode === 'ferry' && step.coordinates.length > 1)
+          .forEach(step => {
+            const ferryCoords = step.coordinates.map(coord => [coord[1], coord[0]] as [number, number]);
+            const ferryLine = L.polyline(ferryCoords, {
+              color: palette.ferry,
+              weight: 5,
+              dashArray: '10 10',
+            })
+              .addTo(mapRef.current)
+              .bindPopup(t('map.ferry', {
+                instruction: describeStep(route, step, t),
+                distance: formatDistance(step.distance),
+              }));
+
+            const middle = ferryCoords[Math.floor(ferryCoords.length / 2)];
+            const ferryIcon = L.divIcon({
+              html: `<div style="
+                background-color: ${palette.ferry};
+                border-radius: 50%;
+                width: 28px;
+                height: 28px;
+                display: flex;
+                align-items: center;
+                justify-content: center;
+                font-size: 16px;
+                border: 2px solid ${palette.outline};
+                box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+              ">⛴</div>`,
+              className: '',
+              iconSize: [28, 28],
+              iconAnchor: [14, 14],
+            });
+            const ferryMarker = L.marker(middle, { icon: ferryIcon }).addTo(mapRef.current);
+
+            routeLayersRef.current.push(ferryLine, ferryMarker);
+          });
         
-        // Add numbered markers for each step
+        // Add a marker showing the maneuver at the start of each step
         route.steps.forEach((step, index) => {
           if (step.coordinates.length > 0) {
             const stepCoord = step.coordinates[0];
             
-            // Create custom numbered icon
-            const numberedIcon = L.divIcon({
+            const maneuverIcon = L.divIcon({
               html: `<div style="
-                background-color: #2563eb;
+                background-color: ${palette.maneuver};
                 color: white;
                 border-radius: 50%;
                 width: 24px;
@@ -289,42 +458,307 @@ const MapView: React.FC<MapViewProps> = ({
                 justify-content: center;
                 font-size: 12px;
                 font-weight: bold;
-                border: 2px solid white;
+                border: 2px solid ${palette.outline};
                 box-shadow: 0 2px 4px rgba(0,0,0,0.2);
-              ">${index + 1}</div>`,
+              ">${renderToStaticMarkup(<ManeuverIcon maneuver={step.maneuver} size={14} />)}</div>`,
               className: '',
               iconSize: [24, 24],
               iconAnchor: [12, 12],
             });
 
             const stepMarker = L.marker([stepCoord[1], stepCoord[0]], { 
-              icon: numberedIcon 
+              icon: maneuverIcon 
             })
               .addTo(mapRef.current)
-              .bindPopup(`Step ${index + 1}: ${step.instruction}`);
+              .bindPopup(t('map.step', {
+                number: index + 1,
+                instruction: describeStep(route, step, t),
+                distance: formatDistance(step.distance),
+              }));
             
-            markersRef.current.push(stepMarker);
+            routeLayersRef.current.push(stepMarker);
           }
         });
         
-        // Fit map to route
-        mapRef.current.fitBounds(polyline.getBounds());
+        // Mark intermediate stops so multi-stop routes read clearly
+        route.waypoints.forEach((waypoint, index) => {
+          const stopIcon = L.divIcon({
+            html: `<div style="
+              background-color: ${palette.stop};
+              color: white;
+              border-radius: 6px;
+              width: 26px;
+              height: 26px;
+              display: flex;
+              align-items: center;
+              justify-content: center;
+              font-size: 12px;
+              font-weight: bold;
+              border: 2px solid ${palette.outline};
+              box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+            ">S${index + 1}</div>`,
+            className: '',
+            iconSize: [26, 26],
+            iconAnchor: [13, 13],
+          });
+
+          const stopMarker = L.marker([waypoint.coordinates[1], waypoint.coordinates[0]], {
+            icon: stopIcon,
+            zIndexOffset: 1000,
+          })
+            .addTo(mapRef.current)
+            .bindPopup(t('map.stop', { number: index + 1, name: waypoint.name }));
+
+          routeLayersRef.current.push(stopMarker);
+        });
+
+        // Fit map to route, unless navigation is keeping the map on the user
+        if (!isNavigatingRef.current) {
+          mapRef.current.fitBounds(polyline.getBounds());
+        }
+      });
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [route, alternativeRoutes, onRouteSelect, t, formatDistance, mapLoaded, palette]);
+
+  // Enlarge the map while navigating so its corners stay covered when rotated
+  useEffect(() => {
+    isNavigatingRef.current = isNavigating;
+    if (mapRef.current) {
+      setTimeout(() => mapRef.current.invalidateSize(), 100);
+    }
+
+    if (!isNavigating && navigationMarkerRef.current) {
+      mapRef.current?.removeLayer(navigationMarkerRef.current);
+      navigationMarkerRef.current = null;
+    }
+  }, [isNavigating]);
+
+  // Follow the user's position during navigation
+  useEffect(() => {
+    if (!isNavigating || !navigationProgress || !mapRef.current) return;
+
+    import('leaflet').then(L => {
+      const [lng, lat] = navigationProgress.snappedCoordinates;
+
+      // The arrow turns with the heading; the rotated map turns it back to point up
+      const arrowIcon = L.divIcon({
+        html: `<div style="transform: rotate(${navigationProgress.heading}deg); width: 36px; height: 36px;">
+          <svg viewBox="0 0 24 24" width="36" height="36">
+            <circle cx="12" cy="12" r="11" fill="${palette.maneuver}" stroke="${palette.outline}" stroke-width="2" />
+            <path d="M12 5 L17 17 L12 14 L7 17 Z" fill="white" />
+          </svg>
+        </div>`,
+        className: '',
+        iconSize: [36, 36],
+        iconAnchor: [18, 18],
       });
+
+      if (navigationMarkerRef.current) {
+        navigationMarkerRef.current.setLatLng([lat, lng]).setIcon(arrowIcon);
+      } else {
+        navigationMarkerRef.current = L.marker([lat, lng], { icon: arrowIcon, zIndexOffset: 2000 })
+          .addTo(mapRef.current);
+      }
+
+      mapRef.current.setView([lat, lng], Math.max(mapRef.current.getZoom(), 17), { animate: true });
+    });
+  }, [isNavigating, navigationProgress, palette]);
+
+  // Mark the point hovered in the elevation profile
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    if (!highlightedPoint) {
+      if (highlightMarkerRef.current) {
+        mapRef.current.removeLayer(highlightMarkerRef.current);
+        highlightMarkerRef.current = null;
+      }
+      return;
     }
-  }, [route]);
+
+    import('leaflet').then(L => {
+      const [lng, lat] = highlightedPoint;
+      if (highlightMarkerRef.current) {
+        highlightMarkerRef.current.setLatLng([lat, lng]);
+        highlightMarkerRef.current.setStyle({ color: palette.outline, fillColor: palette.maneuver });
+      } else {
+        highlightMarkerRef.current = L.circleMarker([lat, lng], {
+          radius: 7,
+          color: palette.outline,
+          weight: 2,
+          fillColor: palette.maneuver,
+          fillOpacity: 1,
+        }).addTo(mapRef.current);
+      }
+    });
+  }, [highlightedPoint, palette]);
+
+  // Swap the base map when another is picked
+  useEffect(() => {
+    if (!mapLoaded) return;
+
+    import('leaflet').then(L => {
+      baseTileLayerRef.current?.remove();
+      const options = tileLayerOptions(baseLayer, 1);
+      baseTileLayerRef.current = (baseLayer.kind === 'wms'
+        ? L.tileLayer.wms(baseLayer.url, options)
+        : L.tileLayer(baseLayer.url, options)
+      ).addTo(mapRef.current);
+    });
+  }, [baseLayer, mapLoaded]);
+
+  // Keep the chosen tile overlays above the base map, in the order they were turned on
+  useEffect(() => {
+    if (!mapLoaded) return;
+
+    import('leaflet').then(L => {
+      const layers = tileOverlaysRef.current;
+      layers.forEach(({ source, layer }, id) => {
+        if (!tileOverlays.includes(source)) {
+          layer.remove();
+          layers.delete(id);
+        }
+      });
+
+      tileOverlays.forEach((source, index) => {
+        const zIndex = 10 + index;
+        const existing = layers.get(source.id);
+        if (existing) {
+          existing.layer.setZIndex(zIndex);
+          return;
+        }
+        const options = tileLayerOptions(source, zIndex);
+        const layer = (source.kind === 'wms'
+          ? L.tileLayer.wms(source.url, options)
+          : L.tileLayer(source.url, options)
+        ).addTo(mapRef.current);
+        layers.set(source.id, { source, layer });
+      });
+    });
+  }, [tileOverlays, mapLoaded]);
+
+  // Keep a layer group on the map for each visible overlay
+  useEffect(() => {
+    if (!mapLoaded) return;
+
+    import('leaflet').then(L => {
+      const layers = overlayLayersRef.current;
+      layers.forEach((layer, id) => {
+        if (!overlays.some(overlay => overlay.id === id && overlay.visible)) {
+          layer.remove();
+          layers.delete(id);
+        }
+      });
+
+      const toLatLng = ([lng, lat]: [number, number]): [number, number] => [lat, lng];
+
+      overlays.forEach(overlay => {
+        if (!overlay.visible || layers.has(overlay.id)) return;
+
+        const group = L.featureGroup(overlay.features.map(({ geometry, name, description }) => {
+          const layer = geometry.type === 'Point'
+            ? L.circleMarker(toLatLng(geometry.coordinates), {
+              radius: 6,
+              color: 'white',
+              weight: 2,
+              fillColor: overlay.color,
+              fillOpacity: 1,
+            })
+            : geometry.type === 'LineString'
+              ? L.polyline(geometry.coordinates.map(toLatLng), { color: overlay.color, weight: 4, opacity: 0.8 })
+              : L.polygon(geometry.coordinates.map(ring => ring.map(toLatLng)), {
+                color: overlay.color,
+                weight: 2,
+                fillOpacity: 0.2,
+              });
+
+          // Names come from the imported file, so they're escaped before going into the popup
+          if (name) {
+            layer.bindPopup(description
+              ? `<strong>${escapeXml(name)}</strong><br>${escapeXml(description)}`
+              : escapeXml(name));
+          }
+          return layer;
+        })).addTo(mapRef.current);
+        layers.set(overlay.id, group);
+
+        // Show a newly imported file in full
+        if (!fittedOverlaysRef.current.has(overlay.id)) {
+          fittedOverlaysRef.current.add(overlay.id);
+          if (!isNavigatingRef.current) {
+            mapRef.current.fitBounds(group.getBounds(), { padding: [20, 20] });
+          }
+        }
+      });
+    });
+  }, [overlays, mapLoaded]);
+
+  // The area on screen, for saving it to use offline
+  const getMapView = () => {
+    if (!mapRef.current) return null;
+    return {
+      bounds: toMapBounds(mapRef.current.getBounds()),
+      zoom: mapRef.current.getZoom(),
+    };
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onFilesDropped || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onFilesDropped) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onFilesDropped(files);
+  };
+
+  const mapRotation = isNavigating && navigationProgress ? -navigationProgress.heading : 0;
 
   return (
-    <div className="relative w-full h-full">
-      <div 
-        ref={mapContainer} 
-        className="w-full h-full bg-gray-100"
-      />
+    <div
+      className="relative w-full h-full overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <div
+        className="absolute transition-transform duration-500"
+        style={{
+          inset: isNavigating ? '-30%' : 0,
+          transform: `rotate(${mapRotation}deg)`,
+        }}
+      >
+        {/* Leaflet positions its panes and controls assuming left-to-right */}
+        <div 
+          ref={mapContainer} 
+          dir="ltr"
+          className="w-full h-full bg-muted"
+        />
+      </div>
       
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center border-4 border-dashed border-primary bg-primary/10 pointer-events-none">
+          <p className="px-4 py-2 rounded-lg bg-card text-card-foreground font-medium shadow">{t('overlays.drop')}</p>
+        </div>
+      )}
+
       {!mapLoaded && (
-        <div className="absolute inset-0 flex items-center justify-center bg-gray-100 z-10">
+        <div className="absolute inset-0 flex items-center justify-center bg-muted z-10">
           <div className="text-center">
-            <Loader className="w-8 h-8 animate-spin mx-auto mb-2 text-gray-600" />
-            <p className="text-gray-600">Loading map...</p>
+            <Loader className="w-8 h-8 animate-spin mx-auto mb-2 text-muted-foreground" />
+            <p className="text-muted-foreground">{t('map.loading')}</p>
           </div>
         </div>
       )}
@@ -333,7 +767,8 @@ const MapView: React.FC<MapViewProps> = ({
       <Button
         onClick={getCurrentLocation}
         disabled={isLoadingLocation}
-        className="absolute top-4 right-4 z-20 bg-white text-gray-700 hover:bg-gray-50 border border-gray-300 shadow-lg"
+        variant="outline"
+        className="absolute top-4 end-4 z-20 shadow-lg"
         size="sm"
       >
         {isLoadingLocation ? (
@@ -341,8 +776,16 @@ const MapView: React.FC<MapViewProps> = ({
         ) : (
           <Navigation className="w-4 h-4" />
         )}
-        <span className="ml-2">My Location</span>
+        <span className="ms-2">{t('map.myLocation')}</span>
       </Button>
+
+      <MapLayerControl className="absolute top-16 end-4 z-20" />
+
+      <OfflineRegionsDialog
+        getView={getMapView}
+        sources={[baseLayer, ...tileOverlays]}
+        className="absolute top-28 end-4 z-20"
+      />
     </div>
   );
 };
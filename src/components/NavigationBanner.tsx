@@ -0,0 +1,95 @@
+import React from 'react';
+import { Flag, Navigation, Volume2, VolumeX, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ManeuverIcon from '@/components/ManeuverIcon';
+import { useFormat } from '@/hooks/use-format';
+import { useTranslation } from '@/hooks/use-translation';
+import { describeStep } from '@/lib/routing';
+import { formatClockTime } from '@/lib/schedule';
+import { Route } from '@/types/maps';
+import { NavigationProgress } from '@/types/navigation';
+
+interface NavigationBannerProps {
+  route: Route;
+  progress: NavigationProgress | null;
+  isRerouting?: boolean;
+  isMuted?: boolean;
+  onToggleMute?: () => void;
+  onStop: () => void;
+}
+
+const NavigationBanner: React.FC<NavigationBannerProps> = ({
+  route,
+  progress,
+  isRerouting = false,
+  isMuted = false,
+  onToggleMute,
+  onStop,
+}) => {
+  const { t, dateLocale } = useTranslation();
+  const { formatDistance, formatDuration } = useFormat();
+  const nextStep = progress ? route.steps[progress.activeStepIndex] : null;
+
+  return (
+    <div className="absolute top-4 start-4 end-36 z-30 bg-blue-700 text-white rounded-xl shadow-2xl overflow-hidden">
+      <div className="flex items-start p-4">
+        <div className="flex-shrink-0 w-12 h-12 rounded-lg bg-blue-800 flex items-center justify-center me-4">
+          {progress?.arrived ? (
+            <Flag className="w-7 h-7" />
+          ) : nextStep && !isRerouting ? (
+            <ManeuverIcon maneuver={nextStep.maneuver} className="w-7 h-7" />
+          ) : (
+            <Navigation className="w-7 h-7" />
+          )}
+        </div>
+        <div className="flex-1 min-w-0">
+          {!progress ? (
+            <p className="text-xl font-semibold">{t('navigation.waiting')}</p>
+          ) : isRerouting ? (
+            <p className="text-xl font-semibold">{t('navigation.rerouting')}</p>
+          ) : progress.arrived ? (
+            <p className="text-xl font-semibold">{t('navigation.arrived', { name: route.destination.name })}</p>
+          ) : (
+            <>
+              <p className="text-3xl font-bold">{formatDistance(progress.distanceToManeuver)}</p>
+              <p className="text-lg font-medium truncate">{nextStep && describeStep(route, nextStep, t)}</p>
+            </>
+          )}
+        </div>
+        {onToggleMute && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onToggleMute}
+            className="flex-shrink-0 text-white hover:bg-blue-800 hover:text-white"
+          >
+            {isMuted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+            <span className="sr-only">{isMuted ? t('navigation.unmute') : t('navigation.mute')}</span>
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onStop}
+          className="flex-shrink-0 text-white hover:bg-blue-800 hover:text-white"
+        >
+          <X className="w-5 h-5" />
+          <span className="sr-only">{t('navigation.stop')}</span>
+        </Button>
+      </div>
+      {progress && !progress.arrived && (
+        <div className="flex items-center justify-between px-4 py-2 bg-blue-800 text-sm">
+          <span>{formatDuration(progress.remainingDuration, route.mode)}</span>
+          <span>{formatDistance(progress.remainingDistance)}</span>
+          <span>
+            {t('navigation.eta', {
+              time: formatClockTime(new Date(Date.now() + progress.remainingDuration * 1000), new Date(), dateLocale),
+            })}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NavigationBanner;
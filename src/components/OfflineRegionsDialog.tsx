@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { useFormat } from '@/hooks/use-format';
+import { useOfflineRegions } from '@/hooks/use-offline-regions';
+import { toast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  estimateRegionSize,
+  isOfflineSupported,
+  MAX_REGION_TILES,
+  OfflineError,
+  OfflineRegion,
+  regionTileCount,
+  RegionRequest,
+  TileBounds,
+} from '@/lib/offline';
+import { cn } from '@/lib/utils';
+import { TileSource } from '@/types/maps';
+
+interface OfflineRegionsDialogProps {
+  // The area on screen when the dialog opens, or null before the map has loaded
+  getView: () => { bounds: TileBounds; zoom: number } | null;
+  // The layers currently drawn, which are the ones saved
+  sources: TileSource[];
+  className?: string;
+}
+
+// Deeper zooms multiply the tile count by four each, so the default range stays shallow
+const DEFAULT_EXTRA_ZOOM = 3;
+const MAX_ZOOM = 19;
+
+const OfflineRegionsDialog: React.FC<OfflineRegionsDialogProps> = ({ getView, sources, className }) => {
+  const { t, locale, dateLocale } = useTranslation();
+  const { formatFileSize } = useFormat();
+  const { regions, progress, isDownloading, download, cancel, remove } = useOfflineRegions();
+  const [bounds, setBounds] = useState<TileBounds | null>(null);
+  const [zoomRange, setZoomRange] = useState<[number, number]>([10, 13]);
+  const [name, setName] = useState('');
+
+  const xyzSources = sources.filter(source => source.kind === 'xyz');
+  const maxZoom = Math.min(MAX_ZOOM, ...xyzSources.map(source => source.maxZoom ?? MAX_ZOOM));
+  const request: RegionRequest | null = bounds && {
+    name: name.trim() || t('offline.defaultName', { date: format(new Date(), 'PP', { locale: dateLocale }) }),
+    bounds,
+    minZoom: zoomRange[0],
+    maxZoom: zoomRange[1],
+    templates: xyzSources.map(({ url, subdomains }) => ({ url, subdomains })),
+  };
+  const tileCount = request ? regionTileCount(request) : 0;
+  const tooMany = tileCount > MAX_REGION_TILES;
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open || isDownloading) return;
+    const view = getView();
+    if (!view) return;
+    const minZoom = Math.min(Math.round(view.zoom), maxZoom);
+    setBounds(view.bounds);
+    setZoomRange([minZoom, Math.min(minZoom + DEFAULT_EXTRA_ZOOM, maxZoom)]);
+    setName('');
+  };
+
+  const handleDownload = async () => {
+    if (!request) return;
+    try {
+      const region = await download(request);
+      const failed = tileCount - region.tileCount;
+      toast({
+        title: t('offline.saved', { name: region.name }),
+        description: failed > 0 ? t('offline.savedWithFailures', { failed }) : undefined,
+      });
+    } catch (error) {
+      const code = error instanceof OfflineError ? error.code : undefined;
+      if (code === 'Aborted') return;
+      toast({
+        title: t('offline.failed'),
+        description: code === 'Unsupported'
+          ? t('offline.unsupported')
+          : code === 'NoSources'
+            ? t('offline.noSources')
+            : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRemove = async (region: OfflineRegion) => {
+    try {
+      await remove(region.id);
+    } catch (error) {
+      console.error('Error deleting offline region:', error);
+      toast({ title: t('offline.deleteFailed', { name: region.name }), variant: 'destructive' });
+    }
+  };
+
+  if (!isOfflineSupported()) return null;
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" className={cn('shadow-lg', className)} title={t('offline.title')}>
+          <Download className="w-4 h-4" />
+          <span className="sr-only">{t('offline.title')}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('offline.title')}</DialogTitle>
+          <DialogDescription>{t('offline.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="offline-region-name">{t('offline.name')}</Label>
+            <Input
+              id="offline-region-name"
+              value={name}
+              placeholder={request?.name}
+              disabled={isDownloading}
+              onChange={e => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('offline.zoomLevels', { min: zoomRange[0], max: zoomRange[1] })}</Label>
+            <Slider
+              min={0}
+              max={maxZoom}
+              step={1}
+              minStepsBetweenThumbs={0}
+              value={zoomRange}
+              disabled={isDownloading}
+              onValueChange={([min, max]) => setZoomRange([min, max])}
+            />
+            <p className={cn('text-xs', tooMany ? 'text-destructive' : 'text-muted-foreground')}>
+              {tooMany
+                ? t('offline.tooMany', { max: MAX_REGION_TILES.toLocaleString(locale) })
+                : t('offline.estimate', {
+                  count: tileCount.toLocaleString(locale),
+                  size: formatFileSize(request ? estimateRegionSize(request) : 0),
+                })}
+            </p>
+            {xyzSources.length < sources.length && (
+              <p className="text-xs text-muted-foreground">{t('offline.wmsSkipped')}</p>
+            )}
+          </div>
+
+          {progress ? (
+            <div className="space-y-2">
+              <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  {t('offline.progress', {
+                    done: progress.done.toLocaleString(locale),
+                    total: progress.total.toLocaleString(locale),
+                  })}
+                  {' · '}
+                  {formatFileSize(progress.bytes)}
+                </span>
+                <Button variant="outline" size="sm" onClick={cancel}>
+                  {t('offline.cancel')}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button
+              className="w-full"
+              disabled={!request || tooMany || tileCount === 0}
+              onClick={handleDownload}
+            >
+              <Download className="w-4 h-4 me-2" />
+              {t('offline.download')}
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">{t('offline.regions')}</h3>
+          {regions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('offline.noRegions')}</p>
+          ) : (
+            <ul className="space-y-1">
+              {regions.map(region => (
+                <li key={region.id} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{region.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {t('offline.regionDetails', {
+                        size: formatFileSize(region.size),
+                        date: format(new Date(region.expiresAt), 'PP', { locale: dateLocale }),
+                      })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0"
+                    onClick={() => handleRemove(region)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span className="sr-only">{t('offline.delete', { name: region.name })}</span>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OfflineRegionsDialog;
@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { Layers, Route as RouteIcon, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Switch } from '@/components/ui/switch';
+import { useTranslation } from '@/hooks/use-translation';
+import { IMPORT_FILE_TYPES, promotableLine } from '@/lib/formats';
+import { TRAVEL_MODES } from '@/lib/routing';
+import { TravelMode } from '@/types/maps';
+import { Overlay } from '@/types/overlays';
+
+interface OverlayPanelProps {
+  overlays: Overlay[];
+  onImport: (files: File[]) => void;
+  onToggle: (id: string) => void;
+  onRemove: (id: string) => void;
+  onPromote: (overlay: Overlay, mode: TravelMode) => void;
+}
+
+const OverlayPanel: React.FC<OverlayPanelProps> = ({ overlays, onImport, onToggle, onRemove, onPromote }) => {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files?.length) onImport(Array.from(e.target.files));
+    // Allow the same file to be picked again after it's removed
+    e.target.value = '';
+  };
+
+  return (
+    <div className="p-4 border-t border-border">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="flex items-center text-sm font-semibold text-card-foreground">
+          <Layers className="w-4 h-4 me-2" />
+          {t('overlays.title')}
+        </h3>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 me-1" />
+          {t('overlays.import')}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={IMPORT_FILE_TYPES}
+          multiple
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+
+      {overlays.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{t('overlays.hint')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {overlays.map((overlay) => (
+            <li key={overlay.id} className="flex items-center gap-2 text-sm">
+              <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: overlay.color }} />
+              <span className="flex-1 truncate" title={overlay.name}>{overlay.name}</span>
+              <Switch
+                checked={overlay.visible}
+                onCheckedChange={() => onToggle(overlay.id)}
+                aria-label={t('overlays.show', { name: overlay.name })}
+              />
+              {promotableLine(overlay) && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" title={t('overlays.useAsRoute')}>
+                      <RouteIcon className="w-4 h-4" />
+                      <span className="sr-only">{t('overlays.useAsRoute')}</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>{t('overlays.useAsRoute')}</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {TRAVEL_MODES.map((mode) => (
+                      <DropdownMenuItem key={mode} onSelect={() => onPromote(overlay, mode)}>
+                        {t(`mode.${mode}`)}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => onRemove(overlay.id)}
+                title={t('overlays.remove')}
+              >
+                <X className="w-4 h-4" />
+                <span className="sr-only">{t('overlays.remove')}</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OverlayPanel;
@@ -1,21 +1,48 @@
-import React, { useState, useEffect } from 'react';
-import { Search, MapPin, Clock } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Search, MapPin, Clock, Scan, X } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Location, SearchResult } from '@/types/maps';
+import CoordinateDisplay from '@/components/CoordinateDisplay';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSettings } from '@/components/SettingsProvider';
+import { useFormat } from '@/hooks/use-format';
+import { usePlaceSearch } from '@/hooks/use-place-search';
+import { useTranslation } from '@/hooks/use-translation';
+import { COORDINATE_FORMATS, formatCoordinates, parseCoordinates } from '@/lib/coordinates';
+import { countryOptions } from '@/lib/geocoding';
+import { Location, MapBounds, MapViewport, SearchResult } from '@/types/maps';
 
 interface SearchPanelProps {
   onLocationSelect: (location: Location) => void;
   selectedLocation: Location | null;
+  // Where the map is looking, which searches prefer and rank results from
+  mapView: MapViewport | null;
 }
 
+// Select items can't have an empty value, so "anywhere" gets its own
+const ANY_COUNTRY = 'any';
+
 const SearchPanel: React.FC<SearchPanelProps> = ({
   onLocationSelect,
   selectedLocation,
+  mapView,
 }) => {
+  const { t, locale } = useTranslation();
+  const { formatDistance } = useFormat();
+  const { settings, updateSettings } = useSettings();
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  // The map area searches are limited to, captured when "search this area" is pressed
+  const [searchArea, setSearchArea] = useState<MapBounds | null>(null);
+  // Coordinates typed in are found without asking the geocoder. Something that
+  // reads as a geohash could also be a postcode like "1012jx", so places are
+  // still searched for and listed below it.
+  const parsed = useMemo(() => parseCoordinates(searchQuery, mapView?.center), [searchQuery, mapView?.center]);
+  const skipPlaceSearch = parsed !== null && parsed.format !== 'geohash';
+  const { results: placeResults, isLoading } = usePlaceSearch(skipPlaceSearch ? '' : searchQuery, {
+    near: mapView,
+    within: searchArea,
+  });
+  const countries = useMemo(() => countryOptions(locale), [locale]);
   const [recentSearches, setRecentSearches] = useState<Location[]>([]);
 
   // Load recent searches from localStorage
@@ -36,48 +63,8 @@ const SearchPanel: React.FC<SearchPanelProps> = ({
     localStorage.setItem('recentSearches', JSON.stringify(updated));
   };
 
-  const searchLocations = async (query: string) => {
-    if (!query.trim()) {
-      setSearchResults([]);
-      return;
-    }
-
-    setIsLoading(true);
-    
-    try {
-      // Using Nominatim (OpenStreetMap) geocoding API - completely free
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=5`
-      );
-      const data = await response.json();
-
-      const results: SearchResult[] = data.map((item: any, index: number) => ({
-        id: item.place_id?.toString() || index.toString(),
-        name: item.display_name.split(',')[0],
-        address: item.display_name,
-        coordinates: [parseFloat(item.lon), parseFloat(item.lat)] as [number, number],
-        type: item.type || 'place',
-      }));
-
-      setSearchResults(results);
-    } catch (error) {
-      console.error('Error searching locations:', error);
-      setSearchResults([]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const handleSearchInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const query = e.target.value;
-    setSearchQuery(query);
-    
-    // Debounce search
-    const timeoutId = setTimeout(() => {
-      searchLocations(query);
-    }, 300);
-
-    return () => clearTimeout(timeoutId);
+    setSearchQuery(e.target.value);
   };
 
   const handleLocationClick = (result: SearchResult) => {
@@ -91,32 +78,87 @@ const SearchPanel: React.FC<SearchPanelProps> = ({
     onLocationSelect(location);
     saveToRecent(location);
     setSearchQuery('');
-    setSearchResults([]);
+  };
+
+  const coordinateResult: SearchResult | null = parsed && {
+    id: `coordinates:${parsed.coordinates.join(',')}`,
+    name: formatCoordinates(parsed.coordinates, 'decimal') ?? searchQuery.trim(),
+    address: t('coordinates.parsed', {
+      format: t(COORDINATE_FORMATS.find(format => format.value === parsed.format)?.labelKey ?? 'coordinates.decimal'),
+    }),
+    coordinates: parsed.coordinates,
+    type: 'coordinates',
+  };
+  const searchResults = coordinateResult ? [coordinateResult, ...placeResults] : placeResults;
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Enter jumps to the best match, which for coordinates needs no lookup at all
+    if (e.key === 'Enter' && searchResults.length > 0) handleLocationClick(searchResults[0]);
   };
 
   const handleRecentClick = (location: Location) => {
     onLocationSelect(location);
   };
 
+  const handleCountryChange = (country: string) => {
+    updateSettings({ geocoding: { ...settings.geocoding, country: country === ANY_COUNTRY ? '' : country } });
+  };
+
   return (
     <div className="p-6">
       {/* Search Input */}
       <div className="relative mb-6">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+        <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
         <Input
           type="text"
-          placeholder="Search for a place..."
+          placeholder={t('search.placeholder')}
           value={searchQuery}
           onChange={handleSearchInputChange}
-          className="pl-10 pr-4 py-3 w-full border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          onKeyDown={handleSearchKeyDown}
+          className="ps-10 pe-4 py-3 w-full border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         />
       </div>
 
+      {/* Search Area */}
+      <div className="flex items-center gap-2 -mt-4 mb-6">
+        <Select value={settings.geocoding.country || ANY_COUNTRY} onValueChange={handleCountryChange}>
+          <SelectTrigger className="h-8 flex-1 min-w-0 text-xs" aria-label={t('search.country')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_COUNTRY}>{t('search.anyCountry')}</SelectItem>
+            {countries.map(country => (
+              <SelectItem key={country.value} value={country.value}>
+                {country.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {searchArea ? (
+          <Button variant="secondary" size="sm" className="h-8 text-xs" onClick={() => setSearchArea(null)}>
+            {t('search.inThisArea')}
+            <X className="w-3 h-3 ms-1" />
+            <span className="sr-only">{t('search.clearArea')}</span>
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            disabled={!mapView?.bounds}
+            onClick={() => setSearchArea(mapView?.bounds ?? null)}
+          >
+            <Scan className="w-3 h-3 me-1" />
+            {t('search.thisArea')}
+          </Button>
+        )}
+      </div>
+
       {/* Search Results */}
       {searchQuery && (
         <div className="mb-6">
-          <h3 className="text-sm font-medium text-gray-500 mb-3">Search Results</h3>
-          {isLoading ? (
+          <h3 className="text-sm font-medium text-gray-500 mb-3">{t('search.results')}</h3>
+          {isLoading && !coordinateResult ? (
             <div className="flex items-center justify-center py-8">
               <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
             </div>
@@ -126,20 +168,25 @@ const SearchPanel: React.FC<SearchPanelProps> = ({
                 <button
                   key={result.id}
                   onClick={() => handleLocationClick(result)}
-                  className="w-full text-left p-3 rounded-lg hover:bg-gray-50 border border-gray-200 transition-colors duration-200"
+                  className="w-full text-start p-3 rounded-lg hover:bg-gray-50 border border-gray-200 transition-colors duration-200"
                 >
-                  <div className="flex items-start space-x-3">
+                  <div className="flex items-start space-x-3 rtl:space-x-reverse">
                     <MapPin className="w-5 h-5 text-gray-400 mt-0.5 flex-shrink-0" />
                     <div className="flex-1 min-w-0">
                       <p className="font-medium text-gray-900 truncate">{result.name}</p>
                       <p className="text-sm text-gray-500 truncate">{result.address}</p>
                     </div>
+                    {result.distance !== undefined && (
+                      <span className="text-xs text-gray-500 whitespace-nowrap mt-1">
+                        {formatDistance(result.distance)}
+                      </span>
+                    )}
                   </div>
                 </button>
               ))}
             </div>
           ) : (
-            <p className="text-gray-500 text-center py-4">No results found</p>
+            <p className="text-gray-500 text-center py-4">{t('search.noResults')}</p>
           )}
         </div>
       )}
@@ -148,17 +195,17 @@ const SearchPanel: React.FC<SearchPanelProps> = ({
       {!searchQuery && recentSearches.length > 0 && (
         <div className="mb-6">
           <h3 className="text-sm font-medium text-gray-500 mb-3 flex items-center">
-            <Clock className="w-4 h-4 mr-2" />
-            Recent Searches
+            <Clock className="w-4 h-4 me-2" />
+            {t('search.recent')}
           </h3>
           <div className="space-y-2">
             {recentSearches.map((location) => (
               <button
                 key={location.id}
                 onClick={() => handleRecentClick(location)}
-                className="w-full text-left p-3 rounded-lg hover:bg-gray-50 border border-gray-200 transition-colors duration-200"
+                className="w-full text-start p-3 rounded-lg hover:bg-gray-50 border border-gray-200 transition-colors duration-200"
               >
-                <div className="flex items-start space-x-3">
+                <div className="flex items-start space-x-3 rtl:space-x-reverse">
                   <MapPin className="w-5 h-5 text-gray-400 mt-0.5 flex-shrink-0" />
                   <div className="flex-1 min-w-0">
                     <p className="font-medium text-card-foreground truncate">{location.name}</p>
@@ -174,15 +221,13 @@ const SearchPanel: React.FC<SearchPanelProps> = ({
       {/* Selected Location Details */}
       {selectedLocation && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-          <h3 className="text-sm font-medium text-blue-800 mb-2">Selected Location</h3>
-          <div className="flex items-start space-x-3">
+          <h3 className="text-sm font-medium text-blue-800 mb-2">{t('location.selected')}</h3>
+          <div className="flex items-start space-x-3 rtl:space-x-reverse">
             <MapPin className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
             <div className="flex-1 min-w-0">
               <p className="font-medium text-blue-900">{selectedLocation.name}</p>
               <p className="text-sm text-blue-700">{selectedLocation.address}</p>
-              <p className="text-xs text-blue-600 mt-1">
-                {selectedLocation.coordinates[1].toFixed(6)}, {selectedLocation.coordinates[0].toFixed(6)}
-              </p>
+              <CoordinateDisplay coordinates={selectedLocation.coordinates} className="mt-1 text-blue-600" />
             </div>
           </div>
         </div>
@@ -0,0 +1,509 @@
+import { useState } from "react"
+import { Plus, Settings, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useSettings } from "@/components/SettingsProvider"
+import { useTranslation } from "@/hooks/use-translation"
+import { DEFAULT_ELEVATION_SETTINGS, ELEVATION_SOURCES } from "@/lib/elevation"
+import { UNIT_SYSTEMS } from "@/lib/format"
+import { DEFAULT_GEOCODING_SETTINGS, GEOCODING_ENGINES } from "@/lib/geocoding"
+import { Locale, LOCALES } from "@/lib/i18n"
+import { isSpeechSupported } from "@/lib/navigation"
+import { DEFAULT_ROUTING_SETTINGS, ROUTING_ENGINES } from "@/lib/routing"
+import { DEFAULT_SATELLITE_URL, TileSourceProblem, validateTileSource } from "@/lib/tiles"
+import { TileSource } from "@/types/maps"
+import {
+  DisplaySettings,
+  ElevationSettings,
+  ElevationSource,
+  GeocodingEngine,
+  GeocodingSettings,
+  MapSettings,
+  NavigationSettings,
+  RoutingEngine,
+  RoutingSettings,
+  UnitSystem,
+} from "@/types/settings"
+
+type TileSourceDraft = Pick<TileSource, "name" | "kind" | "role" | "url" | "wmsLayers">
+
+const EMPTY_TILE_SOURCE: TileSourceDraft = { name: "", kind: "xyz", role: "base", url: "", wmsLayers: "" }
+
+export function SettingsDialog() {
+  const { settings, updateSettings } = useSettings()
+  const { t } = useTranslation()
+  const display = settings.display
+  const routing = settings.routing
+  const geocoding = settings.geocoding
+  const navigation = settings.navigation
+  const elevation = settings.elevation
+  const map = settings.map
+  const [draftSource, setDraftSource] = useState<TileSourceDraft>(EMPTY_TILE_SOURCE)
+  const [sourceProblem, setSourceProblem] = useState<TileSourceProblem | null>(null)
+
+  const updateDisplay = (changes: Partial<DisplaySettings>) => {
+    updateSettings({ display: { ...display, ...changes } })
+  }
+
+  const updateRouting = (changes: Partial<RoutingSettings>) => {
+    updateSettings({ routing: { ...routing, ...changes } })
+  }
+
+  const updateGeocoding = (changes: Partial<GeocodingSettings>) => {
+    updateSettings({ geocoding: { ...geocoding, ...changes } })
+  }
+
+  const updateNavigation = (changes: Partial<NavigationSettings>) => {
+    updateSettings({ navigation: { ...navigation, ...changes } })
+  }
+
+  const updateElevation = (changes: Partial<ElevationSettings>) => {
+    updateSettings({ elevation: { ...elevation, ...changes } })
+  }
+
+  const updateMap = (changes: Partial<MapSettings>) => {
+    updateSettings({ map: { ...map, ...changes } })
+  }
+
+  const updateDraftSource = (changes: Partial<TileSourceDraft>) => {
+    setDraftSource((current) => ({ ...current, ...changes }))
+    setSourceProblem(null)
+  }
+
+  const addCustomSource = () => {
+    const problem = validateTileSource(draftSource)
+    if (problem) {
+      setSourceProblem(problem)
+      return
+    }
+
+    const source: TileSource = {
+      id: `custom-${Date.now()}`,
+      name: draftSource.name.trim(),
+      kind: draftSource.kind,
+      role: draftSource.role,
+      url: draftSource.url.trim(),
+      ...(draftSource.kind === "wms" && { wmsLayers: draftSource.wmsLayers?.trim() }),
+    }
+    // Show the new source straight away
+    updateMap({
+      customSources: [...map.customSources, source],
+      ...(source.role === "base" ? { baseLayer: source.id } : { overlays: [...map.overlays, source.id] }),
+    })
+    setDraftSource(EMPTY_TILE_SOURCE)
+  }
+
+  const removeCustomSource = (id: string) => {
+    updateMap({
+      customSources: map.customSources.filter((source) => source.id !== id),
+      overlays: map.overlays.filter((overlay) => overlay !== id),
+    })
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon">
+          <Settings className="h-[1.2rem] w-[1.2rem]" />
+          <span className="sr-only">{t("settings.title")}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t("settings.title")}</DialogTitle>
+          <DialogDescription>{t("settings.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold">{t("settings.display")}</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="language">{t("settings.language")}</Label>
+            <Select value={display.locale} onValueChange={(locale) => updateDisplay({ locale: locale as Locale })}>
+              <SelectTrigger id="language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOCALES.map((locale) => (
+                  <SelectItem key={locale.value} value={locale.value}>
+                    {locale.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="units">{t("settings.units")}</Label>
+            <Select value={display.units} onValueChange={(units) => updateDisplay({ units: units as UnitSystem })}>
+              <SelectTrigger id="units">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {UNIT_SYSTEMS.map((units) => (
+                  <SelectItem key={units} value={units}>
+                    {t(`units.${units}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold">{t("settings.routing")}</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="routing-engine">{t("settings.engine")}</Label>
+            <Select
+              value={routing.engine}
+              onValueChange={(engine) => updateRouting({ engine: engine as RoutingEngine })}
+            >
+              <SelectTrigger id="routing-engine">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROUTING_ENGINES.map((engine) => (
+                  <SelectItem key={engine.value} value={engine.value}>
+                    {engine.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="routing-base-url">{t("settings.serverUrl")}</Label>
+            <Input
+              id="routing-base-url"
+              value={routing.baseUrls[routing.engine]}
+              placeholder={DEFAULT_ROUTING_SETTINGS.baseUrls[routing.engine]}
+              onChange={(e) =>
+                updateRouting({ baseUrls: { ...routing.baseUrls, [routing.engine]: e.target.value } })
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("settings.serverUrlHint")}
+            </p>
+          </div>
+
+          {routing.engine === "graphhopper" && (
+            <div className="space-y-2">
+              <Label htmlFor="graphhopper-api-key">{t("settings.graphhopperApiKey")}</Label>
+              <Input
+                id="graphhopper-api-key"
+                value={routing.graphhopperApiKey}
+                onChange={(e) => updateRouting({ graphhopperApiKey: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold">{t("settings.search")}</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="geocoding-engine">{t("settings.geocoder")}</Label>
+            <Select
+              value={geocoding.engine}
+              onValueChange={(engine) => updateGeocoding({ engine: engine as GeocodingEngine })}
+            >
+              <SelectTrigger id="geocoding-engine">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GEOCODING_ENGINES.map((engine) => (
+                  <SelectItem key={engine.value} value={engine.value}>
+                    {engine.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="geocoding-base-url">{t("settings.serverUrl")}</Label>
+            <Input
+              id="geocoding-base-url"
+              value={geocoding.baseUrls[geocoding.engine]}
+              placeholder={DEFAULT_GEOCODING_SETTINGS.baseUrls[geocoding.engine]}
+              onChange={(e) =>
+                updateGeocoding({ baseUrls: { ...geocoding.baseUrls, [geocoding.engine]: e.target.value } })
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("settings.serverUrlHint")}
+            </p>
+          </div>
+
+          {geocoding.engine === "nominatim" && (
+            <div className="space-y-2">
+              <Label htmlFor="nominatim-email">{t("settings.nominatimEmail")}</Label>
+              <Input
+                id="nominatim-email"
+                type="email"
+                value={geocoding.nominatimEmail}
+                onChange={(e) => updateGeocoding({ nominatimEmail: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">{t("settings.nominatimEmailHint")}</p>
+            </div>
+          )}
+
+          {geocoding.engine === "pelias" && (
+            <div className="space-y-2">
+              <Label htmlFor="pelias-api-key">{t("settings.peliasApiKey")}</Label>
+              <Input
+                id="pelias-api-key"
+                value={geocoding.peliasApiKey}
+                onChange={(e) => updateGeocoding({ peliasApiKey: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold">{t("settings.navigation")}</h3>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-1">
+              <Label htmlFor="simulate-position">{t("settings.simulatePosition")}</Label>
+              <p className="text-xs text-muted-foreground">
+                {t("settings.simulatePositionHint")}
+              </p>
+            </div>
+            <Switch
+              id="simulate-position"
+              checked={navigation.simulatePosition}
+              onCheckedChange={(simulatePosition) => updateNavigation({ simulatePosition })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="off-route-threshold">{t("settings.offRouteThreshold")}</Label>
+            <Input
+              id="off-route-threshold"
+              type="number"
+              min={10}
+              step={10}
+              value={navigation.offRouteThreshold}
+              onChange={(e) => {
+                const offRouteThreshold = Number(e.target.value)
+                if (offRouteThreshold > 0) updateNavigation({ offRouteThreshold })
+              }}
+            />
+          </div>
+
+          {isSpeechSupported() && (
+            <>
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label htmlFor="voice-guidance">{t("settings.voiceGuidance")}</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {t("settings.voiceGuidanceHint")}
+                  </p>
+                </div>
+                <Switch
+                  id="voice-guidance"
+                  checked={!navigation.voiceMuted}
+                  onCheckedChange={(enabled) => updateNavigation({ voiceMuted: !enabled })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="voice-volume">{t("settings.voiceVolume")}</Label>
+                <Slider
+                  id="voice-volume"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={[navigation.voiceVolume]}
+                  disabled={navigation.voiceMuted}
+                  onValueChange={([voiceVolume]) => updateNavigation({ voiceVolume })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold">{t("settings.elevation")}</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="elevation-source">{t("settings.elevationSource")}</Label>
+            <Select
+              value={elevation.source}
+              onValueChange={(source) => updateElevation({ source: source as ElevationSource })}
+            >
+              <SelectTrigger id="elevation-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ELEVATION_SOURCES.map((source) => (
+                  <SelectItem key={source.value} value={source.value}>
+                    {source.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="elevation-base-url">{t("settings.serverUrl")}</Label>
+            <Input
+              id="elevation-base-url"
+              value={elevation.baseUrls[elevation.source]}
+              placeholder={DEFAULT_ELEVATION_SETTINGS.baseUrls[elevation.source]}
+              onChange={(e) =>
+                updateElevation({ baseUrls: { ...elevation.baseUrls, [elevation.source]: e.target.value } })
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("settings.elevationUrlHint")}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-semibold">{t("settings.map")}</h3>
+
+          <div className="space-y-2">
+            <Label htmlFor="satellite-url">{t("settings.satelliteUrl")}</Label>
+            <Input
+              id="satellite-url"
+              value={map.satelliteUrl}
+              placeholder={DEFAULT_SATELLITE_URL}
+              onChange={(e) => updateMap({ satelliteUrl: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t("settings.satelliteUrlHint")}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("settings.customLayers")}</Label>
+            <p className="text-xs text-muted-foreground">
+              {t("settings.customLayersHint")}
+            </p>
+
+            {map.customSources.map((source) => (
+              <div key={source.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {source.name}{" "}
+                  <span className="text-xs text-muted-foreground">
+                    {source.kind.toUpperCase()} · {t(source.role === "base" ? "layers.base" : "layers.overlays")}
+                  </span>
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => removeCustomSource(source.id)}
+                >
+                  <X className="h-4 w-4" />
+                  <span className="sr-only">{t("settings.removeLayer", { name: source.name })}</span>
+                </Button>
+              </div>
+            ))}
+
+            <div className="space-y-2 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="custom-layer-name">{t("settings.layerName")}</Label>
+                <Input
+                  id="custom-layer-name"
+                  value={draftSource.name}
+                  onChange={(e) => updateDraftSource({ name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="custom-layer-type">{t("settings.layerType")}</Label>
+                  <Select
+                    value={draftSource.kind}
+                    onValueChange={(kind) => updateDraftSource({ kind: kind as TileSource["kind"] })}
+                  >
+                    <SelectTrigger id="custom-layer-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="xyz">XYZ</SelectItem>
+                      <SelectItem value="wms">WMS</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="custom-layer-role">{t("settings.layerRole")}</Label>
+                  <Select
+                    value={draftSource.role}
+                    onValueChange={(role) => updateDraftSource({ role: role as TileSource["role"] })}
+                  >
+                    <SelectTrigger id="custom-layer-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="base">{t("layers.base")}</SelectItem>
+                      <SelectItem value="overlay">{t("layers.overlays")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="custom-layer-url">{t("settings.layerUrl")}</Label>
+                <Input
+                  id="custom-layer-url"
+                  value={draftSource.url}
+                  placeholder={
+                    draftSource.kind === "xyz"
+                      ? "https://tiles.example.com/{z}/{x}/{y}.png"
+                      : "https://maps.example.com/wms"
+                  }
+                  onChange={(e) => updateDraftSource({ url: e.target.value })}
+                />
+              </div>
+
+              {draftSource.kind === "wms" && (
+                <div className="space-y-1">
+                  <Label htmlFor="custom-layer-wms-layers">{t("settings.wmsLayers")}</Label>
+                  <Input
+                    id="custom-layer-wms-layers"
+                    value={draftSource.wmsLayers}
+                    onChange={(e) => updateDraftSource({ wmsLayers: e.target.value })}
+                  />
+                </div>
+              )}
+
+              {sourceProblem && (
+                <p className="text-xs text-destructive">{t(`settings.layerProblem.${sourceProblem}`)}</p>
+              )}
+
+              <Button variant="outline" size="sm" onClick={addCustomSource}>
+                <Plus className="h-4 w-4 me-1" />
+                {t("settings.addLayer")}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,119 @@
+import { createContext, useContext, useEffect, useState } from "react"
+import { DEFAULT_ELEVATION_SETTINGS } from "@/lib/elevation"
+import { detectUnitSystem } from "@/lib/format"
+import { DEFAULT_GEOCODING_SETTINGS } from "@/lib/geocoding"
+import { detectLocale, textDirection } from "@/lib/i18n"
+import { DEFAULT_ROUTING_SETTINGS } from "@/lib/routing"
+import { DEFAULT_MAP_SETTINGS } from "@/lib/tiles"
+import { AppSettings } from "@/types/settings"
+
+type SettingsProviderProps = {
+  children: React.ReactNode
+  storageKey?: string
+}
+
+type SettingsProviderState = {
+  settings: AppSettings
+  updateSettings: (changes: Partial<AppSettings>) => void
+}
+
+const DEFAULT_SETTINGS: AppSettings = {
+  display: {
+    locale: detectLocale(),
+    units: detectUnitSystem(),
+  },
+  routing: DEFAULT_ROUTING_SETTINGS,
+  geocoding: DEFAULT_GEOCODING_SETTINGS,
+  navigation: {
+    simulatePosition: false,
+    offRouteThreshold: 50,
+    voiceMuted: false,
+    voiceVolume: 1,
+  },
+  elevation: DEFAULT_ELEVATION_SETTINGS,
+  map: DEFAULT_MAP_SETTINGS,
+}
+
+const initialState: SettingsProviderState = {
+  settings: DEFAULT_SETTINGS,
+  updateSettings: () => null,
+}
+
+const SettingsProviderContext = createContext<SettingsProviderState>(initialState)
+
+const loadSettings = (storageKey: string): AppSettings => {
+  try {
+    const saved = localStorage.getItem(storageKey)
+    if (!saved) return DEFAULT_SETTINGS
+
+    const parsed = JSON.parse(saved) as Partial<AppSettings>
+    // Merge over the defaults so settings added later get sensible values
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      display: { ...DEFAULT_SETTINGS.display, ...parsed.display },
+      routing: {
+        ...DEFAULT_SETTINGS.routing,
+        ...parsed.routing,
+        baseUrls: { ...DEFAULT_SETTINGS.routing.baseUrls, ...parsed.routing?.baseUrls },
+      },
+      geocoding: {
+        ...DEFAULT_SETTINGS.geocoding,
+        ...parsed.geocoding,
+        baseUrls: { ...DEFAULT_SETTINGS.geocoding.baseUrls, ...parsed.geocoding?.baseUrls },
+      },
+      navigation: { ...DEFAULT_SETTINGS.navigation, ...parsed.navigation },
+      elevation: {
+        ...DEFAULT_SETTINGS.elevation,
+        ...parsed.elevation,
+        baseUrls: { ...DEFAULT_SETTINGS.elevation.baseUrls, ...parsed.elevation?.baseUrls },
+      },
+      map: { ...DEFAULT_SETTINGS.map, ...parsed.map },
+    }
+  } catch (error) {
+    console.error("Error loading settings:", error)
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function SettingsProvider({
+  children,
+  storageKey = "app-settings",
+  ...props
+}: SettingsProviderProps) {
+  const [settings, setSettings] = useState<AppSettings>(() => loadSettings(storageKey))
+
+  useEffect(() => {
+    const root = window.document.documentElement
+    const { locale } = settings.display
+
+    root.lang = locale
+    root.dir = textDirection(locale)
+  }, [settings.display])
+
+  const value = {
+    settings,
+    updateSettings: (changes: Partial<AppSettings>) => {
+      setSettings((current) => {
+        const updated = { ...current, ...changes }
+        localStorage.setItem(storageKey, JSON.stringify(updated))
+        return updated
+      })
+    },
+  }
+
+  return (
+    <SettingsProviderContext.Provider {...props} value={value}>
+      {children}
+    </SettingsProviderContext.Provider>
+  )
+}
+
+export const useSettings = () => {
+  const context = useContext(SettingsProviderContext)
+
+  if (context === undefined)
+    throw new Error("useSettings must be used within a SettingsProvider")
+
+  return context
+}
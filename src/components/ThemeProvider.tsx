@@ -2,6 +2,8 @@ import { createContext, useContext, useEffect, useState } from "react"
 
 type Theme = "dark" | "light" | "system"
 
+export type ResolvedTheme = "dark" | "light"
+
 type ThemeProviderProps = {
   children: React.ReactNode
   defaultTheme?: Theme
@@ -10,16 +12,23 @@ type ThemeProviderProps = {
 
 type ThemeProviderState = {
   theme: Theme
+  // The theme actually shown, with "system" resolved to the OS preference
+  resolvedTheme: ResolvedTheme
   setTheme: (theme: Theme) => void
 }
 
 const initialState: ThemeProviderState = {
   theme: "system",
+  resolvedTheme: "light",
   setTheme: () => null,
 }
 
 const ThemeProviderContext = createContext<ThemeProviderState>(initialState)
 
+const darkSchemeQuery = () => window.matchMedia("(prefers-color-scheme: dark)")
+
+const systemTheme = (): ResolvedTheme => (darkSchemeQuery().matches ? "dark" : "light")
+
 export function ThemeProvider({
   children,
   defaultTheme = "system",
@@ -29,27 +38,28 @@ export function ThemeProvider({
   const [theme, setTheme] = useState<Theme>(
     () => (localStorage.getItem(storageKey) as Theme) || defaultTheme
   )
+  const [preferredTheme, setPreferredTheme] = useState<ResolvedTheme>(systemTheme)
+  const resolvedTheme = theme === "system" ? preferredTheme : theme
 
+  // Follow the OS switching between light and dark, e.g. at sunset
   useEffect(() => {
-    const root = window.document.documentElement
+    const query = darkSchemeQuery()
+    const handleChange = () => setPreferredTheme(query.matches ? "dark" : "light")
 
-    root.classList.remove("light", "dark")
+    query.addEventListener("change", handleChange)
+    return () => query.removeEventListener("change", handleChange)
+  }, [])
 
-    if (theme === "system") {
-      const systemTheme = window.matchMedia("(prefers-color-scheme: dark)")
-        .matches
-        ? "dark"
-        : "light"
-
-      root.classList.add(systemTheme)
-      return
-    }
+  useEffect(() => {
+    const root = window.document.documentElement
 
-    root.classList.add(theme)
-  }, [theme])
+    root.classList.remove("light", "dark")
+    root.classList.add(resolvedTheme)
+  }, [resolvedTheme])
 
   const value = {
     theme,
+    resolvedTheme,
     setTheme: (theme: Theme) => {
       localStorage.setItem(storageKey, theme)
       setTheme(theme)
@@ -0,0 +1,88 @@
+import React from 'react';
+import { format, setHours, setMinutes } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation } from '@/hooks/use-translation';
+import { TripTime } from '@/types/maps';
+
+interface TripTimePickerProps {
+  value: TripTime;
+  onChange: (value: TripTime) => void;
+}
+
+const TRIP_TIME_TYPES: TripTime['type'][] = ['now', 'depart', 'arrive'];
+
+const TripTimePicker: React.FC<TripTimePickerProps> = ({ value, onChange }) => {
+  const { t, dateLocale } = useTranslation();
+
+  const handleTypeChange = (type: string) => {
+    // Leaving "now" starts planning from the current time rather than a stale one;
+    // switching between depart and arrive keeps the time already picked
+    onChange({ type: type as TripTime['type'], time: value.type === 'now' ? new Date() : value.time });
+  };
+
+  const handleDateSelect = (date: Date | undefined) => {
+    if (!date) return;
+    onChange({
+      ...value,
+      time: setMinutes(setHours(date, value.time.getHours()), value.time.getMinutes()),
+    });
+  };
+
+  const handleTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const [hours, minutes] = e.target.value.split(':').map(Number);
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+    onChange({ ...value, time: setMinutes(setHours(value.time, hours), minutes) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select value={value.type} onValueChange={handleTypeChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {TRIP_TIME_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {t(`tripTime.${type}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.type !== 'now' && (
+        <div className="flex space-x-2 rtl:space-x-reverse">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="flex-1 justify-start font-normal">
+                <CalendarIcon className="w-4 h-4 me-2" />
+                {format(value.time, 'EEE d MMM', { locale: dateLocale })}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={value.time}
+                onSelect={handleDateSelect}
+                locale={dateLocale}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Input
+            type="time"
+            value={format(value.time, 'HH:mm')}
+            onChange={handleTimeChange}
+            className="w-28"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TripTimePicker;
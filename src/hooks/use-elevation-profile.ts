@@ -0,0 +1,44 @@
+import * as React from "react"
+import { useSettings } from "@/components/SettingsProvider"
+import { createElevationProvider, ElevationProfile, getElevationProfile } from "@/lib/elevation"
+import { Route } from "@/types/maps"
+
+// The elevation profile of a route, looked up with the configured source
+export function useElevationProfile(route: Route | null) {
+  const { settings } = useSettings()
+  const [profile, setProfile] = React.useState<ElevationProfile | null>(null)
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [error, setError] = React.useState<Error | null>(null)
+
+  const provider = React.useMemo(
+    () => createElevationProvider(settings.elevation),
+    [settings.elevation]
+  )
+
+  React.useEffect(() => {
+    setProfile(null)
+    setError(null)
+    if (!route) return
+
+    // A newer route may finish loading first; only the latest one counts
+    let cancelled = false
+    setIsLoading(true)
+    getElevationProfile(provider, route)
+      .then((result) => {
+        if (!cancelled) setProfile(result)
+      })
+      .catch((error) => {
+        console.error("Error loading elevation profile:", error)
+        if (!cancelled) setError(error)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [route, provider])
+
+  return { profile, isLoading, error }
+}
@@ -0,0 +1,22 @@
+import * as React from "react"
+import { useSettings } from "@/components/SettingsProvider"
+import { formatDistance, formatDuration, formatElevation, formatFileSize, formatGrade } from "@/lib/format"
+import { TravelMode } from "@/types/maps"
+
+// Distance, duration, elevation and file size formatters bound to the user's units and language
+export function useFormat() {
+  const { settings } = useSettings()
+  const { locale, units } = settings.display
+
+  return React.useMemo(
+    () => ({
+      units,
+      formatDistance: (meters: number) => formatDistance(meters, units, locale),
+      formatDuration: (seconds: number, mode?: TravelMode) => formatDuration(seconds, mode, locale),
+      formatElevation: (meters: number) => formatElevation(meters, units, locale),
+      formatGrade: (grade: number) => formatGrade(grade, locale),
+      formatFileSize: (bytes: number) => formatFileSize(bytes, locale),
+    }),
+    [locale, units]
+  )
+}
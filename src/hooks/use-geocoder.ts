@@ -0,0 +1,50 @@
+import * as React from "react"
+import { useQueryClient } from "@tanstack/react-query"
+import { useSettings } from "@/components/SettingsProvider"
+import { createGeocodingProvider, GeocodeOptions } from "@/lib/geocoding"
+import { DAY, persistedQuery } from "@/lib/requests"
+
+// Places rarely move; addresses at a point change even less
+const SEARCH_TTL = DAY
+const REVERSE_TTL = 7 * DAY
+
+// Reverse lookups within about a meter share a cache entry
+const roundCoordinate = (value: number) => Math.round(value * 1e5) / 1e5
+
+// Where a search should look; the country comes from the settings
+export type SearchArea = Pick<GeocodeOptions, "focus" | "bounded">
+
+// The configured geocoder, asking for names in the user's language, with
+// answers cached in memory and IndexedDB under `queryKey`
+export function useGeocoder() {
+  const { settings } = useSettings()
+  const queryClient = useQueryClient()
+  const { locale } = settings.display
+
+  return React.useMemo(() => {
+    const provider = createGeocodingProvider(settings.geocoding)
+    const { engine, baseUrls, country } = settings.geocoding
+    const queryKey = ["geocode", engine, baseUrls[engine], locale] as const
+
+    // Searches also depend on the country filter, which reverse lookups ignore
+    const searchKey = (query: string, area: SearchArea = {}) => [...queryKey, "search", query, country, area] as const
+
+    return {
+      queryKey,
+      searchKey,
+      search: (query: string, area: SearchArea = {}, signal?: AbortSignal) =>
+        persistedQuery(searchKey(query, area), SEARCH_TTL, () =>
+          provider.search(query, { ...area, country: country || undefined, language: locale, signal })
+        )(),
+      reverse: (coordinates: [number, number]) => {
+        const rounded: [number, number] = [roundCoordinate(coordinates[0]), roundCoordinate(coordinates[1])]
+        const key = [...queryKey, "reverse", ...rounded]
+        return queryClient.fetchQuery({
+          queryKey: key,
+          queryFn: ({ signal }) =>
+            persistedQuery(key, REVERSE_TTL, () => provider.reverse(rounded, { language: locale, signal }))(),
+        })
+      },
+    }
+  }, [settings.geocoding, locale, queryClient])
+}
@@ -0,0 +1,95 @@
+import * as React from "react"
+import { toast } from "@/hooks/use-toast"
+import { useTranslation } from "@/hooks/use-translation"
+import {
+  buildRerouteRequest,
+  createGeolocationSource,
+  createSimulatedSource,
+  isOffRoute,
+  OFF_ROUTE_FIXES,
+  trackProgress,
+} from "@/lib/navigation"
+import { RouteRequest } from "@/lib/routing"
+import { Route } from "@/types/maps"
+import { NavigationProgress, PositionFix } from "@/types/navigation"
+
+type NavigationOptions = {
+  simulate?: boolean
+  offRouteThreshold?: number
+  // Called when the user has left the route; resolves once the new route is in place
+  onReroute?: (request: RouteRequest) => Promise<void>
+}
+
+export function useNavigation(
+  route: Route | null,
+  { simulate = false, offRouteThreshold = 50, onReroute }: NavigationOptions = {}
+) {
+  const [isNavigating, setIsNavigating] = React.useState(false)
+  const [isRerouting, setIsRerouting] = React.useState(false)
+  const [fix, setFix] = React.useState<PositionFix | null>(null)
+  const stopWatchingRef = React.useRef<(() => void) | null>(null)
+  const offRouteFixesRef = React.useRef(0)
+  const { t } = useTranslation()
+
+  const stop = React.useCallback(() => {
+    stopWatchingRef.current?.()
+    stopWatchingRef.current = null
+    offRouteFixesRef.current = 0
+    setIsNavigating(false)
+    setFix(null)
+  }, [])
+
+  const start = React.useCallback(() => {
+    if (!route) return
+
+    stopWatchingRef.current?.()
+    const source = simulate ? createSimulatedSource(route) : createGeolocationSource()
+    stopWatchingRef.current = source.watch(setFix, (message) => {
+      toast({
+        title: t("location.error"),
+        description: t(message),
+        variant: "destructive",
+      })
+    })
+    setIsNavigating(true)
+  }, [route, simulate, t])
+
+  // Stop watching the position when the component using the hook unmounts
+  React.useEffect(() => () => stopWatchingRef.current?.(), [])
+
+  const progress: NavigationProgress | null = React.useMemo(
+    () => (isNavigating && route && fix ? trackProgress(route, fix) : null),
+    [isNavigating, route, fix]
+  )
+
+  // Only new progress (a new fix or route) should count towards going off route,
+  // so the effect below reads everything else from here
+  const rerouteContextRef = React.useRef({ route, fix, onReroute, isRerouting, offRouteThreshold, t })
+  rerouteContextRef.current = { route, fix, onReroute, isRerouting, offRouteThreshold, t }
+
+  // Reroute from the current position once enough consecutive fixes are off the route
+  React.useEffect(() => {
+    const { route, fix, onReroute, isRerouting, offRouteThreshold, t } = rerouteContextRef.current
+    if (!route || !progress || !fix || !onReroute || isRerouting || progress.arrived) return
+
+    offRouteFixesRef.current = isOffRoute(progress, fix, offRouteThreshold)
+      ? offRouteFixesRef.current + 1
+      : 0
+    if (offRouteFixesRef.current < OFF_ROUTE_FIXES) return
+
+    offRouteFixesRef.current = 0
+    setIsRerouting(true)
+    onReroute(buildRerouteRequest(route, progress, fix, t("location.current")))
+      .catch((error) => {
+        console.error("Error rerouting:", error)
+        toast({
+          title: t("navigation.rerouteFailed"),
+          description: t("navigation.rerouteFailedDescription"),
+          variant: "destructive",
+        })
+      })
+      .finally(() => setIsRerouting(false))
+  }, [progress])
+
+  return { isNavigating, isRerouting, fix, progress, start, stop }
+}
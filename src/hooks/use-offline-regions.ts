@@ -0,0 +1,50 @@
+import * as React from "react"
+import {
+  deleteRegion,
+  DownloadProgress,
+  downloadRegion,
+  isOfflineSupported,
+  loadRegions,
+  OfflineRegion,
+  pruneExpiredRegions,
+  RegionRequest,
+} from "@/lib/offline"
+
+// The regions stored for offline use, and the download in progress if any
+export function useOfflineRegions() {
+  const [regions, setRegions] = React.useState<OfflineRegion[]>(loadRegions)
+  const [progress, setProgress] = React.useState<DownloadProgress | null>(null)
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  React.useEffect(() => {
+    if (!isOfflineSupported()) return
+    pruneExpiredRegions()
+      .then(setRegions)
+      .catch((error) => console.error("Error removing expired regions:", error))
+  }, [])
+
+  // Stop downloading if the map goes away
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const download = React.useCallback(async (request: RegionRequest) => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setProgress({ done: 0, total: 0, failed: 0, bytes: 0 })
+    try {
+      const region = await downloadRegion(request, { signal: controller.signal, onProgress: setProgress })
+      setRegions(loadRegions())
+      return region
+    } finally {
+      controllerRef.current = null
+      setProgress(null)
+    }
+  }, [])
+
+  const cancel = React.useCallback(() => controllerRef.current?.abort(), [])
+
+  const remove = React.useCallback(async (id: string) => {
+    setRegions(await deleteRegion(id))
+  }, [])
+
+  return { regions, progress, isDownloading: progress !== null, download, cancel, remove }
+}
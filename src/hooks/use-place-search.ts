@@ -0,0 +1,72 @@
+import * as React from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { SearchArea, useGeocoder } from "@/hooks/use-geocoder"
+import { haversineDistance } from "@/lib/geo"
+import { MapBounds, MapViewport } from "@/types/maps"
+
+// Wait for a pause in typing before asking the geocoder
+const SEARCH_DELAY = 300
+
+// The bias only needs to be roughly where the user is looking, so small pans
+// reuse the same request. A tenth of a degree is about 11 km.
+const roundBias = (value: number) => Math.round(value * 10) / 10
+// A search limited to an area keeps it to about a hundred meters
+const roundArea = (value: number) => Math.round(value * 1e3) / 1e3
+
+const roundBounds = (bounds: MapBounds, round: (value: number) => number): MapBounds => ({
+  north: round(bounds.north),
+  south: round(bounds.south),
+  east: round(bounds.east),
+  west: round(bounds.west),
+})
+
+export interface PlaceSearchOptions {
+  // The map view to prefer places in, and to rank them by distance from
+  near?: MapViewport | null
+  // Only search inside these bounds, as for "search this area"
+  within?: MapBounds | null
+}
+
+const searchArea = ({ near, within }: PlaceSearchOptions): SearchArea => {
+  if (within) {
+    const center: [number, number] = [
+      roundArea((within.west + within.east) / 2),
+      roundArea((within.south + within.north) / 2),
+    ]
+    return { focus: { center, bounds: roundBounds(within, roundArea) }, bounded: true }
+  }
+  if (!near) return {}
+  const center: [number, number] = [roundBias(near.center[0]), roundBias(near.center[1])]
+  return { focus: { center, bounds: near.bounds && roundBounds(near.bounds, roundBias) } }
+}
+
+// Places matching what the user is typing, nearest to the map centre first.
+// Only the latest query is fetched; one that's superseded while in flight is aborted.
+export function usePlaceSearch(query: string, options: PlaceSearchOptions = {}) {
+  const geocoder = useGeocoder()
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DELAY)
+  const area = searchArea(options)
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: geocoder.searchKey(debouncedQuery, area),
+    queryFn: ({ signal }) => geocoder.search(debouncedQuery, area, signal),
+    enabled: debouncedQuery.length > 0,
+  })
+
+  const center = options.near?.center
+  const results = React.useMemo(() => {
+    if (!data) return []
+    if (!center) return data
+    return data
+      .map((result) => ({ ...result, distance: haversineDistance(center, result.coordinates) }))
+      .sort((a, b) => a.distance - b.distance)
+  }, [data, center])
+
+  return {
+    results: debouncedQuery ? results : [],
+    // Still typing counts as loading, so stale results don't flash as final
+    isLoading: isFetching || query.trim() !== debouncedQuery,
+    error,
+  }
+}
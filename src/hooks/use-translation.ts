@@ -0,0 +1,18 @@
+import * as React from "react"
+import { useSettings } from "@/components/SettingsProvider"
+import { createTranslator, dateLocale, textDirection } from "@/lib/i18n"
+
+export function useTranslation() {
+  const { settings } = useSettings()
+  const { locale } = settings.display
+
+  return React.useMemo(
+    () => ({
+      locale,
+      dir: textDirection(locale),
+      dateLocale: dateLocale(locale),
+      t: createTranslator(locale),
+    }),
+    [locale]
+  )
+}
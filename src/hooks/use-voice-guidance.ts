@@ -0,0 +1,39 @@
+import * as React from "react"
+import { useFormat } from "@/hooks/use-format"
+import { useTranslation } from "@/hooks/use-translation"
+import { createAnnouncer, speak, stopSpeaking } from "@/lib/navigation"
+import { Route } from "@/types/maps"
+import { NavigationProgress } from "@/types/navigation"
+
+type VoiceGuidanceOptions = {
+  muted: boolean
+  volume: number
+}
+
+export function useVoiceGuidance(
+  route: Route | null,
+  progress: NavigationProgress | null,
+  { muted, volume }: VoiceGuidanceOptions
+) {
+  const announcerRef = React.useRef(createAnnouncer())
+  const { t, locale } = useTranslation()
+  const { units } = useFormat()
+
+  React.useEffect(() => {
+    if (!route || !progress) {
+      announcerRef.current.reset()
+      return
+    }
+
+    // Keep the announcer's state moving while muted, so unmuting doesn't
+    // replay prompts that are already out of date
+    const text = announcerRef.current.update(route, progress, t, units)
+    if (text && !muted) speak(text, { volume, lang: locale })
+  }, [route, progress, muted, volume, t, locale, units])
+
+  React.useEffect(() => {
+    if (muted) stopSpeaking()
+  }, [muted])
+
+  React.useEffect(() => () => stopSpeaking(), [])
+}
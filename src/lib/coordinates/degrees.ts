@@ -0,0 +1,93 @@
+import { ParsedCoordinates } from './types';
+
+type Hemisphere = 'N' | 'S' | 'E' | 'W';
+
+// Numbers and hemisphere letters, once degree, minute and second marks are dropped
+const TOKEN = /[NSEW]|[-+]?\d+(?:\.\d+)?/g;
+const MARKS = /[°º˚'′’"″”,;]/g;
+
+const isHemisphere = (token: string): token is Hemisphere => /^[NSEW]$/.test(token);
+
+// Degrees, optionally followed by minutes and seconds, as decimal degrees
+const toDegrees = (parts: string[]): number | null => {
+  if (parts.length === 0 || parts.length > 3) return null;
+  const [degrees, minutes = 0, seconds = 0] = parts.map(Number);
+  // Only the degrees carry a sign, and only the last part may have a fraction
+  if (parts.slice(1).some((part) => /^[-+]/.test(part))) return null;
+  if (parts.slice(0, -1).some((part) => part.includes('.'))) return null;
+  if (minutes >= 60 || seconds >= 60) return null;
+  const value = Math.abs(degrees) + minutes / 60 + seconds / 3600;
+  return parts[0].startsWith('-') ? -value : value;
+};
+
+// Splits tokens into groups, each with its hemisphere letter at the front or the back
+const groupByHemisphere = (tokens: string[]) => {
+  const prefixed = isHemisphere(tokens[0]);
+  if (prefixed === isHemisphere(tokens[tokens.length - 1])) return null;
+
+  // Read backwards, letters at the back lead their numbers too
+  const groups: { hemisphere: Hemisphere; parts: string[] }[] = [];
+  for (const token of prefixed ? tokens : [...tokens].reverse()) {
+    if (isHemisphere(token)) groups.push({ hemisphere: token, parts: [] });
+    else groups[groups.length - 1].parts.push(token);
+  }
+  return prefixed ? groups : groups.reverse().map((group) => ({ ...group, parts: group.parts.reverse() }));
+};
+
+// Latitude and longitude in decimal degrees or degrees, minutes and seconds, e.g.
+// "48.8584, 2.2945", "2.2945 48.8584" or "48°51'30.2"N 2°17'40.2"E". Without
+// hemisphere letters the latitude comes first, unless only the other order fits.
+export const parseDegrees = (text: string): ParsedCoordinates | null => {
+  const normalized = text.trim().toUpperCase().replace(MARKS, ' ');
+  const tokens = normalized.match(TOKEN);
+  if (!tokens || normalized.replace(TOKEN, '').trim() !== '') return null;
+
+  const hemispheres = tokens.filter(isHemisphere);
+  let lat: number | null;
+  let lng: number | null;
+  let parts: string[][];
+
+  if (hemispheres.length === 0) {
+    if (![2, 4, 6].includes(tokens.length)) return null;
+    parts = [tokens.slice(0, tokens.length / 2), tokens.slice(tokens.length / 2)];
+    const [first, second] = parts.map(toDegrees);
+    if (first === null || second === null) return null;
+    [lat, lng] = Math.abs(first) <= 90 ? [first, second] : [second, first];
+  } else {
+    const groups = hemispheres.length === 2 ? groupByHemisphere(tokens) : null;
+    if (!groups || groups.length !== 2) return null;
+    if (groups.some((group) => group.parts.some((part) => /^[-+]/.test(part)))) return null;
+    lat = lng = null;
+    parts = groups.map((group) => group.parts);
+    for (const { hemisphere, parts: groupParts } of groups) {
+      const value = toDegrees(groupParts);
+      if (value === null) return null;
+      if (hemisphere === 'N' || hemisphere === 'S') {
+        if (lat !== null) return null;
+        lat = hemisphere === 'S' ? -value : value;
+      } else {
+        if (lng !== null) return null;
+        lng = hemisphere === 'W' ? -value : value;
+      }
+    }
+  }
+
+  if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return {
+    format: parts.every((group) => group.length === 1) ? 'decimal' : 'dms',
+    coordinates: [lng, lat],
+  };
+};
+
+export const formatDecimal = ([lng, lat]: [number, number]): string => `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+
+// Rounded to a tenth of a second, about 3 m
+const toDms = (value: number, positive: Hemisphere, negative: Hemisphere) => {
+  const tenths = Math.round(Math.abs(value) * 36000);
+  const degrees = Math.floor(tenths / 36000);
+  const minutes = Math.floor((tenths % 36000) / 600);
+  const seconds = (tenths % 600) / 10;
+  return `${degrees}°${minutes}'${seconds.toFixed(1)}"${value < 0 ? negative : positive}`;
+};
+
+export const formatDms = ([lng, lat]: [number, number]): string => `${toDms(lat, 'N', 'S')} ${toDms(lng, 'E', 'W')}`;
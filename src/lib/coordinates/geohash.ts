@@ -0,0 +1,51 @@
+import { ParsedCoordinates } from './types';
+
+const ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+const BITS_PER_CHARACTER = 5;
+
+// Geohashes are written in lower case. Shorter ones, or ones without a letter,
+// are too likely to be something else, such as a postcode or a house number.
+const GEOHASH_PATTERN = /^(?=.*[b-hjkmnp-z])[0-9b-hjkmnp-z]{5,12}$/;
+
+// Nine characters name a cell of about 5 × 5 m
+export const encodeGeohash = ([lng, lat]: [number, number], length = 9): string => {
+  const ranges = { lng: [-180, 180], lat: [-90, 90] };
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  // Bits alternate between longitude and latitude, starting with longitude
+  for (let bit = 0; hash.length < length; bit++) {
+    const [range, target]: [number[], number] = bit % 2 === 0 ? [ranges.lng, lng] : [ranges.lat, lat];
+    const middle = (range[0] + range[1]) / 2;
+    value = value * 2 + (target >= middle ? 1 : 0);
+    if (target >= middle) range[0] = middle;
+    else range[1] = middle;
+    if (++bits === BITS_PER_CHARACTER) {
+      hash += ALPHABET[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+};
+
+export const parseGeohash = (text: string): ParsedCoordinates | null => {
+  const hash = text.trim();
+  if (!GEOHASH_PATTERN.test(hash)) return null;
+
+  const ranges = { lng: [-180, 180], lat: [-90, 90] };
+  let bit = 0;
+  for (const character of hash) {
+    const value = ALPHABET.indexOf(character);
+    for (let shift = BITS_PER_CHARACTER - 1; shift >= 0; shift--, bit++) {
+      const range = bit % 2 === 0 ? ranges.lng : ranges.lat;
+      const middle = (range[0] + range[1]) / 2;
+      if ((value >> shift) & 1) range[0] = middle;
+      else range[1] = middle;
+    }
+  }
+  return {
+    format: 'geohash',
+    coordinates: [(ranges.lng[0] + ranges.lng[1]) / 2, (ranges.lat[0] + ranges.lat[1]) / 2],
+  };
+};
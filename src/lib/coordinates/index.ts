@@ -0,0 +1,47 @@
+import { MessageKey } from '@/lib/i18n/types';
+import { formatDecimal, formatDms, parseDegrees } from './degrees';
+import { encodeGeohash, parseGeohash } from './geohash';
+import { formatMgrs, parseMgrs } from './mgrs';
+import { encodePlusCode, parsePlusCode } from './pluscode';
+import { CoordinateFormat, ParsedCoordinates } from './types';
+import { formatUtm, parseUtm } from './utm';
+
+export * from './types';
+
+export const COORDINATE_FORMATS: { value: CoordinateFormat; labelKey: MessageKey }[] = [
+  { value: 'decimal', labelKey: 'coordinates.decimal' },
+  { value: 'dms', labelKey: 'coordinates.dms' },
+  { value: 'pluscode', labelKey: 'coordinates.pluscode' },
+  { value: 'geohash', labelKey: 'coordinates.geohash' },
+  { value: 'utm', labelKey: 'coordinates.utm' },
+  { value: 'mgrs', labelKey: 'coordinates.mgrs' },
+];
+
+// Coordinates typed in any of the supported formats, or null for anything else.
+// Short plus codes are completed from `reference`, usually the map centre.
+// MGRS references in lower case also pass as geohashes, so MGRS is tried first.
+export const parseCoordinates = (text: string, reference?: [number, number]): ParsedCoordinates | null =>
+  parseDegrees(text) ??
+  parseUtm(text) ??
+  parseMgrs(text) ??
+  parsePlusCode(text, reference) ??
+  parseGeohash(text);
+
+// A point written in a format, or null where the format doesn't reach (UTM and
+// MGRS stop at 80°S and 84°N)
+export const formatCoordinates = (coordinates: [number, number], format: CoordinateFormat): string | null => {
+  switch (format) {
+    case 'decimal':
+      return formatDecimal(coordinates);
+    case 'dms':
+      return formatDms(coordinates);
+    case 'pluscode':
+      return encodePlusCode(coordinates);
+    case 'geohash':
+      return encodeGeohash(coordinates);
+    case 'utm':
+      return formatUtm(coordinates);
+    case 'mgrs':
+      return formatMgrs(coordinates);
+  }
+};
@@ -0,0 +1,62 @@
+import { ParsedCoordinates } from './types';
+import {
+  BAND_LETTERS,
+  centralMeridian,
+  fromUtm,
+  MAX_UTM_LATITUDE,
+  MIN_UTM_LATITUDE,
+  projectToZone,
+  toUtm,
+} from './utm';
+
+// MGRS names each 100 km square of a UTM zone with a column and a row letter.
+// Columns cycle through three sets across zones; rows repeat every 2000 km
+// and are shifted by five letters in even zones.
+const COLUMN_LETTERS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ'];
+const ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV';
+const SQUARE_SIZE = 100000;
+const ROW_CYCLE = 2000000;
+
+const rowOffset = (zone: number) => (zone % 2 === 0 ? 5 : 0);
+
+// e.g. "31U DQ 48251 11932" or "31UDQ4825111932", with one to five digits each
+const MGRS_PATTERN = /^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d{0,10})$/;
+
+export const parseMgrs = (text: string): ParsedCoordinates | null => {
+  const match = MGRS_PATTERN.exec(text.replace(/\s+/g, '').toUpperCase());
+  if (!match || match[5].length % 2 !== 0) return null;
+  const [, zoneText, band, column, row, digits] = match;
+  const zone = Number(zoneText);
+  const columnIndex = COLUMN_LETTERS[(zone - 1) % 3].indexOf(column);
+  if (zone < 1 || zone > 60 || columnIndex < 0) return null;
+
+  // Fewer digits name a larger square; its centre stands in for it
+  const precision = digits.length / 2;
+  const cell = 10 ** (5 - precision);
+  const offset = (part: string) => (part ? Number(part) * cell : 0) + cell / 2;
+  const easting = (columnIndex + 1) * SQUARE_SIZE + offset(digits.slice(0, precision));
+  let northing =
+    ((ROW_LETTERS.indexOf(row) - rowOffset(zone) + ROW_LETTERS.length) % ROW_LETTERS.length) * SQUARE_SIZE +
+    offset(digits.slice(precision));
+
+  // The row letter only fixes the northing within 2000 km; the band picks the cycle.
+  // Parallels bend slightly across a zone, hence the margin below the band.
+  const bandSouth = MIN_UTM_LATITUDE + BAND_LETTERS.indexOf(band) * 8;
+  const bandMinNorthing = projectToZone([centralMeridian(zone), bandSouth], zone).northing;
+  while (northing < bandMinNorthing - SQUARE_SIZE) northing += ROW_CYCLE;
+
+  const [lng, lat] = fromUtm({ zone, band, easting, northing });
+  if (!Number.isFinite(lat) || lat < MIN_UTM_LATITUDE || lat > MAX_UTM_LATITUDE) return null;
+  return { format: 'mgrs', coordinates: [((lng + 540) % 360) - 180, lat] };
+};
+
+// To the metre, e.g. "31U DQ 48251 11932"
+export const formatMgrs = (coordinates: [number, number]): string | null => {
+  const position = toUtm(coordinates);
+  if (!position) return null;
+  const { zone, band, easting, northing } = position;
+  const column = COLUMN_LETTERS[(zone - 1) % 3][Math.floor(easting / SQUARE_SIZE) - 1];
+  const row = ROW_LETTERS[(Math.floor(northing / SQUARE_SIZE) + rowOffset(zone)) % ROW_LETTERS.length];
+  const digits = (value: number) => String(Math.floor(value % SQUARE_SIZE)).padStart(5, '0');
+  return `${zone}${band} ${column}${row} ${digits(easting)} ${digits(northing)}`;
+};
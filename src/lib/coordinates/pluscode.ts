@@ -0,0 +1,98 @@
+import { ParsedCoordinates } from './types';
+
+// Open Location Code, https://github.com/google/open-location-code/blob/main/Documentation/Specification/specification.md
+const ALPHABET = '23456789CFGHJMPQRVWX';
+const BASE = ALPHABET.length;
+const SEPARATOR_POSITION = 8;
+const PAIR_LENGTH = 10;
+// Digits after the pairs split a cell into a 5 × 4 grid
+const GRID_ROWS = 5;
+const GRID_COLUMNS = 4;
+const MAX_LENGTH = 15;
+
+// e.g. "8FW4V75V+8Q", "8FW40000+", or "V75V+8Q" near a reference point
+const PLUS_CODE_PATTERN = new RegExp(`^([${ALPHABET}]{2,8}|[${ALPHABET}]{2,6}0{2,6})\\+([${ALPHABET}]{2,7})?$`);
+
+const wrapLongitude = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+
+// The code for a point, with ten digits naming a cell of about 14 × 14 m
+export const encodePlusCode = ([lng, lat]: [number, number], length = PAIR_LENGTH): string => {
+  // Working in integer units of the smallest pair cell avoids rounding errors
+  const scale = BASE ** 3;
+  let latUnits = Math.min(Math.floor((lat + 90) * scale), 180 * scale - 1);
+  let lngUnits = Math.floor((wrapLongitude(lng) + 180) * scale);
+
+  let digits = '';
+  for (let i = 0; i < PAIR_LENGTH / 2; i++) {
+    digits = ALPHABET[latUnits % BASE] + ALPHABET[lngUnits % BASE] + digits;
+    latUnits = Math.floor(latUnits / BASE);
+    lngUnits = Math.floor(lngUnits / BASE);
+  }
+  digits = digits.slice(0, length).padEnd(SEPARATOR_POSITION, '0');
+  return `${digits.slice(0, SEPARATOR_POSITION)}+${digits.slice(SEPARATOR_POSITION)}`;
+};
+
+// The centre of the cell a full code names
+const decodeFullCode = (code: string): [number, number] | null => {
+  const digits = code.replace('+', '').replace(/0+$/, '');
+  if (ALPHABET.indexOf(digits[0]) > 8 || ALPHABET.indexOf(digits[1]) > 17) return null;
+
+  let lat = -90;
+  let lng = -180;
+  let latResolution = BASE * BASE;
+  let lngResolution = BASE * BASE;
+  for (let i = 0; i < Math.min(digits.length, MAX_LENGTH); i++) {
+    const value = ALPHABET.indexOf(digits[i]);
+    if (i < PAIR_LENGTH) {
+      if (i % 2 === 0) {
+        latResolution /= BASE;
+        lat += value * latResolution;
+      } else {
+        lngResolution /= BASE;
+        lng += value * lngResolution;
+      }
+    } else {
+      latResolution /= GRID_ROWS;
+      lngResolution /= GRID_COLUMNS;
+      lat += Math.floor(value / GRID_COLUMNS) * latResolution;
+      lng += (value % GRID_COLUMNS) * lngResolution;
+    }
+  }
+  return [lng + lngResolution / 2, Math.min(lat + latResolution / 2, 90)];
+};
+
+// Full codes, and short codes completed with the digits of the nearest match to
+// `reference`, as the specification describes
+export const parsePlusCode = (text: string, reference?: [number, number]): ParsedCoordinates | null => {
+  const code = text.trim().toUpperCase();
+  const match = PLUS_CODE_PATTERN.exec(code);
+  if (!match) return null;
+  const separator = code.indexOf('+');
+  const padding = code.indexOf('0');
+  if (separator % 2 !== 0) return null;
+  // Padding comes in pairs and ends the code
+  if (padding >= 0 && (padding % 2 !== 0 || match[2])) return null;
+
+  if (separator === SEPARATOR_POSITION) {
+    const coordinates = decodeFullCode(code);
+    return coordinates && { format: 'pluscode', coordinates };
+  }
+  // Short codes need a reference for what they leave out, and digits after the separator
+  if (!reference || padding >= 0 || !match[2]) return null;
+
+  const missing = SEPARATOR_POSITION - separator;
+  const prefix = encodePlusCode(reference).slice(0, missing);
+  const decoded = decodeFullCode(prefix + code);
+  if (!decoded) return null;
+
+  // The prefix of the reference names a cell this big; move the result by one
+  // cell if that brings it closer to the reference
+  const resolution = BASE ** (2 - missing / 2);
+  let [lng, lat] = decoded;
+  const [refLng, refLat] = reference;
+  if (refLat + resolution / 2 < lat && lat - resolution >= -90) lat -= resolution;
+  else if (refLat - resolution / 2 > lat && lat + resolution <= 90) lat += resolution;
+  if (refLng + resolution / 2 < lng) lng -= resolution;
+  else if (refLng - resolution / 2 > lng) lng += resolution;
+  return { format: 'pluscode', coordinates: [wrapLongitude(lng), lat] };
+};
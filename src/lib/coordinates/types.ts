@@ -0,0 +1,6 @@
+export type CoordinateFormat = 'decimal' | 'dms' | 'pluscode' | 'geohash' | 'utm' | 'mgrs';
+
+export interface ParsedCoordinates {
+  format: CoordinateFormat;
+  coordinates: [number, number]; // [longitude, latitude]
+}
@@ -0,0 +1,140 @@
+import { ParsedCoordinates } from './types';
+
+// WGS 84
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const K0 = 0.9996;
+
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING = 10000000; // added in the southern hemisphere
+
+// UTM stops short of the poles, which have their own grid
+export const MIN_UTM_LATITUDE = -80;
+export const MAX_UTM_LATITUDE = 84;
+
+// Latitude bands of 8° from 80°S; X stretches to 84°N
+export const BAND_LETTERS = 'CDEFGHJKLMNPQRSTUVWX';
+
+export interface UtmPosition {
+  zone: number;
+  band: string;
+  easting: number;
+  northing: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+export const centralMeridian = (zone: number) => (zone - 1) * 6 - 180 + 3;
+
+// Distance along the meridian from the equator to a latitude
+const meridianArc = (lat: number) =>
+  A * (
+    (1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256) * lat -
+    ((3 * E2) / 8 + (3 * E2 ** 2) / 32 + (45 * E2 ** 3) / 1024) * Math.sin(2 * lat) +
+    ((15 * E2 ** 2) / 256 + (45 * E2 ** 3) / 1024) * Math.sin(4 * lat) -
+    ((35 * E2 ** 3) / 3072) * Math.sin(6 * lat)
+  );
+
+export const latitudeBand = (lat: number) =>
+  BAND_LETTERS[Math.min(Math.floor((lat - MIN_UTM_LATITUDE) / 8), BAND_LETTERS.length - 1)];
+
+// The zone a point falls in, including the wider zones around Norway and Svalbard
+const zoneOf = (lng: number, lat: number) => {
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32;
+  if (lat >= 72) {
+    if (lng >= 0 && lng < 9) return 31;
+    if (lng >= 9 && lng < 21) return 33;
+    if (lng >= 21 && lng < 33) return 35;
+    if (lng >= 33 && lng < 42) return 37;
+  }
+  return Math.min(Math.floor((lng + 180) / 6) + 1, 60);
+};
+
+// Projects a point into a given zone (Snyder's series, good to a millimetre or so)
+export const projectToZone = ([lng, lat]: [number, number], zone: number) => {
+  const phi = toRadians(lat);
+  const n = A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+  const t = Math.tan(phi) ** 2;
+  const c = EP2 * Math.cos(phi) ** 2;
+  const a = Math.cos(phi) * toRadians(lng - centralMeridian(zone));
+
+  const easting = K0 * n * (
+    a +
+    ((1 - t + c) * a ** 3) / 6 +
+    ((5 - 18 * t + t ** 2 + 72 * c - 58 * EP2) * a ** 5) / 120
+  ) + FALSE_EASTING;
+  const northing = K0 * (
+    meridianArc(phi) +
+    n * Math.tan(phi) * (
+      a ** 2 / 2 +
+      ((5 - t + 9 * c + 4 * c ** 2) * a ** 4) / 24 +
+      ((61 - 58 * t + t ** 2 + 600 * c - 330 * EP2) * a ** 6) / 720
+    )
+  );
+  return { easting, northing: lat < 0 ? northing + FALSE_NORTHING : northing };
+};
+
+// The UTM position of a point, or null near the poles
+export const toUtm = (coordinates: [number, number]): UtmPosition | null => {
+  const [lng, lat] = coordinates;
+  if (lat < MIN_UTM_LATITUDE || lat > MAX_UTM_LATITUDE) return null;
+  const zone = zoneOf(lng, lat);
+  return { zone, band: latitudeBand(lat), ...projectToZone(coordinates, zone) };
+};
+
+export const fromUtm = ({ zone, band, easting, northing }: UtmPosition): [number, number] => {
+  const south = band < 'N';
+  const mu = (south ? northing - FALSE_NORTHING : northing) / K0 /
+    (A * (1 - E2 / 4 - (3 * E2 ** 2) / 64 - (5 * E2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 = mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const n1 = A / Math.sqrt(1 - E2 * Math.sin(phi1) ** 2);
+  const t1 = Math.tan(phi1) ** 2;
+  const c1 = EP2 * Math.cos(phi1) ** 2;
+  const r1 = (A * (1 - E2)) / (1 - E2 * Math.sin(phi1) ** 2) ** 1.5;
+  const d = (easting - FALSE_EASTING) / (n1 * K0);
+
+  const lat = phi1 - ((n1 * Math.tan(phi1)) / r1) * (
+    d ** 2 / 2 -
+    ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * EP2) * d ** 4) / 24 +
+    ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * EP2 - 3 * c1 ** 2) * d ** 6) / 720
+  );
+  const lng = (
+    d -
+    ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+    ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * EP2 + 24 * t1 ** 2) * d ** 5) / 120
+  ) / Math.cos(phi1);
+
+  return [centralMeridian(zone) + toDegrees(lng), toDegrees(lat)];
+};
+
+// e.g. "31U 448251 5411932", with optional E/N or m after the numbers
+const UTM_PATTERN = /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d{6}(?:\.\d+)?)\s*(?:M\s*)?E?[\s,]+(\d{1,7}(?:\.\d+)?)\s*(?:M\s*)?N?$/;
+
+export const parseUtm = (text: string): ParsedCoordinates | null => {
+  const match = UTM_PATTERN.exec(text.trim().toUpperCase());
+  if (!match) return null;
+  const zone = Number(match[1]);
+  const easting = Number(match[3]);
+  const northing = Number(match[4]);
+  if (zone < 1 || zone > 60 || northing > FALSE_NORTHING) return null;
+
+  const coordinates = fromUtm({ zone, band: match[2], easting, northing });
+  const [lng, lat] = coordinates;
+  if (!Number.isFinite(lat) || lat < MIN_UTM_LATITUDE || lat > MAX_UTM_LATITUDE) return null;
+  return { format: 'utm', coordinates: [((lng + 540) % 360) - 180, lat] };
+};
+
+export const formatUtm = (coordinates: [number, number]): string | null => {
+  const position = toUtm(coordinates);
+  if (!position) return null;
+  return `${position.zone}${position.band} ${Math.floor(position.easting)} ${Math.floor(position.northing)}`;
+};
@@ -0,0 +1,115 @@
+import { RouteRequest, TRAVEL_MODES } from '@/lib/routing';
+import { Location, MapViewport, Route, TravelMode } from '@/types/maps';
+
+// What a URL asks the app to show:
+//   /@52.52000,13.40500,12z                   a map view
+//   /place/Alexanderplatz@52.521900,13.413200 a place, the name being optional
+//   /dir/<stop>/<stop>?mode=cycling&via=<stop> a route; stops are written like places
+export type DeepLink =
+  | { type: 'home' }
+  | { type: 'view'; view: MapViewport }
+  | { type: 'place'; location: Location }
+  | { type: 'directions'; request: RouteRequest }
+  | { type: 'invalid' };
+
+const NUMBER = '(-?\\d+(?:\\.\\d+)?)';
+const VIEW_PATTERN = new RegExp(`^@${NUMBER},${NUMBER}(?:,${NUMBER}z?)?$`);
+const POSITION_PATTERN = new RegExp(`^${NUMBER},${NUMBER}$`);
+
+const DEFAULT_ZOOM = 12;
+
+const isValidPosition = (lat: number, lng: number) => Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+const coordinateText = ([lng, lat]: [number, number]) => `${lat.toFixed(6)},${lng.toFixed(6)}`;
+
+// A stop as "name@lat,lng", or just "lat,lng" when it has no name worth
+// keeping. Names are encoded for path segments; query params encode their own.
+const formatStop = (location: Location, encodeName = true): string => {
+  const position = coordinateText(location.coordinates);
+  const hasName = location.name && location.name !== location.address;
+  if (!hasName) return position;
+  return `${encodeName ? encodeURIComponent(location.name) : location.name}@${position}`;
+};
+
+// Decodes a path segment, keeping it as it is if it isn't valid encoding
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+const parseStop = (text: string, id: string): Location | null => {
+  const separator = text.lastIndexOf('@');
+  const position = text.slice(separator + 1);
+  const match = POSITION_PATTERN.exec(position);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (!isValidPosition(lat, lng)) return null;
+
+  const name = separator > 0 ? text.slice(0, separator) : '';
+  const address = `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+  return { id, name: name || address, address, coordinates: [lng, lat] };
+};
+
+const parseView = (segment: string): MapViewport | null => {
+  const match = VIEW_PATTERN.exec(segment);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (!isValidPosition(lat, lng)) return null;
+  return { center: [lng, lat], zoom: match[3] ? parseFloat(match[3]) : DEFAULT_ZOOM };
+};
+
+export const parseDeepLink = (pathname: string, search: string): DeepLink => {
+  // Split before decoding, so an encoded "/" in a name stays part of it
+  const segments = pathname.split('/').filter(Boolean).map(decodeSegment);
+  const params = new URLSearchParams(search);
+
+  if (segments.length === 0) return { type: 'home' };
+
+  if (segments.length === 1) {
+    const view = parseView(segments[0]);
+    return view ? { type: 'view', view } : { type: 'invalid' };
+  }
+
+  if (segments[0] === 'place' && segments.length === 2) {
+    const location = parseStop(segments[1], 'linked-place');
+    return location ? { type: 'place', location } : { type: 'invalid' };
+  }
+
+  if (segments[0] === 'dir' && segments.length === 3) {
+    const origin = parseStop(segments[1], 'linked-origin');
+    const destination = parseStop(segments[2], 'linked-destination');
+    const waypoints = params.getAll('via').map((stop, index) => parseStop(stop, `linked-via-${index}`));
+    if (!origin || !destination || waypoints.some((waypoint) => !waypoint)) return { type: 'invalid' };
+
+    const mode = params.get('mode');
+    return {
+      type: 'directions',
+      request: {
+        origin,
+        destination,
+        waypoints: waypoints as Location[],
+        mode: TRAVEL_MODES.includes(mode as TravelMode) ? (mode as TravelMode) : 'driving',
+      },
+    };
+  }
+
+  return { type: 'invalid' };
+};
+
+export const viewPath = ({ center: [lng, lat], zoom }: MapViewport): string =>
+  `/@${lat.toFixed(5)},${lng.toFixed(5)},${Math.round(zoom * 100) / 100}z`;
+
+export const placePath = (location: Location): string => `/place/${formatStop(location)}`;
+
+export const directionsPath = (route: Route): string => {
+  const params = new URLSearchParams({ mode: route.mode });
+  route.waypoints.forEach((waypoint) => params.append('via', formatStop(waypoint, false)));
+  return `/dir/${formatStop(route.origin)}/${formatStop(route.destination)}?${params}`;
+};
@@ -0,0 +1,9 @@
+import { ElevationProvider } from './types';
+
+// Heights computed from a function instead of fetched from a service
+export const createFixtureElevationProvider = (
+  elevationAt: (coordinates: [number, number]) => number
+): ElevationProvider => ({
+  source: 'fixture',
+  lookup: async (coordinates: [number, number][]) => coordinates.map(elevationAt),
+});
@@ -0,0 +1,44 @@
+import { Route } from '@/types/maps';
+import { ElevationSettings, ElevationSource } from '@/types/settings';
+import { createOpenMeteoProvider } from './openMeteo';
+import { buildElevationProfile, sampleLine } from './profile';
+import { createTerrainTileProvider } from './terrainTiles';
+import { ElevationProfile, ElevationProvider } from './types';
+
+export * from './fixture';
+export * from './profile';
+export * from './terrainTiles';
+export * from './types';
+
+export const ELEVATION_SOURCES: { value: ElevationSource; label: string }[] = [
+  { value: 'open-meteo', label: 'Open-Meteo' },
+  { value: 'terrain-tiles', label: 'Terrarium DEM tiles' },
+];
+
+export const DEFAULT_ELEVATION_SETTINGS: ElevationSettings = {
+  source: 'open-meteo',
+  baseUrls: {
+    'open-meteo': 'https://api.open-meteo.com',
+    'terrain-tiles': 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png',
+  },
+};
+
+export const createElevationProvider = (settings: ElevationSettings): ElevationProvider => {
+  const baseUrl = (settings.baseUrls[settings.source] || DEFAULT_ELEVATION_SETTINGS.baseUrls[settings.source])
+    .replace(/\/+$/, '');
+
+  switch (settings.source) {
+    case 'terrain-tiles':
+      return createTerrainTileProvider(baseUrl);
+    case 'open-meteo':
+    default:
+      return createOpenMeteoProvider(baseUrl);
+  }
+};
+
+// Samples the route's geometry and looks up the height of each sample
+export const getElevationProfile = async (provider: ElevationProvider, route: Route): Promise<ElevationProfile> => {
+  const samples = sampleLine(route.geometry);
+  const elevations = await provider.lookup(samples.map((sample) => sample.coordinates));
+  return buildElevationProfile(samples, elevations);
+};
@@ -0,0 +1,41 @@
+import { ElevationError, ElevationProvider } from './types';
+
+interface OpenMeteoResponse {
+  elevation?: number[];
+  reason?: string;
+}
+
+// Open-Meteo answers at most this many points per request
+const MAX_POINTS_PER_REQUEST = 100;
+
+export const createOpenMeteoProvider = (baseUrl: string): ElevationProvider => ({
+  source: 'open-meteo',
+
+  lookup: async (coordinates: [number, number][]): Promise<number[]> => {
+    const elevations: number[] = [];
+
+    // One request at a time, to stay well inside the public API's rate limit
+    for (let start = 0; start < coordinates.length; start += MAX_POINTS_PER_REQUEST) {
+      const batch = coordinates.slice(start, start + MAX_POINTS_PER_REQUEST);
+      const params = new URLSearchParams({
+        latitude: batch.map(([, lat]) => lat.toFixed(5)).join(','),
+        longitude: batch.map(([lng]) => lng.toFixed(5)).join(','),
+      });
+
+      let data: OpenMeteoResponse;
+      try {
+        const response = await fetch(`${baseUrl}/v1/elevation?${params}`);
+        data = await response.json();
+      } catch (error) {
+        throw new ElevationError('RequestFailed', `Open-Meteo request failed: ${error}`);
+      }
+
+      if (!data.elevation || data.elevation.length !== batch.length) {
+        throw new ElevationError('InvalidResponse', data.reason || 'Open-Meteo returned no elevations');
+      }
+      elevations.push(...data.elevation);
+    }
+
+    return elevations;
+  },
+});
@@ -0,0 +1,92 @@
+import { cumulativeDistances } from '@/lib/geo';
+import { ElevationPoint, ElevationProfile } from './types';
+
+// Enough points for a smooth chart without hammering the elevation service
+const MAX_SAMPLES = 200;
+
+// Closer than this the data can't tell points apart anyway
+const MIN_SPACING_METERS = 25;
+
+// Height changes smaller than this are treated as noise when adding up
+// ascent and descent, otherwise every wobble in the data counts as a climb
+const ELEVATION_NOISE_METERS = 3;
+
+// Grades are measured over at least this distance, so a single noisy
+// sample can't produce a 40% "climb"
+const GRADE_WINDOW_METERS = 100;
+
+// Evenly spaced points along a line, always including both ends
+export const sampleLine = (
+  line: [number, number][],
+  maxSamples = MAX_SAMPLES
+): { distance: number; coordinates: [number, number] }[] => {
+  if (line.length === 0) return [];
+
+  const distances = cumulativeDistances(line);
+  const total = distances[distances.length - 1];
+  const count = Math.max(Math.min(Math.floor(total / MIN_SPACING_METERS), maxSamples - 1), 1);
+  const spacing = total / count;
+
+  const samples: { distance: number; coordinates: [number, number] }[] = [];
+  let segment = 1;
+  for (let i = 0; i <= count; i++) {
+    const distance = i === count ? total : i * spacing;
+    while (segment < line.length - 1 && distances[segment] < distance) segment++;
+
+    const segmentLength = distances[segment] - distances[segment - 1];
+    const t = segmentLength > 0 ? (distance - distances[segment - 1]) / segmentLength : 0;
+    const [from, to] = line.length > 1 ? [line[segment - 1], line[segment]] : [line[0], line[0]];
+    samples.push({
+      distance,
+      coordinates: [from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t],
+    });
+  }
+  return samples;
+};
+
+const totalClimbs = (points: ElevationPoint[]): { ascent: number; descent: number } => {
+  let ascent = 0;
+  let descent = 0;
+  let reference = points[0]?.elevation ?? 0;
+
+  points.forEach(({ elevation }) => {
+    const change = elevation - reference;
+    if (Math.abs(change) < ELEVATION_NOISE_METERS) return;
+    if (change > 0) ascent += change;
+    else descent -= change;
+    reference = elevation;
+  });
+
+  return { ascent, descent };
+};
+
+const steepestClimb = (points: ElevationPoint[]): number => {
+  let maxGrade = 0;
+  let end = 0;
+
+  points.forEach((start, index) => {
+    end = Math.max(end, index + 1);
+    while (end < points.length && points[end].distance - start.distance < GRADE_WINDOW_METERS) end++;
+    if (end >= points.length) return;
+
+    const grade = (points[end].elevation - start.elevation) / (points[end].distance - start.distance);
+    maxGrade = Math.max(maxGrade, grade);
+  });
+
+  // Routes shorter than the window still get a grade from end to end
+  if (points.length > 1 && points[points.length - 1].distance < GRADE_WINDOW_METERS) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (last.distance > 0) maxGrade = Math.max(maxGrade, (last.elevation - first.elevation) / last.distance);
+  }
+
+  return maxGrade;
+};
+
+export const buildElevationProfile = (
+  samples: { distance: number; coordinates: [number, number] }[],
+  elevations: number[]
+): ElevationProfile => {
+  const points = samples.map((sample, index) => ({ ...sample, elevation: elevations[index] }));
+  return { points, ...totalClimbs(points), maxGrade: steepestClimb(points) };
+};
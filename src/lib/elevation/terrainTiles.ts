@@ -0,0 +1,82 @@
+import { ElevationError, ElevationProvider } from './types';
+
+const TILE_SIZE = 256;
+
+// Zoom 12 tiles have roughly 30 m pixels at the equator, about the
+// resolution of the underlying data
+const DEFAULT_ZOOM = 12;
+
+// Terrarium tiles pack the height into the red, green and blue channels
+export const decodeTerrarium = (red: number, green: number, blue: number): number =>
+  red * 256 + green + blue / 256 - 32768;
+
+// Fractional tile coordinates of a point in the Web Mercator tile grid
+const toTilePosition = ([lng, lat]: [number, number], zoom: number): [number, number] => {
+  const scale = 2 ** zoom;
+  const latRadians = (lat * Math.PI) / 180;
+  return [
+    ((lng + 180) / 360) * scale,
+    ((1 - Math.log(Math.tan(latRadians) + 1 / Math.cos(latRadians)) / Math.PI) / 2) * scale,
+  ];
+};
+
+const loadTilePixels = async (url: string): Promise<Uint8ClampedArray> => {
+  let image: ImageBitmap;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    image = await createImageBitmap(await response.blob());
+  } catch (error) {
+    throw new ElevationError('RequestFailed', `Terrain tile request failed: ${error}`);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = TILE_SIZE;
+  canvas.height = TILE_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new ElevationError('InvalidResponse', 'Terrain tiles need a 2D canvas');
+  }
+  context.drawImage(image, 0, 0, TILE_SIZE, TILE_SIZE);
+  return context.getImageData(0, 0, TILE_SIZE, TILE_SIZE).data;
+};
+
+// Reads heights from Terrarium-encoded PNG tiles, such as a self-hosted DEM
+// tile set. urlTemplate uses {z}, {x} and {y} like a map tile layer.
+export const createTerrainTileProvider = (urlTemplate: string, zoom = DEFAULT_ZOOM): ElevationProvider => {
+  // Tiles are shared by neighbouring points and routes, so keep them around
+  const tiles = new Map<string, Promise<Uint8ClampedArray>>();
+
+  const tilePixels = (x: number, y: number) => {
+    const url = urlTemplate
+      .replace('{z}', String(zoom))
+      .replace('{x}', String(x))
+      .replace('{y}', String(y));
+    let pixels = tiles.get(url);
+    if (!pixels) {
+      pixels = loadTilePixels(url);
+      // Let a failed tile be fetched again next time
+      pixels.catch(() => tiles.delete(url));
+      tiles.set(url, pixels);
+    }
+    return pixels;
+  };
+
+  return {
+    source: 'terrain-tiles',
+
+    lookup: (coordinates: [number, number][]): Promise<number[]> =>
+      Promise.all(
+        coordinates.map(async (point) => {
+          const [tileX, tileY] = toTilePosition(point, zoom);
+          const x = Math.floor(tileX);
+          const y = Math.floor(tileY);
+          const pixels = await tilePixels(x, y);
+          const px = Math.min(Math.floor((tileX - x) * TILE_SIZE), TILE_SIZE - 1);
+          const py = Math.min(Math.floor((tileY - y) * TILE_SIZE), TILE_SIZE - 1);
+          const offset = (py * TILE_SIZE + px) * 4;
+          return decodeTerrarium(pixels[offset], pixels[offset + 1], pixels[offset + 2]);
+        })
+      ),
+  };
+};
@@ -0,0 +1,32 @@
+import { ElevationSource } from '@/types/settings';
+
+export interface ElevationProvider {
+  source: ElevationSource | 'fixture';
+  // Heights in meters above sea level, one per [longitude, latitude] point
+  lookup: (coordinates: [number, number][]) => Promise<number[]>;
+}
+
+export interface ElevationPoint {
+  distance: number; // meters from the start of the route
+  elevation: number; // meters above sea level
+  coordinates: [number, number];
+}
+
+export interface ElevationProfile {
+  points: ElevationPoint[];
+  ascent: number; // total climbing, in meters
+  descent: number; // total descending, in meters
+  maxGrade: number; // steepest climb as a fraction, e.g. 0.08 for 8%
+}
+
+export type ElevationErrorCode = 'InvalidResponse' | 'RequestFailed';
+
+export class ElevationError extends Error {
+  code: ElevationErrorCode;
+
+  constructor(code: ElevationErrorCode, message: string) {
+    super(message);
+    this.name = 'ElevationError';
+    this.code = code;
+  }
+}
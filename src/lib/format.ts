@@ -0,0 +1,108 @@
+import { Locale } from '@/lib/i18n/types';
+import { TravelMode } from '@/types/maps';
+import { UnitSystem } from '@/types/settings';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial', 'uk'];
+
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_YARD = 0.9144;
+
+// Below a tenth of a mile, imperial distances switch to feet or yards
+const SHORT_DISTANCE_MILES = 0.1;
+
+// Regions that drive in miles; the UK still measures short distances in yards
+const IMPERIAL_REGIONS = ['US', 'LR', 'MM'];
+const UK_REGIONS = ['GB'];
+
+// The unit system usual for the browser's region, e.g. "en-US" is imperial
+export const detectUnitSystem = (): UnitSystem => {
+  const language = typeof navigator === 'undefined' ? '' : navigator.language || '';
+  const region = language.split('-')[1]?.toUpperCase();
+  if (!region) return 'metric';
+  if (UK_REGIONS.includes(region)) return 'uk';
+  if (IMPERIAL_REGIONS.includes(region)) return 'imperial';
+  return 'metric';
+};
+
+// A distance converted to the unit it should be shown in, rounded so the
+// figure doesn't suggest more precision than a route has
+export interface Measurement {
+  value: number;
+  unit: 'meter' | 'kilometer' | 'foot' | 'yard' | 'mile';
+}
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+// Whole numbers when large, one decimal when small
+const roundLarge = (value: number) => (value < 10 ? Math.round(value * 10) / 10 : Math.round(value));
+
+// Short distances round to a step that suits their size
+const roundShort = (value: number) => (value < 100 ? roundTo(value, 5) : roundTo(value, 10));
+
+export const measureDistance = (meters: number, units: UnitSystem = 'metric'): Measurement => {
+  if (units === 'metric') {
+    const rounded = roundShort(meters);
+    return rounded < 1000
+      ? { value: rounded, unit: 'meter' }
+      : { value: roundLarge(meters / 1000), unit: 'kilometer' };
+  }
+
+  const miles = meters / METERS_PER_MILE;
+  if (miles >= SHORT_DISTANCE_MILES) {
+    return { value: roundLarge(miles), unit: 'mile' };
+  }
+  return units === 'uk'
+    ? { value: roundShort(meters / METERS_PER_YARD), unit: 'yard' }
+    : { value: roundShort(meters / METERS_PER_FOOT), unit: 'foot' };
+};
+
+const formatUnit = (
+  value: number,
+  unit: string,
+  locale: Locale,
+  unitDisplay: 'short' | 'narrow' = 'short'
+): string =>
+  new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay, maximumFractionDigits: 1 }).format(value);
+
+export const formatDistance = (meters: number, units: UnitSystem = 'metric', locale: Locale = 'en'): string => {
+  const { value, unit } = measureDistance(meters, units);
+  return formatUnit(value, unit, locale);
+};
+
+export const formatDuration = (seconds: number, mode: TravelMode = 'driving', locale: Locale = 'en'): string => {
+  // Driving ETAs round to the nearest minute; walking and cycling round up so
+  // short legs don't show as "0 min" and long trips aren't optimistic
+  const minutes = mode === 'driving' ? Math.round(seconds / 60) : Math.ceil(seconds / 60);
+  if (mode !== 'driving' && seconds > 0 && seconds < 60) {
+    return `< ${formatUnit(1, 'minute', locale)}`;
+  }
+  if (minutes < 60) {
+    return formatUnit(minutes, 'minute', locale);
+  }
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return `${formatUnit(hours, 'hour', locale, 'narrow')} ${formatUnit(remainingMinutes, 'minute', locale, 'narrow')}`;
+};
+
+// Heights are whole meters, or whole feet for both imperial systems
+export const formatElevation = (meters: number, units: UnitSystem = 'metric', locale: Locale = 'en'): string =>
+  units === 'metric'
+    ? formatUnit(Math.round(meters), 'meter', locale)
+    : formatUnit(Math.round(meters / METERS_PER_FOOT), 'foot', locale);
+
+// A slope given as a fraction, e.g. 0.075 as "7.5%"
+export const formatGrade = (grade: number, locale: Locale = 'en'): string =>
+  new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }).format(grade);
+
+// Storage sizes in the largest unit that keeps the figure above 1, e.g. "2.4 MB"
+export const formatFileSize = (bytes: number, locale: Locale = 'en'): string => {
+  const units = ['byte', 'kilobyte', 'megabyte', 'gigabyte'];
+  let value = bytes;
+  let index = 0;
+  while (value >= 1024 && index < units.length - 1) {
+    value /= 1024;
+    index++;
+  }
+  return formatUnit(index === 0 ? value : roundLarge(value), units[index], locale);
+};
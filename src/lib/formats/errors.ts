@@ -0,0 +1,11 @@
+export type FileFormatErrorCode = 'Unsupported' | 'Invalid' | 'Empty';
+
+export class FileFormatError extends Error {
+  code: FileFormatErrorCode;
+
+  constructor(code: FileFormatErrorCode, message: string) {
+    super(message);
+    this.name = 'FileFormatError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,141 @@
+import { describeStep } from '@/lib/routing';
+import { Location } from '@/types/maps';
+import { OverlayGeometry } from '@/types/overlays';
+import { FileFormatError } from './errors';
+import { OverlayParser, RouteSerializer } from './types';
+
+const stopFeature = (location: Location, role: 'origin' | 'waypoint' | 'destination') => ({
+  type: 'Feature',
+  geometry: { type: 'Point', coordinates: location.coordinates },
+  properties: { role, name: location.name, address: location.address },
+});
+
+// A FeatureCollection with the route line first, carrying the route's
+// metadata, then its stops and the start of each step as points
+export const toGeoJson: RouteSerializer = (route, t) => {
+  const line = {
+    type: 'Feature',
+    geometry: { type: 'LineString', coordinates: route.geometry },
+    properties: {
+      role: 'route',
+      name: t('export.routeName', { origin: route.origin.name, destination: route.destination.name }),
+      mode: route.mode,
+      distance: route.distance,
+      duration: route.duration,
+      roads: route.roads,
+      avoid: route.avoid,
+      hasFerry: route.hasFerry,
+      hasToll: route.hasToll,
+      hasHighway: route.hasHighway,
+      hasUnpaved: route.hasUnpaved,
+    },
+  };
+
+  const steps = route.steps
+    .filter((step) => step.coordinates.length > 0)
+    .map((step) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: step.coordinates[0] },
+      properties: {
+        role: 'step',
+        instruction: describeStep(route, step, t),
+        maneuver: step.maneuver,
+        mode: step.mode,
+        distance: step.distance,
+        duration: step.duration,
+      },
+    }));
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: [
+      line,
+      stopFeature(route.origin, 'origin'),
+      ...route.waypoints.map((waypoint) => stopFeature(waypoint, 'waypoint')),
+      stopFeature(route.destination, 'destination'),
+      ...steps,
+    ],
+  });
+};
+
+interface GeoJsonObject {
+  type?: string;
+  coordinates?: unknown;
+  geometry?: GeoJsonObject | null;
+  geometries?: GeoJsonObject[];
+  features?: GeoJsonObject[];
+  properties?: Record<string, unknown> | null;
+}
+
+const toPosition = (value: unknown): [number, number] | null =>
+  Array.isArray(value) && Number.isFinite(value[0]) && Number.isFinite(value[1]) ? [value[0], value[1]] : null;
+
+const toPositions = (value: unknown): [number, number][] =>
+  Array.isArray(value) ? value.map(toPosition).filter((position): position is [number, number] => !!position) : [];
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// Multi-part geometries are split so each part can be drawn on its own
+const toGeometries = (geometry: GeoJsonObject | null | undefined): OverlayGeometry[] => {
+  if (!geometry) return [];
+
+  switch (geometry.type) {
+    case 'Point': {
+      const position = toPosition(geometry.coordinates);
+      return position ? [{ type: 'Point', coordinates: position }] : [];
+    }
+    case 'MultiPoint':
+      return toPositions(geometry.coordinates).map((coordinates) => ({ type: 'Point', coordinates }));
+    case 'LineString':
+      return toGeometries({ type: 'MultiLineString', coordinates: [geometry.coordinates] });
+    case 'MultiLineString':
+      return asArray(geometry.coordinates)
+        .map(toPositions)
+        .filter((line) => line.length > 1)
+        .map((coordinates) => ({ type: 'LineString', coordinates }));
+    case 'Polygon':
+      return toGeometries({ type: 'MultiPolygon', coordinates: [geometry.coordinates] });
+    case 'MultiPolygon':
+      return asArray(geometry.coordinates)
+        .map((polygon) => asArray(polygon).map(toPositions))
+        .filter((rings) => rings.length > 0 && rings[0].length > 2)
+        .map((coordinates) => ({ type: 'Polygon', coordinates }));
+    case 'GeometryCollection':
+      return (geometry.geometries || []).flatMap(toGeometries);
+    default:
+      return [];
+  }
+};
+
+const stringProperty = (properties: GeoJsonObject['properties'], ...keys: string[]): string | undefined => {
+  const value = keys.map((key) => properties?.[key]).find((candidate) => typeof candidate === 'string');
+  return typeof value === 'string' ? value : undefined;
+};
+
+// Accepts a FeatureCollection, a single Feature or a bare geometry
+export const parseGeoJson: OverlayParser = (text) => {
+  let data: GeoJsonObject | null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new FileFormatError('Invalid', 'Not a valid GeoJSON file');
+  }
+  // Valid JSON such as `null` or `42` is still not GeoJSON
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new FileFormatError('Invalid', 'Not a valid GeoJSON file');
+  }
+
+  const features = data.type === 'FeatureCollection'
+    ? data.features || []
+    : data.type === 'Feature'
+      ? [data]
+      : [{ type: 'Feature', geometry: data, properties: null }];
+
+  return features.flatMap((feature) =>
+    toGeometries(feature.geometry).map((geometry) => ({
+      geometry,
+      name: stringProperty(feature.properties, 'name', 'title'),
+      description: stringProperty(feature.properties, 'description', 'desc'),
+    }))
+  );
+};
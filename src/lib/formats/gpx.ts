@@ -0,0 +1,115 @@
+import { describeStep } from '@/lib/routing';
+import { Location } from '@/types/maps';
+import { OverlayFeature } from '@/types/overlays';
+import { OverlayParser, RouteSerializer } from './types';
+import { childText, escapeXml, formatCoordinate, parseXml } from './xml';
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1';
+
+const point = (tag: string, [lng, lat]: [number, number], children: string[], indent: string) =>
+  [
+    `${indent}<${tag} lat="${formatCoordinate(lat)}" lon="${formatCoordinate(lng)}">`,
+    ...children.map((child) => `${indent}  ${child}`),
+    `${indent}</${tag}>`,
+  ].join('\n');
+
+const stopWaypoint = (location: Location, type: string) =>
+  point('wpt', location.coordinates, [
+    `<name>${escapeXml(location.name)}</name>`,
+    `<desc>${escapeXml(location.address)}</desc>`,
+    `<type>${type}</type>`,
+  ], '  ');
+
+// GPX 1.1 with the stops as waypoints, each step's start as a route point
+// (what most GPS units navigate by) and the full geometry as a track
+export const toGpx: RouteSerializer = (route, t) => {
+  const name = t('export.routeName', { origin: route.origin.name, destination: route.destination.name });
+
+  const routePoints = route.steps
+    .filter((step) => step.coordinates.length > 0)
+    .map((step) => point('rtept', step.coordinates[0], [
+      `<name>${escapeXml(describeStep(route, step, t))}</name>`,
+      `<type>${step.maneuver.type}</type>`,
+    ], '    '));
+
+  const trackPoints = route.geometry.map(([lng, lat]) =>
+    `      <trkpt lat="${formatCoordinate(lat)}" lon="${formatCoordinate(lng)}" />`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Mapsy" xmlns="${GPX_NAMESPACE}">`,
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <desc>${escapeXml(t(`mode.${route.mode}`))}</desc>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    stopWaypoint(route.origin, 'origin'),
+    ...route.waypoints.map((waypoint) => stopWaypoint(waypoint, 'waypoint')),
+    stopWaypoint(route.destination, 'destination'),
+    '  <rte>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...routePoints,
+    '  </rte>',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+const pointCoordinates = (element: Element): [number, number] => [
+  parseFloat(element.getAttribute('lon') || ''),
+  parseFloat(element.getAttribute('lat') || ''),
+];
+
+const isValidPoint = ([lng, lat]: [number, number]) => Number.isFinite(lng) && Number.isFinite(lat);
+
+const elements = (parent: Document | Element, tag: string) => Array.from(parent.getElementsByTagName(tag));
+
+// Waypoints become points; routes and each track segment become lines
+export const parseGpx: OverlayParser = (text) => {
+  const document = parseXml(text, 'GPX');
+  const features: OverlayFeature[] = [];
+
+  elements(document, 'wpt').forEach((waypoint) => {
+    const coordinates = pointCoordinates(waypoint);
+    if (!isValidPoint(coordinates)) return;
+    features.push({
+      geometry: { type: 'Point', coordinates },
+      name: childText(waypoint, 'name'),
+      description: childText(waypoint, 'desc'),
+    });
+  });
+
+  elements(document, 'rte').forEach((route) => {
+    const points = elements(route, 'rtept').filter((point) => isValidPoint(pointCoordinates(point)));
+    if (points.length < 2) return;
+    features.push({
+      geometry: { type: 'LineString', coordinates: points.map(pointCoordinates) },
+      name: childText(route, 'name'),
+      description: childText(route, 'desc'),
+      kind: 'route',
+      pointNames: points.map((point) => childText(point, 'name')),
+    });
+  });
+
+  elements(document, 'trk').forEach((track) => {
+    elements(track, 'trkseg').forEach((segment) => {
+      const coordinates = elements(segment, 'trkpt').map(pointCoordinates).filter(isValidPoint);
+      if (coordinates.length < 2) return;
+      features.push({
+        geometry: { type: 'LineString', coordinates },
+        name: childText(track, 'name'),
+        description: childText(track, 'desc'),
+        kind: 'track',
+      });
+    });
+  });
+
+  return features;
+};
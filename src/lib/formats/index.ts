@@ -0,0 +1,124 @@
+import { Translate } from '@/lib/i18n';
+import { Route } from '@/types/maps';
+import { Overlay, OverlayFeature, OverlayFormat } from '@/types/overlays';
+import { FileFormatError } from './errors';
+import { parseGeoJson, toGeoJson } from './geojson';
+import { parseGpx, toGpx } from './gpx';
+import { parseKml, toKml } from './kml';
+import { readKmz } from './kmz';
+import { ExportFormat, OverlayParser, RouteSerializer } from './types';
+
+export * from './errors';
+export * from './geojson';
+export * from './gpx';
+export * from './kml';
+export * from './kmz';
+export * from './types';
+export { escapeXml } from './xml';
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: RouteSerializer;
+}[] = [
+  { value: 'gpx', label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml', serialize: toGpx },
+  { value: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', serialize: toKml },
+  { value: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json', serialize: toGeoJson },
+];
+
+// A file name built from the stop names, e.g. "berlin-to-potsdam.gpx"
+export const exportFileName = (route: Route, extension: string): string => {
+  const slug = [route.origin.name, 'to', route.destination.name]
+    .join(' ')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'route'}.${extension}`;
+};
+
+// Saves the route in the given format through the browser's download
+export const downloadRoute = (route: Route, format: ExportFormat, t: Translate): void => {
+  const option = EXPORT_FORMATS.find(({ value }) => value === format);
+  if (!option) return;
+
+  const blob = new Blob([option.serialize(route, t)], { type: option.mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(route, option.extension);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Safari and Firefox can cancel a download whose URL is revoked before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// File types offered when picking a file to import
+export const IMPORT_FILE_TYPES = '.gpx,.kml,.kmz,.geojson,.json';
+
+// Overlays take these in turn, chosen to stand apart from the route colours
+export const OVERLAY_COLORS = ['#db2777', '#ea580c', '#7c3aed', '#0891b2', '#65a30d'];
+
+const PARSERS: Record<Exclude<OverlayFormat, 'kmz'>, OverlayParser> = {
+  gpx: parseGpx,
+  kml: parseKml,
+  geojson: parseGeoJson,
+};
+
+const EXTENSION_FORMATS: Record<string, OverlayFormat> = {
+  gpx: 'gpx',
+  kml: 'kml',
+  kmz: 'kmz',
+  geojson: 'geojson',
+  json: 'geojson',
+};
+
+// A GPX track or route that can be turned into a Route, if the overlay has one
+export const promotableLine = (overlay: Overlay): OverlayFeature | undefined =>
+  overlay.features.find((feature) => feature.kind && feature.geometry.type === 'LineString');
+
+// Files from other tools don't always have the usual extension, so fall back
+// to looking at the start of the content
+const sniffFormat = (text: string): Exclude<OverlayFormat, 'kmz'> | null => {
+  const start = text.trimStart().slice(0, 1000);
+  if (start.startsWith('{')) return 'geojson';
+  if (/<gpx[\s>]/.test(start)) return 'gpx';
+  if (/<kml[\s>]/.test(start)) return 'kml';
+  return null;
+};
+
+// Reads a GPX, KML, KMZ or GeoJSON file into a visible overlay
+export const readOverlayFile = async (file: File, color: string): Promise<Overlay> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  let format = EXTENSION_FORMATS[extension];
+  let text: string;
+
+  if (format === 'kmz') {
+    text = await readKmz(await file.arrayBuffer());
+  } else {
+    text = await file.text();
+    format = format || sniffFormat(text);
+  }
+  if (!format) {
+    throw new FileFormatError('Unsupported', `Unsupported file type: ${file.name}`);
+  }
+
+  const features = PARSERS[format === 'kmz' ? 'kml' : format](text);
+  if (features.length === 0) {
+    throw new FileFormatError('Empty', `${file.name} contains nothing to show on the map`);
+  }
+
+  return {
+    id: `overlay-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name,
+    format,
+    features,
+    color,
+    visible: true,
+  };
+};
@@ -0,0 +1,127 @@
+import { describeStep } from '@/lib/routing';
+import { Location } from '@/types/maps';
+import { OverlayFeature, OverlayGeometry } from '@/types/overlays';
+import { OverlayParser, RouteSerializer } from './types';
+import { childText, escapeXml, formatCoordinate, parseXml } from './xml';
+
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2';
+
+const kmlCoordinates = (coordinates: [number, number][]) =>
+  coordinates.map(([lng, lat]) => `${formatCoordinate(lng)},${formatCoordinate(lat)}`).join(' ');
+
+const pointPlacemark = (
+  name: string,
+  coordinates: [number, number],
+  { description, style, indent = '    ' }: { description?: string; style?: string; indent?: string } = {}
+) =>
+  [
+    '<Placemark>',
+    `  <name>${escapeXml(name)}</name>`,
+    ...(description ? [`  <description>${escapeXml(description)}</description>`] : []),
+    ...(style ? [`  <styleUrl>#${style}</styleUrl>`] : []),
+    `  <Point><coordinates>${kmlCoordinates([coordinates])}</coordinates></Point>`,
+    '</Placemark>',
+  ].map((line) => indent + line).join('\n');
+
+const stopPlacemark = (location: Location) =>
+  pointPlacemark(location.name, location.coordinates, { description: location.address, style: 'stop' });
+
+// KML 2.2 with the route line, its stops, and a folder of step points
+export const toKml: RouteSerializer = (route, t) => {
+  const name = t('export.routeName', { origin: route.origin.name, destination: route.destination.name });
+
+  const stepPlacemarks = route.steps
+    .filter((step) => step.coordinates.length > 0)
+    .map((step) => pointPlacemark(describeStep(route, step, t), step.coordinates[0], { indent: '      ' }));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<kml xmlns="${KML_NAMESPACE}">`,
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <description>${escapeXml(t(`mode.${route.mode}`))}</description>`,
+    '    <Style id="route">',
+    '      <LineStyle><color>ffeb6325</color><width>4</width></LineStyle>',
+    '    </Style>',
+    '    <Style id="stop">',
+    '      <IconStyle><scale>1.1</scale></IconStyle>',
+    '    </Style>',
+    '    <Placemark>',
+    `      <name>${escapeXml(name)}</name>`,
+    '      <styleUrl>#route</styleUrl>',
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${kmlCoordinates(route.geometry)}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    stopPlacemark(route.origin),
+    ...route.waypoints.map(stopPlacemark),
+    stopPlacemark(route.destination),
+    '    <Folder>',
+    `      <name>${escapeXml(t('directions.turnByTurn'))}</name>`,
+    ...stepPlacemarks,
+    '    </Folder>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+// "lng,lat[,alt]" tuples separated by whitespace
+const parseKmlCoordinates = (text: string | null): [number, number][] =>
+  (text || '')
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(',').map(parseFloat))
+    .filter(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat))
+    .map(([lng, lat]) => [lng, lat]);
+
+const ringCoordinates = (boundary: Element | undefined) =>
+  parseKmlCoordinates(boundary?.getElementsByTagName('coordinates')[0]?.textContent ?? null);
+
+// Geometries inside an element, looking through MultiGeometry at any depth
+const kmlGeometries = (element: Element): OverlayGeometry[] =>
+  Array.from(element.children).flatMap((child): OverlayGeometry[] => {
+    switch (child.tagName) {
+      case 'Point': {
+        const [coordinates] = parseKmlCoordinates(child.getElementsByTagName('coordinates')[0]?.textContent ?? null);
+        return coordinates ? [{ type: 'Point', coordinates }] : [];
+      }
+      case 'LineString':
+      case 'LinearRing': {
+        const coordinates = parseKmlCoordinates(child.getElementsByTagName('coordinates')[0]?.textContent ?? null);
+        return coordinates.length > 1 ? [{ type: 'LineString', coordinates }] : [];
+      }
+      case 'Polygon': {
+        const outer = ringCoordinates(child.getElementsByTagName('outerBoundaryIs')[0]);
+        const holes = Array.from(child.getElementsByTagName('innerBoundaryIs')).map(ringCoordinates);
+        return outer.length > 2 ? [{ type: 'Polygon', coordinates: [outer, ...holes] }] : [];
+      }
+      case 'gx:Track': {
+        // Google's track extension lists "lng lat alt" per gx:coord
+        const coordinates = Array.from(child.getElementsByTagName('gx:coord'))
+          .map((coord) => (coord.textContent || '').trim().split(/\s+/).map(parseFloat))
+          .filter(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat))
+          .map(([lng, lat]): [number, number] => [lng, lat]);
+        return coordinates.length > 1 ? [{ type: 'LineString', coordinates }] : [];
+      }
+      case 'MultiGeometry':
+      case 'gx:MultiTrack':
+        return kmlGeometries(child);
+      default:
+        return [];
+    }
+  });
+
+// Every placemark's geometries, ignoring styles and folders
+export const parseKml: OverlayParser = (text) => {
+  const document = parseXml(text, 'KML');
+
+  return Array.from(document.getElementsByTagName('Placemark')).flatMap((placemark) =>
+    kmlGeometries(placemark).map((geometry): OverlayFeature => ({
+      geometry,
+      name: childText(placemark, 'name'),
+      description: childText(placemark, 'description'),
+    }))
+  );
+};
@@ -0,0 +1,77 @@
+import { FileFormatError } from './errors';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Lists a zip archive's files from its central directory, which sits at the
+// end of the file after an optional comment of up to 64 KB
+const readEntries = (view: DataView): ZipEntry[] => {
+  let end = -1;
+  for (let offset = view.byteLength - 22; offset >= Math.max(0, view.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new FileFormatError('Invalid', 'Not a valid KMZ file');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readEntry = async (view: DataView, entry: ZipEntry): Promise<ArrayBuffer> => {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+    throw new FileFormatError('Invalid', 'Not a valid KMZ file');
+  }
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = view.buffer.slice(view.byteOffset + start, view.byteOffset + start + entry.compressedSize);
+
+  if (entry.method === STORED) return data;
+  if (entry.method !== DEFLATED) {
+    throw new FileFormatError('Unsupported', `Unsupported KMZ compression method ${entry.method}`);
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+// The KML document inside a KMZ archive: doc.kml by convention, otherwise
+// the first .kml file at the shallowest level
+export const readKmz = async (data: ArrayBuffer): Promise<string> => {
+  const view = new DataView(data);
+  const documents = readEntries(view)
+    .filter((entry) => entry.name.toLowerCase().endsWith('.kml'))
+    .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+  const entry = documents.find((candidate) => candidate.name.toLowerCase() === 'doc.kml') || documents[0];
+
+  if (!entry) throw new FileFormatError('Empty', 'The KMZ file contains no KML document');
+  return new TextDecoder().decode(await readEntry(view, entry));
+};
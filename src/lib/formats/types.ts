@@ -0,0 +1,12 @@
+import { Translate } from '@/lib/i18n';
+import { Route } from '@/types/maps';
+import { OverlayFeature } from '@/types/overlays';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+// Writes a route as a file's text. Step instructions are written in the
+// user's language, so serializers take the translator.
+export type RouteSerializer = (route: Route, t: Translate) => string;
+
+// Reads a file's text into overlay features
+export type OverlayParser = (text: string) => OverlayFeature[];
@@ -0,0 +1,29 @@
+import { FileFormatError } from './errors';
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+export const escapeXml = (text: string): string => text.replace(/[&<>"']/g, (char) => XML_ESCAPES[char]);
+
+// Coordinates are written to 6 decimals, about 10 cm, like the rest of the app
+export const formatCoordinate = (value: number): string => value.toFixed(6);
+
+// Parses XML text, failing on anything the browser couldn't read
+export const parseXml = (text: string, format: string): Document => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new FileFormatError('Invalid', `Not a valid ${format} file`);
+  }
+  return document;
+};
+
+// Text of the first direct child with the given tag, trimmed
+export const childText = (element: Element, tag: string): string | undefined => {
+  const child = Array.from(element.children).find((candidate) => candidate.tagName === tag);
+  return child?.textContent?.trim() || undefined;
+};
@@ -0,0 +1,86 @@
+const EARTH_RADIUS_METERS = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance in meters between two [longitude, latitude] points
+export const haversineDistance = (from: [number, number], to: [number, number]): number => {
+  const dLat = toRadians(to[1] - from[1]);
+  const dLng = toRadians(to[0] - from[0]);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[1])) * Math.cos(toRadians(to[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+// Initial bearing in degrees clockwise from north when travelling from one point to another
+export const bearing = (from: [number, number], to: [number, number]): number => {
+  const lat1 = toRadians(from[1]);
+  const lat2 = toRadians(to[1]);
+  const dLng = toRadians(to[0] - from[0]);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+// Distance in meters from the start of a line to each of its vertices
+export const cumulativeDistances = (line: [number, number][]): number[] => {
+  const distances = [0];
+  for (let i = 1; i < line.length; i++) {
+    distances.push(distances[i - 1] + haversineDistance(line[i - 1], line[i]));
+  }
+  return distances;
+};
+
+// The point a given distance along a line, clamped to its ends
+export const pointAlong = (line: [number, number][], distance: number): [number, number] => {
+  const distances = cumulativeDistances(line);
+  if (distance <= 0) return line[0];
+
+  for (let i = 1; i < line.length; i++) {
+    if (distances[i] >= distance) {
+      const segmentLength = distances[i] - distances[i - 1];
+      const t = segmentLength > 0 ? (distance - distances[i - 1]) / segmentLength : 0;
+      return [
+        line[i - 1][0] + (line[i][0] - line[i - 1][0]) * t,
+        line[i - 1][1] + (line[i][1] - line[i - 1][1]) * t,
+      ];
+    }
+  }
+  return line[line.length - 1];
+};
+
+// Closest point on a line to the given point. Segments are short enough that
+// projecting in a local equirectangular plane is accurate to well under a meter.
+export const nearestPointOnLine = (
+  point: [number, number],
+  line: [number, number][]
+): { coordinates: [number, number]; segmentIndex: number; distance: number; distanceAlong: number } => {
+  const distances = cumulativeDistances(line);
+  const cosLat = Math.cos(toRadians(point[1]));
+  let best = { coordinates: line[0], segmentIndex: 0, distance: haversineDistance(point, line[0]), distanceAlong: 0 };
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [ax, ay] = [line[i][0] * cosLat, line[i][1]];
+    const [bx, by] = [line[i + 1][0] * cosLat, line[i + 1][1]];
+    const [px, py] = [point[0] * cosLat, point[1]];
+    const lengthSquared = (bx - ax) ** 2 + (by - ay) ** 2;
+    const t = lengthSquared > 0
+      ? Math.max(0, Math.min(1, ((px - ax) * (bx - ax) + (py - ay) * (by - ay)) / lengthSquared))
+      : 0;
+    const coordinates: [number, number] = [
+      line[i][0] + (line[i + 1][0] - line[i][0]) * t,
+      line[i][1] + (line[i + 1][1] - line[i][1]) * t,
+    ];
+    const distance = haversineDistance(point, coordinates);
+    if (distance < best.distance) {
+      best = {
+        coordinates,
+        segmentIndex: i,
+        distance,
+        distanceAlong: distances[i] + (distances[i + 1] - distances[i]) * t,
+      };
+    }
+  }
+
+  return best;
+};
@@ -0,0 +1,42 @@
+import { GeocodingEngine, GeocodingSettings } from '@/types/settings';
+import { createNominatimProvider } from './nominatim';
+import { createPeliasProvider } from './pelias';
+import { createPhotonProvider } from './photon';
+import { GeocodingProvider } from './types';
+
+export * from './countries';
+export * from './types';
+
+export const GEOCODING_ENGINES: { value: GeocodingEngine; label: string }[] = [
+  { value: 'nominatim', label: 'Nominatim' },
+  { value: 'photon', label: 'Photon' },
+  { value: 'pelias', label: 'Pelias' },
+];
+
+export const DEFAULT_GEOCODING_SETTINGS: GeocodingSettings = {
+  engine: 'nominatim',
+  baseUrls: {
+    nominatim: 'https://nominatim.openstreetmap.org',
+    photon: 'https://photon.komoot.io',
+    pelias: 'https://api.geocode.earth',
+  },
+  peliasApiKey: '',
+  // Deployments can set their own contact address at build time
+  nominatimEmail: import.meta.env.VITE_NOMINATIM_EMAIL ?? '',
+  country: '',
+};
+
+export const createGeocodingProvider = (settings: GeocodingSettings): GeocodingProvider => {
+  const baseUrl = (settings.baseUrls[settings.engine] || DEFAULT_GEOCODING_SETTINGS.baseUrls[settings.engine])
+    .replace(/\/+$/, '');
+
+  switch (settings.engine) {
+    case 'photon':
+      return createPhotonProvider(baseUrl);
+    case 'pelias':
+      return createPeliasProvider(baseUrl, settings.peliasApiKey);
+    case 'nominatim':
+    default:
+      return createNominatimProvider(baseUrl, settings.nominatimEmail);
+  }
+};
@@ -0,0 +1,71 @@
+import { SearchResult } from '@/types/maps';
+import { GeocodeOptions, GeocodingProvider } from './types';
+import { DEFAULT_LIMIT, fetchJson } from './utils';
+
+interface NominatimPlace {
+  place_id?: number;
+  name?: string;
+  display_name: string;
+  lat: string;
+  lon: string;
+  type?: string;
+}
+
+interface NominatimReverseResponse extends Partial<NominatimPlace> {
+  error?: string; // e.g. "Unable to geocode" out at sea
+}
+
+const toSearchResult = (place: NominatimPlace, index: number): SearchResult => ({
+  id: place.place_id?.toString() || index.toString(),
+  name: place.name || place.display_name.split(',')[0],
+  address: place.display_name,
+  coordinates: [parseFloat(place.lon), parseFloat(place.lat)],
+  type: place.type || 'place',
+});
+
+const languageParams = (options: GeocodeOptions): Record<string, string> =>
+  options.language ? { 'accept-language': options.language } : {};
+
+// Nominatim biases towards a viewbox, and only searches inside it when bounded
+const areaParams = ({ focus, bounded, country }: GeocodeOptions): Record<string, string> => {
+  const bounds = focus?.bounds;
+  return {
+    ...(bounds && { viewbox: [bounds.west, bounds.north, bounds.east, bounds.south].join(',') }),
+    ...(bounds && bounded && { bounded: '1' }),
+    ...(country && { countrycodes: country.toLowerCase() }),
+  };
+};
+
+// Nominatim's usage policy asks browser apps that can't set User-Agent to
+// identify themselves with a contact address instead
+const contactParams = (email: string): Record<string, string> => (email ? { email } : {});
+
+export const createNominatimProvider = (baseUrl: string, email = ''): GeocodingProvider => ({
+  engine: 'nominatim',
+
+  search: async (query, options = {}) => {
+    const params = new URLSearchParams({
+      format: 'json',
+      q: query,
+      limit: String(options.limit ?? DEFAULT_LIMIT),
+      ...languageParams(options),
+      ...areaParams(options),
+      ...contactParams(email),
+    });
+    const data = await fetchJson<NominatimPlace[]>(`${baseUrl}/search?${params}`, 'Nominatim', options.signal);
+    return data.map(toSearchResult);
+  },
+
+  reverse: async ([lng, lat], options = {}) => {
+    const params = new URLSearchParams({
+      format: 'json',
+      lat: String(lat),
+      lon: String(lng),
+      ...languageParams(options),
+      ...contactParams(email),
+    });
+    const data = await fetchJson<NominatimReverseResponse>(`${baseUrl}/reverse?${params}`, 'Nominatim', options.signal);
+    if (data.error || !data.display_name || !data.lat || !data.lon) return null;
+    return toSearchResult(data as NominatimPlace, 0);
+  },
+});
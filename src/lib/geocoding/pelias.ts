@@ -0,0 +1,77 @@
+import { SearchResult } from '@/types/maps';
+import { GeocodeOptions, GeocodingProvider } from './types';
+import { DEFAULT_LIMIT, fetchJson } from './utils';
+
+interface PeliasFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    gid?: string;
+    name?: string;
+    label?: string;
+    layer?: string;
+  };
+}
+
+interface PeliasResponse {
+  features?: PeliasFeature[];
+}
+
+const toSearchResult = ({ geometry, properties }: PeliasFeature, index: number): SearchResult => {
+  const address = properties.label || properties.name || '';
+  return {
+    id: properties.gid || index.toString(),
+    name: properties.name || address.split(',')[0],
+    address,
+    coordinates: geometry.coordinates,
+    type: properties.layer || 'place',
+  };
+};
+
+// Self-hosted Pelias needs no key; hosted services such as geocode.earth do
+export const createPeliasProvider = (baseUrl: string, apiKey = ''): GeocodingProvider => {
+  const commonParams = (options: GeocodeOptions): Record<string, string> => ({
+    ...(apiKey && { api_key: apiKey }),
+    ...(options.language && { lang: options.language }),
+  });
+
+  const areaParams = ({ focus, bounded, country }: GeocodeOptions): Record<string, string> => {
+    const bounds = bounded ? focus?.bounds : undefined;
+    return {
+      ...(focus && { 'focus.point.lat': String(focus.center[1]), 'focus.point.lon': String(focus.center[0]) }),
+      ...(bounds && {
+        'boundary.rect.min_lat': String(bounds.south),
+        'boundary.rect.max_lat': String(bounds.north),
+        'boundary.rect.min_lon': String(bounds.west),
+        'boundary.rect.max_lon': String(bounds.east),
+      }),
+      ...(country && { 'boundary.country': country.toUpperCase() }),
+    };
+  };
+
+  return {
+    engine: 'pelias',
+
+    search: async (query, options = {}) => {
+      const params = new URLSearchParams({
+        text: query,
+        size: String(options.limit ?? DEFAULT_LIMIT),
+        ...commonParams(options),
+        ...areaParams(options),
+      });
+      const data = await fetchJson<PeliasResponse>(`${baseUrl}/v1/search?${params}`, 'Pelias', options.signal);
+      return (data.features ?? []).map(toSearchResult);
+    },
+
+    reverse: async ([lng, lat], options = {}) => {
+      const params = new URLSearchParams({
+        'point.lat': String(lat),
+        'point.lon': String(lng),
+        size: '1',
+        ...commonParams(options),
+      });
+      const data = await fetchJson<PeliasResponse>(`${baseUrl}/v1/reverse?${params}`, 'Pelias', options.signal);
+      const feature = data.features?.[0];
+      return feature ? toSearchResult(feature, 0) : null;
+    },
+  };
+};
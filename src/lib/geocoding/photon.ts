@@ -0,0 +1,83 @@
+import { SearchResult } from '@/types/maps';
+import { GeocodeOptions, GeocodingProvider } from './types';
+import { DEFAULT_LIMIT, fetchJson, joinAddress } from './utils';
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    osm_id?: number;
+    osm_type?: string;
+    osm_value?: string;
+    type?: string;
+    name?: string;
+    housenumber?: string;
+    street?: string;
+    postcode?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    countrycode?: string;
+  };
+}
+
+interface PhotonResponse {
+  features?: PhotonFeature[];
+}
+
+// Photon only translates names into these languages
+const PHOTON_LANGUAGES = ['en', 'de', 'fr', 'it'];
+
+const toSearchResult = ({ geometry, properties }: PhotonFeature, index: number): SearchResult => {
+  const street = [properties.street, properties.housenumber].filter(Boolean).join(' ');
+  const locality = [properties.postcode, properties.city].filter(Boolean).join(' ');
+  const address = joinAddress([properties.name, street, locality, properties.state, properties.country]);
+  return {
+    id: properties.osm_id ? `${properties.osm_type ?? ''}${properties.osm_id}` : index.toString(),
+    name: properties.name || street || address.split(',')[0],
+    address,
+    coordinates: geometry.coordinates,
+    type: properties.osm_value || properties.type || 'place',
+  };
+};
+
+// Photon's result count limits the country filter below, so it's asked for more
+const COUNTRY_FILTER_FACTOR = 4;
+
+const languageParams = (options: GeocodeOptions): Record<string, string> =>
+  options.language && PHOTON_LANGUAGES.includes(options.language) ? { lang: options.language } : {};
+
+const areaParams = ({ focus, bounded }: GeocodeOptions): Record<string, string> => {
+  const bounds = bounded ? focus?.bounds : undefined;
+  return {
+    ...(focus && { lat: String(focus.center[1]), lon: String(focus.center[0]) }),
+    ...(bounds && { bbox: [bounds.west, bounds.south, bounds.east, bounds.north].join(',') }),
+  };
+};
+
+export const createPhotonProvider = (baseUrl: string): GeocodingProvider => ({
+  engine: 'photon',
+
+  search: async (query, options = {}) => {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const { country } = options;
+    const params = new URLSearchParams({
+      q: query,
+      limit: String(country ? limit * COUNTRY_FILTER_FACTOR : limit),
+      ...languageParams(options),
+      ...areaParams(options),
+    });
+    const data = await fetchJson<PhotonResponse>(`${baseUrl}/api/?${params}`, 'Photon', options.signal);
+    // Photon has no country filter of its own
+    return (data.features ?? [])
+      .filter((feature) => !country || feature.properties.countrycode?.toLowerCase() === country.toLowerCase())
+      .slice(0, limit)
+      .map(toSearchResult);
+  },
+
+  reverse: async ([lng, lat], options = {}) => {
+    const params = new URLSearchParams({ lat: String(lat), lon: String(lng), limit: '1', ...languageParams(options) });
+    const data = await fetchJson<PhotonResponse>(`${baseUrl}/reverse?${params}`, 'Photon', options.signal);
+    const feature = data.features?.[0];
+    return feature ? toSearchResult(feature, 0) : null;
+  },
+});
@@ -0,0 +1,32 @@
+import { MapBounds, SearchResult } from '@/types/maps';
+import { GeocodingEngine } from '@/types/settings';
+
+export interface GeocodeOptions {
+  limit?: number;
+  language?: string; // preferred language for names, e.g. "de"
+  // Where the user is looking; places there are preferred
+  focus?: { center: [number, number]; bounds?: MapBounds };
+  bounded?: boolean; // only places inside the focus bounds
+  country?: string; // ISO 3166-1 alpha-2 code to restrict results to, e.g. "de"
+  signal?: AbortSignal;
+}
+
+export interface GeocodingProvider {
+  engine: GeocodingEngine;
+  // Places matching free text, best match first
+  search: (query: string, options?: GeocodeOptions) => Promise<SearchResult[]>;
+  // The place at [longitude, latitude], or null where there's nothing to name
+  reverse: (coordinates: [number, number], options?: GeocodeOptions) => Promise<SearchResult | null>;
+}
+
+export type GeocodingErrorCode = 'InvalidResponse' | 'RequestFailed';
+
+export class GeocodingError extends Error {
+  code: GeocodingErrorCode;
+
+  constructor(code: GeocodingErrorCode, message: string) {
+    super(message);
+    this.name = 'GeocodingError';
+    this.code = code;
+  }
+}
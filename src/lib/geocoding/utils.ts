@@ -0,0 +1,31 @@
+import { politeFetch } from '@/lib/requests';
+import { GeocodingError } from './types';
+
+export const DEFAULT_LIMIT = 5;
+
+// Fetches a geocoder's JSON answer. Cancelled requests reject with the
+// AbortError itself so callers can tell them apart from failures.
+export const fetchJson = async <T>(url: string, service: string, signal?: AbortSignal): Promise<T> => {
+  let response: Response;
+  try {
+    response = await politeFetch(url, { signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new GeocodingError('RequestFailed', `${service} request failed: ${error}`);
+  }
+  if (!response.ok) {
+    throw new GeocodingError('RequestFailed', `${service} request failed: HTTP ${response.status}`);
+  }
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new GeocodingError('InvalidResponse', `${service} returned invalid JSON: ${error}`);
+  }
+};
+
+// Joins address parts, skipping blanks and repeats such as a city named after its state
+export const joinAddress = (parts: (string | undefined)[]): string =>
+  parts
+    .map((part) => part?.trim())
+    .filter((part, index, all): part is string => !!part && all.indexOf(part) === index)
+    .join(', ');
@@ -0,0 +1,70 @@
+import {
+  ar as arDateLocale,
+  de as deDateLocale,
+  enUS,
+  es as esDateLocale,
+  fr as frDateLocale,
+  he as heDateLocale,
+} from 'date-fns/locale';
+import type { Locale as DateLocale } from 'date-fns';
+import { ar } from './locales/ar';
+import { de } from './locales/de';
+import { en } from './locales/en';
+import { es } from './locales/es';
+import { fr } from './locales/fr';
+import { he } from './locales/he';
+import { Locale, MessageKey, Messages, Translate } from './types';
+
+export * from './types';
+
+// Languages offered in the picker, each labelled in its own language
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'es', label: 'Español' },
+  { value: 'fr', label: 'Français' },
+  { value: 'ar', label: 'العربية' },
+  { value: 'he', label: 'עברית' },
+];
+
+const CATALOGUES: Record<Locale, Messages> = { en, de, es, fr, ar, he };
+
+const RTL_LOCALES: Locale[] = ['ar', 'he'];
+
+const DATE_LOCALES: Record<Locale, DateLocale> = {
+  en: enUS,
+  de: deDateLocale,
+  es: esDateLocale,
+  fr: frDateLocale,
+  ar: arDateLocale,
+  he: heDateLocale,
+};
+
+// Whether a key exists, for messages that only some cases have a variant of
+export const hasMessage = (key: string): key is MessageKey => key in en;
+
+export const isLocale = (value: string): value is Locale => value in CATALOGUES;
+
+// The first of the browser's preferred languages we have a catalogue for
+export const detectLocale = (): Locale => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+  const match = preferred.map((language) => language.split('-')[0]).find(isLocale);
+  return match || 'en';
+};
+
+export const textDirection = (locale: Locale): 'ltr' | 'rtl' =>
+  RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+
+export const dateLocale = (locale: Locale): DateLocale => DATE_LOCALES[locale];
+
+// Looks keys up in the locale's catalogue and fills in {placeholders}
+export const createTranslator = (locale: Locale): Translate => {
+  const messages = CATALOGUES[locale] || en;
+  return (key, params) => {
+    const message = messages[key] ?? en[key] ?? key;
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (placeholder, name) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  };
+};
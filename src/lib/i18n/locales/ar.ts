@@ -0,0 +1,286 @@
+import { Messages } from '../types';
+
+export const ar: Messages = {
+  'app.getDirections': 'الاتجاهات',
+  'app.exitDirections': 'إنهاء الاتجاهات',
+  'app.rerouted': 'تم تغيير المسار',
+  'app.reroutedDescription': 'لقد ابتعدت عن المسار، لذلك أُعيد حساب الاتجاهات من موقعك.',
+  'app.toggleTheme': 'تبديل المظهر',
+
+  'notFound.message': 'عذرًا! الصفحة غير موجودة',
+  'notFound.home': 'العودة إلى الصفحة الرئيسية',
+
+  'search.placeholder': 'ابحث عن مكان...',
+  'search.results': 'نتائج البحث',
+  'search.noResults': 'لم يتم العثور على نتائج',
+  'search.recent': 'عمليات البحث الأخيرة',
+  'search.hint': 'ابدأ الكتابة للبحث عن الأماكن',
+  'search.country': 'الدولة',
+  'search.anyCountry': 'أي دولة',
+  'search.thisArea': 'البحث في هذه المنطقة',
+  'search.inThisArea': 'في هذه المنطقة',
+  'search.clearArea': 'البحث في كل مكان',
+
+  'location.selected': 'الموقع المحدد',
+  'location.current': 'الموقع الحالي',
+  'location.error': 'خطأ في الموقع',
+  'location.denied': 'تم رفض الوصول إلى الموقع. يرجى تفعيل أذونات الموقع.',
+  'location.unavailable': 'معلومات الموقع غير متوفرة.',
+  'location.timeout': 'انتهت مهلة طلب الموقع.',
+  'location.failed': 'تعذر تحديد موقعك.',
+  'location.unsupported': 'هذا المتصفح لا يدعم تحديد الموقع الجغرافي.',
+
+  'coordinates.decimal': 'درجات عشرية',
+  'coordinates.dms': 'درجات ودقائق وثوانٍ',
+  'coordinates.pluscode': 'رمز Plus',
+  'coordinates.geohash': 'Geohash',
+  'coordinates.utm': 'UTM',
+  'coordinates.mgrs': 'MGRS',
+  'coordinates.format': 'تنسيق الإحداثيات',
+  'coordinates.copy': 'نسخ الإحداثيات',
+  'coordinates.copied': 'تم نسخ الإحداثيات',
+  'coordinates.copyFailed': 'تعذّر نسخ الإحداثيات',
+  'coordinates.parsed': 'إحداثيات ({format})',
+
+  'map.loading': 'جارٍ تحميل الخريطة...',
+  'map.myLocation': 'موقعي',
+  'map.error': 'خطأ',
+  'map.initFailed': 'تعذر تحميل الخريطة.',
+  'map.selectRoute': 'انقر لاختيار هذا المسار',
+  'map.ferry': 'عبّارة: {instruction} ({distance})',
+  'map.step': 'الخطوة {number}: {instruction} ({distance})',
+  'map.stop': 'التوقف {number}: {name}',
+
+  'mode.driving': 'بالسيارة',
+  'mode.cycling': 'بالدراجة',
+  'mode.walking': 'سيرًا على الأقدام',
+  'mode.wheelchair': 'بالكرسي المتحرك',
+
+  'avoidance.tolls': 'الطرق ذات الرسوم',
+  'avoidance.highways': 'الطرق السريعة',
+  'avoidance.ferries': 'العبّارات',
+  'avoidance.unpaved': 'الطرق غير المعبدة',
+  'avoidance.tolls.avoided': 'يتجنب الرسوم',
+  'avoidance.highways.avoided': 'يتجنب الطرق السريعة',
+  'avoidance.ferries.avoided': 'يتجنب العبّارات',
+  'avoidance.unpaved.avoided': 'يتجنب الطرق غير المعبدة',
+  'avoidance.tolls.used': 'يمر بطرق ذات رسوم',
+  'avoidance.highways.used': 'يمر بطرق سريعة',
+  'avoidance.ferries.used': 'يستخدم العبّارات',
+  'avoidance.unpaved.used': 'يمر بطرق غير معبدة',
+
+  'tripTime.now': 'المغادرة الآن',
+  'tripTime.depart': 'المغادرة في',
+  'tripTime.arrive': 'الوصول قبل',
+
+  'directions.origin': 'اختر نقطة البداية',
+  'directions.destination': 'اختر الوجهة',
+  'directions.stop': 'التوقف {number}',
+  'directions.dragStop': 'اسحب لإعادة ترتيب التوقف',
+  'directions.removeStop': 'إزالة التوقف',
+  'directions.addStop': 'إضافة توقف',
+  'directions.optimize': 'تحسين الترتيب',
+  'directions.keepStart': 'الإبقاء على نقطة البداية',
+  'directions.keepDestination': 'الإبقاء على الوجهة',
+  'directions.options': 'خيارات المسار',
+  'directions.avoid': 'تجنب',
+  'directions.calculating': 'جارٍ الحساب...',
+  'directions.submit': 'احسب الاتجاهات',
+  'directions.invalidResponse': 'تعذر حساب المسار. جرّب أماكن أخرى أو تحقق من إمكانية الوصول إلى الوجهات عبر الطرق.',
+  'directions.requestFailed': 'فشل حساب المسار. يرجى التحقق من اتصالك بالإنترنت والمحاولة مرة أخرى.',
+  'directions.optimizeFailed': 'تعذر تحسين ترتيب التوقفات. حاول مرة أخرى أو أعد ترتيبها يدويًا.',
+  'directions.noRouteTitle': 'لا يوجد مسار بري',
+  'directions.noRoute': 'لا يوجد مسار أو خط عبّارة بين هذه الأماكن بوسيلة التنقل هذه. قد يفصل بينها الماء أو تقع خارج شبكة الطرق.',
+  'directions.straightLine': 'المسافة المباشرة: {distance}',
+  'directions.leaveBy': 'غادر قبل {departure} لتصل في {arrival}',
+  'directions.arrive': 'الوصول {arrival}',
+  'directions.arriveIfLeaving': 'الوصول {arrival} إذا غادرت في {departure}',
+  'directions.cannotAvoid': 'لم يتمكن أي مسار من تجنب ذلك',
+  'directions.startNavigation': 'بدء الملاحة',
+  'directions.ferryWarning': 'يتضمن هذا المسار عبورًا بالعبّارة. تحقق من جدول المواعيد، فأوقات الانتظار غير محتسبة في التقدير.',
+  'directions.routes': 'المسارات',
+  'directions.via': 'عبر {roads}',
+  'directions.ferry': 'عبّارة',
+  'directions.toll': 'رسوم',
+  'directions.optimizeSavings': 'يوفر الترتيب المحسّن {duration} مقارنة بالترتيب الأصلي.',
+  'directions.optimizeNoSavings': 'كان الترتيب الأصلي هو الأسرع بالفعل.',
+  'directions.turnByTurn': 'الاتجاهات خطوة بخطوة',
+  'directions.leg': 'المرحلة {number}: {origin} ← {destination}',
+  'directions.legSummary': '{number}. {origin} ← {destination}',
+  'directions.tips': 'نصائح',
+  'directions.tipMap': 'انقر على الخريطة لتحديد الوجهة',
+  'directions.tipLocation': 'استخدم زر "موقعي" لتحديد موقعك الحالي',
+  'directions.tipMode': 'اختر وسيلة التنقل قبل حساب الاتجاهات',
+
+  'export.title': 'تصدير المسار',
+  'export.routeName': 'المسار من {origin} إلى {destination}',
+
+  'layers.title': 'طبقات الخريطة',
+  'layers.base': 'الخريطة الأساسية',
+  'layers.overlays': 'الطبقات الإضافية',
+  'layers.standard': 'قياسية',
+  'layers.topo': 'طبوغرافية',
+  'layers.cycle': 'ركوب الدراجات',
+  'layers.dark': 'داكنة',
+  'layers.satellite': 'قمر صناعي',
+  'layers.hillshading': 'تظليل التضاريس',
+  'layers.rail': 'السكك الحديدية',
+  'layers.cycleRoutes': 'مسارات الدراجات',
+  'offline.title': 'خرائط بلا اتصال',
+  'offline.description': 'احفظ الخريطة حول العرض الحالي لتعمل دون اتصال.',
+  'offline.name': 'الاسم',
+  'offline.defaultName': 'منطقة محفوظة في {date}',
+  'offline.zoomLevels': 'مستويات التكبير {min}–{max}',
+  'offline.estimate': '{count} بلاطة، حوالي {size}',
+  'offline.tooMany': 'هذا أكثر من {max} بلاطة. كبّر الخريطة أو خفّض أعلى مستوى تكبير.',
+  'offline.wmsSkipped': 'لا يمكن حفظ طبقات WMS وسيتم تجاهلها.',
+  'offline.download': 'تنزيل هذه المنطقة',
+  'offline.progress': '{done} من {total} بلاطة',
+  'offline.cancel': 'إلغاء',
+  'offline.saved': 'تم حفظ {name} للاستخدام دون اتصال',
+  'offline.savedWithFailures': 'تعذر تنزيل {failed} بلاطة.',
+  'offline.failed': 'تعذر حفظ المنطقة',
+  'offline.unsupported': 'لا يستطيع هذا المتصفح تخزين الخرائط للاستخدام دون اتصال.',
+  'offline.noSources': 'لا يمكن حفظ أي من الطبقات المعروضة.',
+  'offline.regions': 'المناطق المحفوظة',
+  'offline.noRegions': 'لا توجد مناطق محفوظة بعد.',
+  'offline.regionDetails': '{size} · تنتهي في {date}',
+  'offline.delete': 'حذف {name}',
+  'offline.deleteFailed': 'تعذر حذف {name}',
+  'overlays.title': 'الطبقات',
+  'overlays.import': 'استيراد',
+  'overlays.hint': 'أفلت ملفات GPX أو KML أو KMZ أو GeoJSON على الخريطة، أو استوردها من هنا.',
+  'overlays.drop': 'أفلت الملفات لإضافتها إلى الخريطة',
+  'overlays.show': 'إظهار {name}',
+  'overlays.remove': 'إزالة الطبقة',
+  'overlays.useAsRoute': 'استخدام كمسار',
+  'overlays.importFailed': 'تعذّر استيراد {name}',
+  'overlays.unsupported': 'نوع الملف هذا غير مدعوم.',
+  'overlays.invalid': 'تعذّرت قراءة الملف. قد يكون تالفًا أو بتنسيق مختلف عمّا يوحي به اسمه.',
+  'overlays.empty': 'لا يحتوي الملف على شيء يمكن عرضه على الخريطة.',
+  'overlays.trackStart': 'بداية {name}',
+  'overlays.trackEnd': 'نهاية {name}',
+
+  'elevation.title': 'الارتفاع',
+  'elevation.ascent': 'الصعود',
+  'elevation.descent': 'النزول',
+  'elevation.maxGrade': 'أقصى انحدار',
+  'elevation.loading': 'جارٍ تحميل الارتفاعات...',
+  'elevation.unavailable': 'بيانات الارتفاع غير متوفرة لهذا المسار.',
+
+  'navigation.waiting': 'في انتظار موقعك…',
+  'navigation.rerouting': 'جارٍ إعادة حساب المسار…',
+  'navigation.arrived': 'لقد وصلت إلى {name}',
+  'navigation.eta': 'الوصول {time}',
+  'navigation.mute': 'كتم الإرشاد الصوتي',
+  'navigation.unmute': 'تشغيل الإرشاد الصوتي',
+  'navigation.stop': 'إيقاف الملاحة',
+  'navigation.rerouteFailed': 'فشلت إعادة حساب المسار',
+  'navigation.rerouteFailedDescription': 'تعذر العثور على مسار جديد من موقعك. حاول العودة إلى المسار.',
+
+  'settings.title': 'الإعدادات',
+  'settings.description': 'تُحفظ التفضيلات في هذا المتصفح.',
+  'settings.display': 'العرض',
+  'settings.language': 'اللغة',
+  'settings.units': 'الوحدات',
+  'settings.routing': 'المسارات',
+  'settings.engine': 'محرك المسارات',
+  'settings.serverUrl': 'عنوان الخادم',
+  'settings.serverUrlHint': 'أدخل عنوان خادم خاص بك، أو اتركه فارغًا لاستخدام الخادم العام.',
+  'settings.graphhopperApiKey': 'مفتاح GraphHopper API',
+  'settings.search': 'البحث',
+  'settings.geocoder': 'خدمة الترميز الجغرافي',
+  'settings.nominatimEmail': 'البريد الإلكتروني للتواصل',
+  'settings.nominatimEmailHint': 'يُرسل مع كل طلب ليتمكن مشغلو Nominatim من التواصل معك، كما تطلب سياسة الاستخدام لديهم.',
+  'settings.peliasApiKey': 'مفتاح واجهة Pelias البرمجية',
+  'settings.navigation': 'الملاحة',
+  'settings.simulatePosition': 'محاكاة الموقع',
+  'settings.simulatePositionHint': 'السير على المسار بدلًا من تتبع GPS، لتجربة الملاحة.',
+  'settings.offRouteThreshold': 'إعادة الحساب عند الابتعاد عن المسار بمقدار (متر)',
+  'settings.voiceGuidance': 'الإرشاد الصوتي',
+  'settings.voiceGuidanceHint': 'قراءة المنعطفات القادمة بصوت عالٍ أثناء الملاحة.',
+  'settings.voiceVolume': 'مستوى الصوت',
+  'settings.elevation': 'الارتفاع',
+  'settings.elevationSource': 'بيانات الارتفاع',
+  'settings.elevationUrlHint': 'لبلاطات التضاريس، استخدم قالب عنوان URL يحتوي على {z} و{x} و{y}.',
+  'settings.map': 'الخريطة',
+  'settings.satelliteUrl': 'عنوان URL لصور الأقمار الصناعية',
+  'settings.satelliteUrlHint': 'قالب عنوان URL يحتوي على {z} و{x} و{y} من مزود الصور.',
+  'settings.customLayers': 'طبقات مخصصة',
+  'settings.customLayersHint': 'أضف خوادم بلاطات XYZ أو WMS، مثل خادم مؤسستك.',
+  'settings.layerName': 'الاسم',
+  'settings.layerUrl': 'عنوان URL',
+  'settings.layerType': 'النوع',
+  'settings.layerRole': 'العرض كـ',
+  'settings.wmsLayers': 'طبقات WMS',
+  'settings.addLayer': 'إضافة طبقة',
+  'settings.removeLayer': 'إزالة {name}',
+  'settings.layerProblem.missingName': 'أدخل اسمًا للطبقة.',
+  'settings.layerProblem.invalidUrl': 'يجب أن يبدأ عنوان URL بـ http:// أو https://.',
+  'settings.layerProblem.missingPlaceholders': 'يجب أن تحتوي عناوين XYZ على {z} و{x} و{y}.',
+  'settings.layerProblem.missingWmsLayers': 'أدخل طبقات WMS المطلوبة مفصولة بفواصل.',
+
+  'units.metric': 'متري (كم، م)',
+  'units.imperial': 'إمبراطوري (ميل، قدم)',
+  'units.uk': 'بريطاني (ميل، ياردة)',
+
+  'voice.approaching': 'بعد {distance}، {instruction}',
+  'voice.meters': '{count} متر',
+  'voice.kilometer': 'كيلومتر واحد',
+  'voice.kilometers': '{count} كيلومتر',
+  'voice.mile': 'ميل واحد',
+  'voice.miles': '{count} ميل',
+  'voice.feet': '{count} قدم',
+  'voice.yards': '{count} ياردة',
+
+  'side.left': 'يسارًا',
+  'side.right': 'يمينًا',
+  'side.straight': 'مستقيمًا',
+
+  'cardinal.north': 'الشمال',
+  'cardinal.northeast': 'الشمال الشرقي',
+  'cardinal.east': 'الشرق',
+  'cardinal.southeast': 'الجنوب الشرقي',
+  'cardinal.south': 'الجنوب',
+  'cardinal.southwest': 'الجنوب الغربي',
+  'cardinal.west': 'الغرب',
+  'cardinal.northwest': 'الشمال الغربي',
+
+  'maneuver.depart': 'اتجه نحو {direction}',
+  'maneuver.depart.street': 'اتجه نحو {direction} على {street}',
+  'maneuver.start': 'ابدأ',
+  'maneuver.start.street': 'ابدأ على {street}',
+  'maneuver.arrive': 'الوصول إلى {stop}',
+  'maneuver.arrive.destination': 'الوصول إلى وجهتك',
+  'maneuver.arrive.stop': 'الوصول إلى التوقف',
+  'maneuver.merge': 'اندمج',
+  'maneuver.merge.street': 'اندمج في {street}',
+  'maneuver.onRamp': 'اسلك المنحدر',
+  'maneuver.onRamp.street': 'اسلك المنحدر إلى {street}',
+  'maneuver.offRamp': 'اسلك المخرج',
+  'maneuver.offRamp.street': 'اسلك المخرج نحو {street}',
+  'maneuver.fork': 'عند التفرع، ابقَ {side}',
+  'maneuver.fork.street': 'عند التفرع، ابقَ {side} نحو {street}',
+  'maneuver.endOfRoad': 'في نهاية الطريق، انعطف {side}',
+  'maneuver.endOfRoad.street': 'في نهاية الطريق، انعطف {side} إلى {street}',
+  'maneuver.roundabout': 'ادخل الدوار',
+  'maneuver.roundabout.street': 'عند الدوار، تابع إلى {street}',
+  'maneuver.roundabout.exit': 'عند الدوار، اسلك المخرج {exit}',
+  'maneuver.roundabout.exit.street': 'عند الدوار، اسلك المخرج {exit} إلى {street}',
+  'maneuver.exitRoundabout': 'اخرج من الدوار',
+  'maneuver.exitRoundabout.street': 'اخرج من الدوار إلى {street}',
+  'maneuver.ferry': 'استقل العبّارة',
+  'maneuver.ferry.street': 'استقل العبّارة {street}',
+  'maneuver.continue': 'تابع مستقيمًا',
+  'maneuver.continue.street': 'تابع على {street}',
+  'maneuver.uturn': 'استدر للخلف',
+  'maneuver.uturn.street': 'استدر للخلف إلى {street}',
+  'maneuver.straight': 'امضِ مستقيمًا',
+  'maneuver.straight.street': 'امضِ مستقيمًا إلى {street}',
+  'maneuver.turn': 'انعطف {side}',
+  'maneuver.turn.street': 'انعطف {side} إلى {street}',
+  'maneuver.slight': 'انعطف قليلًا {side}',
+  'maneuver.slight.street': 'انعطف قليلًا {side} إلى {street}',
+  'maneuver.sharp': 'انعطف بحدة {side}',
+  'maneuver.sharp.street': 'انعطف بحدة {side} إلى {street}',
+};
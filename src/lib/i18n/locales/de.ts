@@ -0,0 +1,286 @@
+import { Messages } from '../types';
+
+export const de: Messages = {
+  'app.getDirections': 'Route planen',
+  'app.exitDirections': 'Routenplanung beenden',
+  'app.rerouted': 'Neue Route',
+  'app.reroutedDescription': 'Du hast die Route verlassen, deshalb wurde sie ab deiner Position neu berechnet.',
+  'app.toggleTheme': 'Design umschalten',
+
+  'notFound.message': 'Hoppla! Seite nicht gefunden',
+  'notFound.home': 'Zur Startseite',
+
+  'search.placeholder': 'Ort suchen...',
+  'search.results': 'Suchergebnisse',
+  'search.noResults': 'Keine Ergebnisse gefunden',
+  'search.recent': 'Letzte Suchen',
+  'search.hint': 'Tippe, um nach Orten zu suchen',
+  'search.country': 'Land',
+  'search.anyCountry': 'Alle Länder',
+  'search.thisArea': 'In diesem Bereich suchen',
+  'search.inThisArea': 'In diesem Bereich',
+  'search.clearArea': 'Überall suchen',
+
+  'location.selected': 'Ausgewählter Ort',
+  'location.current': 'Aktueller Standort',
+  'location.error': 'Standortfehler',
+  'location.denied': 'Standortzugriff verweigert. Bitte erlaube den Zugriff auf deinen Standort.',
+  'location.unavailable': 'Standortinformationen sind nicht verfügbar.',
+  'location.timeout': 'Die Standortabfrage hat zu lange gedauert.',
+  'location.failed': 'Dein Standort konnte nicht ermittelt werden.',
+  'location.unsupported': 'Dieser Browser unterstützt keine Standortbestimmung.',
+
+  'coordinates.decimal': 'Dezimalgrad',
+  'coordinates.dms': 'Grad, Minuten, Sekunden',
+  'coordinates.pluscode': 'Plus Code',
+  'coordinates.geohash': 'Geohash',
+  'coordinates.utm': 'UTM',
+  'coordinates.mgrs': 'MGRS',
+  'coordinates.format': 'Koordinatenformat',
+  'coordinates.copy': 'Koordinaten kopieren',
+  'coordinates.copied': 'Koordinaten kopiert',
+  'coordinates.copyFailed': 'Koordinaten konnten nicht kopiert werden',
+  'coordinates.parsed': 'Koordinaten ({format})',
+
+  'map.loading': 'Karte wird geladen...',
+  'map.myLocation': 'Mein Standort',
+  'map.error': 'Fehler',
+  'map.initFailed': 'Die Karte konnte nicht geladen werden.',
+  'map.selectRoute': 'Klicken, um diese Route zu wählen',
+  'map.ferry': 'Fähre: {instruction} ({distance})',
+  'map.step': 'Schritt {number}: {instruction} ({distance})',
+  'map.stop': 'Halt {number}: {name}',
+
+  'mode.driving': 'Auto',
+  'mode.cycling': 'Fahrrad',
+  'mode.walking': 'Zu Fuß',
+  'mode.wheelchair': 'Rollstuhl',
+
+  'avoidance.tolls': 'Mautstraßen',
+  'avoidance.highways': 'Autobahnen',
+  'avoidance.ferries': 'Fähren',
+  'avoidance.unpaved': 'Unbefestigte Straßen',
+  'avoidance.tolls.avoided': 'Ohne Maut',
+  'avoidance.highways.avoided': 'Ohne Autobahnen',
+  'avoidance.ferries.avoided': 'Ohne Fähren',
+  'avoidance.unpaved.avoided': 'Ohne unbefestigte Straßen',
+  'avoidance.tolls.used': 'Mit Maut',
+  'avoidance.highways.used': 'Mit Autobahnen',
+  'avoidance.ferries.used': 'Mit Fähren',
+  'avoidance.unpaved.used': 'Mit unbefestigten Straßen',
+
+  'tripTime.now': 'Jetzt losfahren',
+  'tripTime.depart': 'Abfahrt um',
+  'tripTime.arrive': 'Ankunft bis',
+
+  'directions.origin': 'Startpunkt wählen',
+  'directions.destination': 'Ziel wählen',
+  'directions.stop': 'Halt {number}',
+  'directions.dragStop': 'Ziehen, um den Halt zu verschieben',
+  'directions.removeStop': 'Halt entfernen',
+  'directions.addStop': 'Halt hinzufügen',
+  'directions.optimize': 'Reihenfolge optimieren',
+  'directions.keepStart': 'Startpunkt beibehalten',
+  'directions.keepDestination': 'Ziel beibehalten',
+  'directions.options': 'Routenoptionen',
+  'directions.avoid': 'Vermeiden',
+  'directions.calculating': 'Wird berechnet...',
+  'directions.submit': 'Route berechnen',
+  'directions.invalidResponse': 'Die Route konnte nicht berechnet werden. Versuche andere Orte oder prüfe, ob die Ziele über Straßen erreichbar sind.',
+  'directions.requestFailed': 'Die Routenberechnung ist fehlgeschlagen. Bitte prüfe deine Internetverbindung und versuche es erneut.',
+  'directions.optimizeFailed': 'Die Reihenfolge der Halte konnte nicht optimiert werden. Versuche es erneut oder ordne die Halte selbst.',
+  'directions.noRouteTitle': 'Keine Landverbindung',
+  'directions.noRoute': 'Zwischen diesen Orten gibt es mit diesem Verkehrsmittel keine Route und keine Fährverbindung. Sie sind vielleicht durch Wasser getrennt oder liegen abseits des Straßennetzes.',
+  'directions.straightLine': 'Luftlinie: {distance}',
+  'directions.leaveBy': 'Spätestens um {departure} losfahren, um {arrival} anzukommen',
+  'directions.arrive': 'Ankunft {arrival}',
+  'directions.arriveIfLeaving': 'Ankunft {arrival} bei Abfahrt um {departure}',
+  'directions.cannotAvoid': 'Keine Route konnte dies vermeiden',
+  'directions.startNavigation': 'Navigation starten',
+  'directions.ferryWarning': 'Diese Route enthält eine Fährüberfahrt. Prüfe den Fahrplan, denn Wartezeiten sind in der Schätzung nicht enthalten.',
+  'directions.routes': 'Routen',
+  'directions.via': 'über {roads}',
+  'directions.ferry': 'Fähre',
+  'directions.toll': 'Maut',
+  'directions.optimizeSavings': 'Die optimierte Reihenfolge spart {duration} gegenüber der ursprünglichen.',
+  'directions.optimizeNoSavings': 'Die ursprüngliche Reihenfolge war bereits die schnellste, die wir gefunden haben.',
+  'directions.turnByTurn': 'Wegbeschreibung',
+  'directions.leg': 'Abschnitt {number}: {origin} → {destination}',
+  'directions.legSummary': '{number}. {origin} → {destination}',
+  'directions.tips': 'Tipps',
+  'directions.tipMap': 'Klicke auf die Karte, um das Ziel festzulegen',
+  'directions.tipLocation': 'Nutze „Mein Standort“ für deine aktuelle Position',
+  'directions.tipMode': 'Wähle vor der Routenplanung ein Verkehrsmittel',
+
+  'export.title': 'Route exportieren',
+  'export.routeName': 'Route von {origin} nach {destination}',
+
+  'layers.title': 'Kartenebenen',
+  'layers.base': 'Grundkarte',
+  'layers.overlays': 'Überlagerungen',
+  'layers.standard': 'Standard',
+  'layers.topo': 'Topografisch',
+  'layers.cycle': 'Radfahren',
+  'layers.dark': 'Dunkel',
+  'layers.satellite': 'Satellit',
+  'layers.hillshading': 'Schummerung',
+  'layers.rail': 'Eisenbahn',
+  'layers.cycleRoutes': 'Radrouten',
+  'offline.title': 'Offline-Karten',
+  'offline.description': 'Die Karte rund um die aktuelle Ansicht speichern, damit sie auch ohne Verbindung funktioniert.',
+  'offline.name': 'Name',
+  'offline.defaultName': 'Gebiet vom {date}',
+  'offline.zoomLevels': 'Zoomstufen {min}–{max}',
+  'offline.estimate': '{count} Kacheln, etwa {size}',
+  'offline.tooMany': 'Das sind mehr als {max} Kacheln. Hineinzoomen oder die höchste Zoomstufe verringern.',
+  'offline.wmsSkipped': 'WMS-Ebenen können nicht gespeichert werden und werden ausgelassen.',
+  'offline.download': 'Dieses Gebiet herunterladen',
+  'offline.progress': '{done} von {total} Kacheln',
+  'offline.cancel': 'Abbrechen',
+  'offline.saved': '{name} für die Offline-Nutzung gespeichert',
+  'offline.savedWithFailures': '{failed} Kacheln konnten nicht heruntergeladen werden.',
+  'offline.failed': 'Das Gebiet konnte nicht gespeichert werden',
+  'offline.unsupported': 'Dieser Browser kann keine Karten offline speichern.',
+  'offline.noSources': 'Keine der angezeigten Ebenen kann gespeichert werden.',
+  'offline.regions': 'Gespeicherte Gebiete',
+  'offline.noRegions': 'Noch keine Gebiete gespeichert.',
+  'offline.regionDetails': '{size} · läuft am {date} ab',
+  'offline.delete': '{name} löschen',
+  'offline.deleteFailed': '{name} konnte nicht gelöscht werden',
+  'overlays.title': 'Ebenen',
+  'overlays.import': 'Importieren',
+  'overlays.hint': 'GPX-, KML-, KMZ- oder GeoJSON-Dateien auf die Karte ziehen oder hier importieren.',
+  'overlays.drop': 'Dateien ablegen, um sie der Karte hinzuzufügen',
+  'overlays.show': '{name} anzeigen',
+  'overlays.remove': 'Ebene entfernen',
+  'overlays.useAsRoute': 'Als Route verwenden',
+  'overlays.importFailed': '{name} konnte nicht importiert werden',
+  'overlays.unsupported': 'Dieser Dateityp wird nicht unterstützt.',
+  'overlays.invalid': 'Die Datei konnte nicht gelesen werden. Sie ist möglicherweise beschädigt oder hat ein anderes Format als angegeben.',
+  'overlays.empty': 'Die Datei enthält nichts, was auf der Karte angezeigt werden kann.',
+  'overlays.trackStart': 'Start von {name}',
+  'overlays.trackEnd': 'Ende von {name}',
+
+  'elevation.title': 'Höhenprofil',
+  'elevation.ascent': 'Anstieg',
+  'elevation.descent': 'Abstieg',
+  'elevation.maxGrade': 'Max. Steigung',
+  'elevation.loading': 'Höhendaten werden geladen...',
+  'elevation.unavailable': 'Für diese Route sind keine Höhendaten verfügbar.',
+
+  'navigation.waiting': 'Warte auf deine Position…',
+  'navigation.rerouting': 'Route wird neu berechnet…',
+  'navigation.arrived': 'Du hast {name} erreicht',
+  'navigation.eta': 'Ankunft {time}',
+  'navigation.mute': 'Sprachansagen stummschalten',
+  'navigation.unmute': 'Sprachansagen einschalten',
+  'navigation.stop': 'Navigation beenden',
+  'navigation.rerouteFailed': 'Neuberechnung fehlgeschlagen',
+  'navigation.rerouteFailedDescription': 'Von deiner Position aus wurde keine neue Route gefunden. Versuche, zur Route zurückzukehren.',
+
+  'settings.title': 'Einstellungen',
+  'settings.description': 'Einstellungen werden in diesem Browser gespeichert.',
+  'settings.display': 'Anzeige',
+  'settings.language': 'Sprache',
+  'settings.units': 'Einheiten',
+  'settings.routing': 'Routing',
+  'settings.engine': 'Routing-Dienst',
+  'settings.serverUrl': 'Server-URL',
+  'settings.serverUrlHint': 'Trage hier einen eigenen Server ein, oder lass das Feld leer für den öffentlichen Server.',
+  'settings.graphhopperApiKey': 'GraphHopper-API-Schlüssel',
+  'settings.search': 'Suche',
+  'settings.geocoder': 'Geocoding-Dienst',
+  'settings.nominatimEmail': 'Kontakt-E-Mail',
+  'settings.nominatimEmailHint': 'Wird mit jeder Anfrage gesendet, damit die Betreiber von Nominatim dich erreichen können, wie es ihre Nutzungsrichtlinie verlangt.',
+  'settings.peliasApiKey': 'Pelias-API-Schlüssel',
+  'settings.navigation': 'Navigation',
+  'settings.simulatePosition': 'Position simulieren',
+  'settings.simulatePositionHint': 'Fährt die Route ab, statt GPS zu folgen – zum Ausprobieren der Navigation.',
+  'settings.offRouteThreshold': 'Neu berechnen ab Abweichung von (Metern)',
+  'settings.voiceGuidance': 'Sprachansagen',
+  'settings.voiceGuidanceHint': 'Kommende Abbiegungen während der Navigation vorlesen.',
+  'settings.voiceVolume': 'Lautstärke der Ansagen',
+  'settings.elevation': 'Höhe',
+  'settings.elevationSource': 'Höhendaten',
+  'settings.elevationUrlHint': 'Für Geländekacheln eine URL-Vorlage mit {z}, {x} und {y} angeben.',
+  'settings.map': 'Karte',
+  'settings.satelliteUrl': 'URL für Satellitenbilder',
+  'settings.satelliteUrlHint': 'Eine URL-Vorlage mit {z}, {x} und {y} von Ihrem Bildanbieter.',
+  'settings.customLayers': 'Eigene Ebenen',
+  'settings.customLayersHint': 'XYZ- oder WMS-Kachelserver hinzufügen, etwa den Ihrer Organisation.',
+  'settings.layerName': 'Name',
+  'settings.layerUrl': 'URL',
+  'settings.layerType': 'Typ',
+  'settings.layerRole': 'Anzeigen als',
+  'settings.wmsLayers': 'WMS-Ebenen',
+  'settings.addLayer': 'Ebene hinzufügen',
+  'settings.removeLayer': '{name} entfernen',
+  'settings.layerProblem.missingName': 'Geben Sie einen Namen für die Ebene ein.',
+  'settings.layerProblem.invalidUrl': 'Die URL muss mit http:// oder https:// beginnen.',
+  'settings.layerProblem.missingPlaceholders': 'XYZ-URLs müssen {z}, {x} und {y} enthalten.',
+  'settings.layerProblem.missingWmsLayers': 'Geben Sie die abzufragenden WMS-Ebenen durch Kommas getrennt ein.',
+
+  'units.metric': 'Metrisch (km, m)',
+  'units.imperial': 'Imperial (mi, ft)',
+  'units.uk': 'Britisch (mi, yd)',
+
+  'voice.approaching': 'In {distance} {instruction}',
+  'voice.meters': '{count} Metern',
+  'voice.kilometer': 'einem Kilometer',
+  'voice.kilometers': '{count} Kilometern',
+  'voice.mile': 'einer Meile',
+  'voice.miles': '{count} Meilen',
+  'voice.feet': '{count} Fuß',
+  'voice.yards': '{count} Yards',
+
+  'side.left': 'links',
+  'side.right': 'rechts',
+  'side.straight': 'geradeaus',
+
+  'cardinal.north': 'Norden',
+  'cardinal.northeast': 'Nordosten',
+  'cardinal.east': 'Osten',
+  'cardinal.southeast': 'Südosten',
+  'cardinal.south': 'Süden',
+  'cardinal.southwest': 'Südwesten',
+  'cardinal.west': 'Westen',
+  'cardinal.northwest': 'Nordwesten',
+
+  'maneuver.depart': 'Richtung {direction} starten',
+  'maneuver.depart.street': 'Richtung {direction} auf {street} starten',
+  'maneuver.start': 'Losfahren',
+  'maneuver.start.street': 'Auf {street} losfahren',
+  'maneuver.arrive': '{stop} erreicht',
+  'maneuver.arrive.destination': 'Ziel erreicht',
+  'maneuver.arrive.stop': 'Halt erreicht',
+  'maneuver.merge': 'Einfädeln',
+  'maneuver.merge.street': 'Auf {street} einfädeln',
+  'maneuver.onRamp': 'Auffahrt nehmen',
+  'maneuver.onRamp.street': 'Auffahrt auf {street} nehmen',
+  'maneuver.offRamp': 'Ausfahrt nehmen',
+  'maneuver.offRamp.street': 'Ausfahrt Richtung {street} nehmen',
+  'maneuver.fork': 'An der Gabelung {side} halten',
+  'maneuver.fork.street': 'An der Gabelung {side} halten auf {street}',
+  'maneuver.endOfRoad': 'Am Ende der Straße {side} abbiegen',
+  'maneuver.endOfRoad.street': 'Am Ende der Straße {side} abbiegen auf {street}',
+  'maneuver.roundabout': 'In den Kreisverkehr fahren',
+  'maneuver.roundabout.street': 'Im Kreisverkehr weiter auf {street}',
+  'maneuver.roundabout.exit': 'Im Kreisverkehr die Ausfahrt {exit} nehmen',
+  'maneuver.roundabout.exit.street': 'Im Kreisverkehr die Ausfahrt {exit} auf {street} nehmen',
+  'maneuver.exitRoundabout': 'Kreisverkehr verlassen',
+  'maneuver.exitRoundabout.street': 'Kreisverkehr auf {street} verlassen',
+  'maneuver.ferry': 'Fähre nehmen',
+  'maneuver.ferry.street': 'Fähre {street} nehmen',
+  'maneuver.continue': 'Geradeaus weiter',
+  'maneuver.continue.street': 'Weiter auf {street}',
+  'maneuver.uturn': 'Wenden',
+  'maneuver.uturn.street': 'Wenden auf {street}',
+  'maneuver.straight': 'Geradeaus',
+  'maneuver.straight.street': 'Geradeaus auf {street}',
+  'maneuver.turn': '{side} abbiegen',
+  'maneuver.turn.street': '{side} abbiegen auf {street}',
+  'maneuver.slight': 'Leicht {side} halten',
+  'maneuver.slight.street': 'Leicht {side} halten auf {street}',
+  'maneuver.sharp': 'Scharf {side} abbiegen',
+  'maneuver.sharp.street': 'Scharf {side} abbiegen auf {street}',
+};
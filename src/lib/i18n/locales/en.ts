@@ -0,0 +1,286 @@
+// The reference catalogue: every other locale must provide the same keys.
+// Placeholders in braces are filled in by the translator.
+export const en = {
+  'app.getDirections': 'Get Directions',
+  'app.exitDirections': 'Exit Directions',
+  'app.rerouted': 'Rerouted',
+  'app.reroutedDescription': 'You left the route, so directions were recalculated from your position.',
+  'app.toggleTheme': 'Toggle theme',
+
+  'notFound.message': 'Oops! Page not found',
+  'notFound.home': 'Return to Home',
+
+  'search.placeholder': 'Search for a place...',
+  'search.results': 'Search Results',
+  'search.noResults': 'No results found',
+  'search.recent': 'Recent Searches',
+  'search.hint': 'Start typing to search for locations',
+  'search.country': 'Country',
+  'search.anyCountry': 'Any country',
+  'search.thisArea': 'Search this area',
+  'search.inThisArea': 'In this area',
+  'search.clearArea': 'Search everywhere',
+
+  'location.selected': 'Selected Location',
+  'location.current': 'Current Location',
+  'location.error': 'Location Error',
+  'location.denied': 'Location access denied. Please enable location permissions.',
+  'location.unavailable': 'Location information is unavailable.',
+  'location.timeout': 'Location request timed out.',
+  'location.failed': 'Unable to retrieve your location.',
+  'location.unsupported': 'Geolocation is not supported by this browser.',
+
+  'coordinates.decimal': 'Decimal degrees',
+  'coordinates.dms': 'Degrees, minutes, seconds',
+  'coordinates.pluscode': 'Plus code',
+  'coordinates.geohash': 'Geohash',
+  'coordinates.utm': 'UTM',
+  'coordinates.mgrs': 'MGRS',
+  'coordinates.format': 'Coordinate format',
+  'coordinates.copy': 'Copy coordinates',
+  'coordinates.copied': 'Coordinates copied',
+  'coordinates.copyFailed': 'Couldn’t copy the coordinates',
+  'coordinates.parsed': 'Coordinates ({format})',
+
+  'map.loading': 'Loading map...',
+  'map.myLocation': 'My Location',
+  'map.error': 'Error',
+  'map.initFailed': 'Failed to initialize map.',
+  'map.selectRoute': 'Click to select this route',
+  'map.ferry': 'Ferry: {instruction} ({distance})',
+  'map.step': 'Step {number}: {instruction} ({distance})',
+  'map.stop': 'Stop {number}: {name}',
+
+  'mode.driving': 'Driving',
+  'mode.cycling': 'Cycling',
+  'mode.walking': 'Walking',
+  'mode.wheelchair': 'Wheelchair',
+
+  'avoidance.tolls': 'Tolls',
+  'avoidance.highways': 'Highways',
+  'avoidance.ferries': 'Ferries',
+  'avoidance.unpaved': 'Unpaved roads',
+  'avoidance.tolls.avoided': 'Avoids tolls',
+  'avoidance.highways.avoided': 'Avoids highways',
+  'avoidance.ferries.avoided': 'Avoids ferries',
+  'avoidance.unpaved.avoided': 'Avoids unpaved roads',
+  'avoidance.tolls.used': 'Uses tolls',
+  'avoidance.highways.used': 'Uses highways',
+  'avoidance.ferries.used': 'Uses ferries',
+  'avoidance.unpaved.used': 'Uses unpaved roads',
+
+  'tripTime.now': 'Leave now',
+  'tripTime.depart': 'Depart at',
+  'tripTime.arrive': 'Arrive by',
+
+  'directions.origin': 'Choose starting point',
+  'directions.destination': 'Choose destination',
+  'directions.stop': 'Stop {number}',
+  'directions.dragStop': 'Drag to reorder stop',
+  'directions.removeStop': 'Remove stop',
+  'directions.addStop': 'Add stop',
+  'directions.optimize': 'Optimize order',
+  'directions.keepStart': 'Keep starting point',
+  'directions.keepDestination': 'Keep destination',
+  'directions.options': 'Route options',
+  'directions.avoid': 'Avoid',
+  'directions.calculating': 'Calculating...',
+  'directions.submit': 'Get Directions',
+  'directions.invalidResponse': 'Unable to calculate route. Please try different locations or check if the destinations are accessible by road.',
+  'directions.requestFailed': 'Route calculation failed. Please check your internet connection and try again.',
+  'directions.optimizeFailed': 'Unable to optimize the stop order. Please try again or reorder the stops manually.',
+  'directions.noRouteTitle': 'No surface route',
+  'directions.noRoute': 'There is no route or ferry connection between these locations for this travel mode. They may be separated by water or lie off the road network.',
+  'directions.straightLine': 'Straight-line distance: {distance}',
+  'directions.leaveBy': 'Leave by {departure} to arrive {arrival}',
+  'directions.arrive': 'Arrive {arrival}',
+  'directions.arriveIfLeaving': 'Arrive {arrival} if you leave {departure}',
+  'directions.cannotAvoid': 'No route could avoid this',
+  'directions.startNavigation': 'Start navigation',
+  'directions.ferryWarning': 'This route includes a ferry crossing. Check the ferry timetable, as waiting times are not included in the estimate.',
+  'directions.routes': 'Routes',
+  'directions.via': 'via {roads}',
+  'directions.ferry': 'Ferry',
+  'directions.toll': 'Toll',
+  'directions.optimizeSavings': 'Optimized stop order saves {duration} compared with the original order.',
+  'directions.optimizeNoSavings': 'The original stop order was already the fastest we found.',
+  'directions.turnByTurn': 'Turn-by-turn Directions',
+  'directions.leg': 'Leg {number}: {origin} → {destination}',
+  'directions.legSummary': '{number}. {origin} → {destination}',
+  'directions.tips': 'Tips',
+  'directions.tipMap': 'Click on the map to set destination',
+  'directions.tipLocation': 'Use "My Location" button for current position',
+  'directions.tipMode': 'Pick a travel mode before getting directions',
+
+  'export.title': 'Export route',
+  'export.routeName': 'Route from {origin} to {destination}',
+
+  'layers.title': 'Map layers',
+  'layers.base': 'Base map',
+  'layers.overlays': 'Overlays',
+  'layers.standard': 'Standard',
+  'layers.topo': 'Topographic',
+  'layers.cycle': 'Cycling',
+  'layers.dark': 'Dark',
+  'layers.satellite': 'Satellite',
+  'layers.hillshading': 'Hillshading',
+  'layers.rail': 'Railways',
+  'layers.cycleRoutes': 'Cycle routes',
+  'offline.title': 'Offline maps',
+  'offline.description': 'Save the map around the current view so it keeps working without a connection.',
+  'offline.name': 'Name',
+  'offline.defaultName': 'Area saved {date}',
+  'offline.zoomLevels': 'Zoom levels {min}–{max}',
+  'offline.estimate': '{count} tiles, about {size}',
+  'offline.tooMany': 'That is more than {max} tiles. Zoom in or lower the highest zoom level.',
+  'offline.wmsSkipped': 'WMS layers can’t be saved and will be left out.',
+  'offline.download': 'Download this area',
+  'offline.progress': '{done} of {total} tiles',
+  'offline.cancel': 'Cancel',
+  'offline.saved': 'Saved {name} for offline use',
+  'offline.savedWithFailures': '{failed} tiles could not be downloaded.',
+  'offline.failed': 'Could not save the area',
+  'offline.unsupported': 'This browser can’t store maps for offline use.',
+  'offline.noSources': 'None of the layers shown can be saved.',
+  'offline.regions': 'Saved areas',
+  'offline.noRegions': 'No areas saved yet.',
+  'offline.regionDetails': '{size} · expires {date}',
+  'offline.delete': 'Delete {name}',
+  'offline.deleteFailed': 'Could not delete {name}',
+  'overlays.title': 'Layers',
+  'overlays.import': 'Import',
+  'overlays.hint': 'Drop GPX, KML, KMZ or GeoJSON files on the map, or import them here.',
+  'overlays.drop': 'Drop files to add them to the map',
+  'overlays.show': 'Show {name}',
+  'overlays.remove': 'Remove layer',
+  'overlays.useAsRoute': 'Use as route',
+  'overlays.importFailed': 'Could not import {name}',
+  'overlays.unsupported': 'This file type is not supported.',
+  'overlays.invalid': 'The file could not be read. It may be damaged or not in the format its name suggests.',
+  'overlays.empty': 'The file contains nothing that can be shown on the map.',
+  'overlays.trackStart': 'Start of {name}',
+  'overlays.trackEnd': 'End of {name}',
+
+  'elevation.title': 'Elevation',
+  'elevation.ascent': 'Ascent',
+  'elevation.descent': 'Descent',
+  'elevation.maxGrade': 'Max grade',
+  'elevation.loading': 'Loading elevation...',
+  'elevation.unavailable': 'Elevation data is unavailable for this route.',
+
+  'navigation.waiting': 'Waiting for your position…',
+  'navigation.rerouting': 'Rerouting…',
+  'navigation.arrived': 'You have arrived at {name}',
+  'navigation.eta': 'Arrive {time}',
+  'navigation.mute': 'Mute voice guidance',
+  'navigation.unmute': 'Unmute voice guidance',
+  'navigation.stop': 'Stop navigation',
+  'navigation.rerouteFailed': 'Rerouting failed',
+  'navigation.rerouteFailedDescription': "Couldn't find a new route from your position. Try returning to the route.",
+
+  'settings.title': 'Settings',
+  'settings.description': 'Preferences are saved in this browser.',
+  'settings.display': 'Display',
+  'settings.language': 'Language',
+  'settings.units': 'Units',
+  'settings.routing': 'Routing',
+  'settings.engine': 'Routing engine',
+  'settings.serverUrl': 'Server URL',
+  'settings.serverUrlHint': 'Point this at a self-hosted instance, or clear it to use the public server.',
+  'settings.graphhopperApiKey': 'GraphHopper API key',
+  'settings.search': 'Search',
+  'settings.geocoder': 'Geocoding service',
+  'settings.nominatimEmail': 'Contact email',
+  'settings.nominatimEmailHint': 'Sent with each request so the Nominatim operators can reach you, as their usage policy asks.',
+  'settings.peliasApiKey': 'Pelias API key',
+  'settings.navigation': 'Navigation',
+  'settings.simulatePosition': 'Simulate position',
+  'settings.simulatePositionHint': 'Drive along the route instead of following GPS, for trying out navigation.',
+  'settings.offRouteThreshold': 'Reroute when off the route by (meters)',
+  'settings.voiceGuidance': 'Voice guidance',
+  'settings.voiceGuidanceHint': 'Read out upcoming turns while navigating.',
+  'settings.voiceVolume': 'Voice volume',
+  'settings.elevation': 'Elevation',
+  'settings.elevationSource': 'Elevation data',
+  'settings.elevationUrlHint': 'For terrain tiles, use a URL template with {z}, {x} and {y}.',
+  'settings.map': 'Map',
+  'settings.satelliteUrl': 'Satellite imagery URL',
+  'settings.satelliteUrlHint': 'A URL template with {z}, {x} and {y} from your imagery provider.',
+  'settings.customLayers': 'Custom layers',
+  'settings.customLayersHint': 'Add XYZ or WMS tile servers, such as your organisation’s own.',
+  'settings.layerName': 'Name',
+  'settings.layerUrl': 'URL',
+  'settings.layerType': 'Type',
+  'settings.layerRole': 'Show as',
+  'settings.wmsLayers': 'WMS layers',
+  'settings.addLayer': 'Add layer',
+  'settings.removeLayer': 'Remove {name}',
+  'settings.layerProblem.missingName': 'Enter a name for the layer.',
+  'settings.layerProblem.invalidUrl': 'The URL must start with http:// or https://.',
+  'settings.layerProblem.missingPlaceholders': 'XYZ URLs must contain {z}, {x} and {y}.',
+  'settings.layerProblem.missingWmsLayers': 'Enter the WMS layers to request, separated by commas.',
+
+  'units.metric': 'Metric (km, m)',
+  'units.imperial': 'Imperial (mi, ft)',
+  'units.uk': 'UK (mi, yd)',
+
+  'voice.approaching': 'In {distance}, {instruction}',
+  'voice.meters': '{count} meters',
+  'voice.kilometer': '1 kilometer',
+  'voice.kilometers': '{count} kilometers',
+  'voice.mile': '1 mile',
+  'voice.miles': '{count} miles',
+  'voice.feet': '{count} feet',
+  'voice.yards': '{count} yards',
+
+  'side.left': 'left',
+  'side.right': 'right',
+  'side.straight': 'straight',
+
+  'cardinal.north': 'north',
+  'cardinal.northeast': 'northeast',
+  'cardinal.east': 'east',
+  'cardinal.southeast': 'southeast',
+  'cardinal.south': 'south',
+  'cardinal.southwest': 'southwest',
+  'cardinal.west': 'west',
+  'cardinal.northwest': 'northwest',
+
+  'maneuver.depart': 'Head {direction}',
+  'maneuver.depart.street': 'Head {direction} on {street}',
+  'maneuver.start': 'Start',
+  'maneuver.start.street': 'Start on {street}',
+  'maneuver.arrive': 'Arrive at {stop}',
+  'maneuver.arrive.destination': 'Arrive at your destination',
+  'maneuver.arrive.stop': 'Arrive at your stop',
+  'maneuver.merge': 'Merge',
+  'maneuver.merge.street': 'Merge onto {street}',
+  'maneuver.onRamp': 'Take the ramp',
+  'maneuver.onRamp.street': 'Take the ramp onto {street}',
+  'maneuver.offRamp': 'Take the exit',
+  'maneuver.offRamp.street': 'Take the exit onto {street}',
+  'maneuver.fork': 'Keep {side} at the fork',
+  'maneuver.fork.street': 'Keep {side} at the fork onto {street}',
+  'maneuver.endOfRoad': 'At the end of the road, turn {side}',
+  'maneuver.endOfRoad.street': 'At the end of the road, turn {side} onto {street}',
+  'maneuver.roundabout': 'Enter the roundabout',
+  'maneuver.roundabout.street': 'At the roundabout, continue onto {street}',
+  'maneuver.roundabout.exit': 'At the roundabout, take exit {exit}',
+  'maneuver.roundabout.exit.street': 'At the roundabout, take exit {exit} onto {street}',
+  'maneuver.exitRoundabout': 'Exit the roundabout',
+  'maneuver.exitRoundabout.street': 'Exit the roundabout onto {street}',
+  'maneuver.ferry': 'Take the ferry',
+  'maneuver.ferry.street': 'Take the ferry {street}',
+  'maneuver.continue': 'Continue straight',
+  'maneuver.continue.street': 'Continue on {street}',
+  'maneuver.uturn': 'Make a U-turn',
+  'maneuver.uturn.street': 'Make a U-turn onto {street}',
+  'maneuver.straight': 'Go straight',
+  'maneuver.straight.street': 'Go straight onto {street}',
+  'maneuver.turn': 'Turn {side}',
+  'maneuver.turn.street': 'Turn {side} onto {street}',
+  'maneuver.slight': 'Bear {side}',
+  'maneuver.slight.street': 'Bear {side} onto {street}',
+  'maneuver.sharp': 'Make a sharp {side}',
+  'maneuver.sharp.street': 'Make a sharp {side} onto {street}',
+};
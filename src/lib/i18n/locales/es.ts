@@ -0,0 +1,286 @@
+import { Messages } from '../types';
+
+export const es: Messages = {
+  'app.getDirections': 'Cómo llegar',
+  'app.exitDirections': 'Salir de la ruta',
+  'app.rerouted': 'Ruta recalculada',
+  'app.reroutedDescription': 'Te saliste de la ruta, así que se volvió a calcular desde tu posición.',
+  'app.toggleTheme': 'Cambiar tema',
+
+  'notFound.message': '¡Vaya! Página no encontrada',
+  'notFound.home': 'Volver al inicio',
+
+  'search.placeholder': 'Buscar un lugar...',
+  'search.results': 'Resultados',
+  'search.noResults': 'No se encontraron resultados',
+  'search.recent': 'Búsquedas recientes',
+  'search.hint': 'Empieza a escribir para buscar lugares',
+  'search.country': 'País',
+  'search.anyCountry': 'Cualquier país',
+  'search.thisArea': 'Buscar en esta zona',
+  'search.inThisArea': 'En esta zona',
+  'search.clearArea': 'Buscar en todas partes',
+
+  'location.selected': 'Lugar seleccionado',
+  'location.current': 'Ubicación actual',
+  'location.error': 'Error de ubicación',
+  'location.denied': 'Acceso a la ubicación denegado. Activa los permisos de ubicación.',
+  'location.unavailable': 'La información de ubicación no está disponible.',
+  'location.timeout': 'La solicitud de ubicación tardó demasiado.',
+  'location.failed': 'No se pudo obtener tu ubicación.',
+  'location.unsupported': 'Este navegador no admite la geolocalización.',
+
+  'coordinates.decimal': 'Grados decimales',
+  'coordinates.dms': 'Grados, minutos, segundos',
+  'coordinates.pluscode': 'Plus Code',
+  'coordinates.geohash': 'Geohash',
+  'coordinates.utm': 'UTM',
+  'coordinates.mgrs': 'MGRS',
+  'coordinates.format': 'Formato de coordenadas',
+  'coordinates.copy': 'Copiar coordenadas',
+  'coordinates.copied': 'Coordenadas copiadas',
+  'coordinates.copyFailed': 'No se pudieron copiar las coordenadas',
+  'coordinates.parsed': 'Coordenadas ({format})',
+
+  'map.loading': 'Cargando mapa...',
+  'map.myLocation': 'Mi ubicación',
+  'map.error': 'Error',
+  'map.initFailed': 'No se pudo cargar el mapa.',
+  'map.selectRoute': 'Haz clic para elegir esta ruta',
+  'map.ferry': 'Ferri: {instruction} ({distance})',
+  'map.step': 'Paso {number}: {instruction} ({distance})',
+  'map.stop': 'Parada {number}: {name}',
+
+  'mode.driving': 'Coche',
+  'mode.cycling': 'Bicicleta',
+  'mode.walking': 'A pie',
+  'mode.wheelchair': 'Silla de ruedas',
+
+  'avoidance.tolls': 'Peajes',
+  'avoidance.highways': 'Autopistas',
+  'avoidance.ferries': 'Ferris',
+  'avoidance.unpaved': 'Caminos sin asfaltar',
+  'avoidance.tolls.avoided': 'Evita peajes',
+  'avoidance.highways.avoided': 'Evita autopistas',
+  'avoidance.ferries.avoided': 'Evita ferris',
+  'avoidance.unpaved.avoided': 'Evita caminos sin asfaltar',
+  'avoidance.tolls.used': 'Usa peajes',
+  'avoidance.highways.used': 'Usa autopistas',
+  'avoidance.ferries.used': 'Usa ferris',
+  'avoidance.unpaved.used': 'Usa caminos sin asfaltar',
+
+  'tripTime.now': 'Salir ahora',
+  'tripTime.depart': 'Salir a las',
+  'tripTime.arrive': 'Llegar antes de',
+
+  'directions.origin': 'Elige el punto de partida',
+  'directions.destination': 'Elige el destino',
+  'directions.stop': 'Parada {number}',
+  'directions.dragStop': 'Arrastra para reordenar la parada',
+  'directions.removeStop': 'Quitar parada',
+  'directions.addStop': 'Añadir parada',
+  'directions.optimize': 'Optimizar orden',
+  'directions.keepStart': 'Mantener el punto de partida',
+  'directions.keepDestination': 'Mantener el destino',
+  'directions.options': 'Opciones de ruta',
+  'directions.avoid': 'Evitar',
+  'directions.calculating': 'Calculando...',
+  'directions.submit': 'Cómo llegar',
+  'directions.invalidResponse': 'No se pudo calcular la ruta. Prueba con otros lugares o comprueba si los destinos son accesibles por carretera.',
+  'directions.requestFailed': 'Falló el cálculo de la ruta. Comprueba tu conexión a internet e inténtalo de nuevo.',
+  'directions.optimizeFailed': 'No se pudo optimizar el orden de las paradas. Inténtalo de nuevo o reordénalas manualmente.',
+  'directions.noRouteTitle': 'Sin ruta terrestre',
+  'directions.noRoute': 'No hay ninguna ruta ni conexión en ferri entre estos lugares con este medio de transporte. Puede que estén separados por agua o fuera de la red de carreteras.',
+  'directions.straightLine': 'Distancia en línea recta: {distance}',
+  'directions.leaveBy': 'Sal antes de las {departure} para llegar a las {arrival}',
+  'directions.arrive': 'Llegada {arrival}',
+  'directions.arriveIfLeaving': 'Llegada {arrival} si sales a las {departure}',
+  'directions.cannotAvoid': 'Ninguna ruta pudo evitarlo',
+  'directions.startNavigation': 'Iniciar navegación',
+  'directions.ferryWarning': 'Esta ruta incluye un trayecto en ferri. Consulta el horario, ya que los tiempos de espera no están incluidos en la estimación.',
+  'directions.routes': 'Rutas',
+  'directions.via': 'por {roads}',
+  'directions.ferry': 'Ferri',
+  'directions.toll': 'Peaje',
+  'directions.optimizeSavings': 'El orden optimizado ahorra {duration} frente al orden original.',
+  'directions.optimizeNoSavings': 'El orden original ya era el más rápido que encontramos.',
+  'directions.turnByTurn': 'Indicaciones paso a paso',
+  'directions.leg': 'Tramo {number}: {origin} → {destination}',
+  'directions.legSummary': '{number}. {origin} → {destination}',
+  'directions.tips': 'Consejos',
+  'directions.tipMap': 'Haz clic en el mapa para fijar el destino',
+  'directions.tipLocation': 'Usa el botón «Mi ubicación» para tu posición actual',
+  'directions.tipMode': 'Elige un medio de transporte antes de calcular la ruta',
+
+  'export.title': 'Exportar ruta',
+  'export.routeName': 'Ruta de {origin} a {destination}',
+
+  'layers.title': 'Capas del mapa',
+  'layers.base': 'Mapa base',
+  'layers.overlays': 'Superposiciones',
+  'layers.standard': 'Estándar',
+  'layers.topo': 'Topográfico',
+  'layers.cycle': 'Ciclismo',
+  'layers.dark': 'Oscuro',
+  'layers.satellite': 'Satélite',
+  'layers.hillshading': 'Sombreado del relieve',
+  'layers.rail': 'Ferrocarriles',
+  'layers.cycleRoutes': 'Rutas ciclistas',
+  'offline.title': 'Mapas sin conexión',
+  'offline.description': 'Guarda el mapa alrededor de la vista actual para que funcione sin conexión.',
+  'offline.name': 'Nombre',
+  'offline.defaultName': 'Zona guardada el {date}',
+  'offline.zoomLevels': 'Niveles de zoom {min}–{max}',
+  'offline.estimate': '{count} teselas, unos {size}',
+  'offline.tooMany': 'Son más de {max} teselas. Acerca el mapa o baja el nivel de zoom máximo.',
+  'offline.wmsSkipped': 'Las capas WMS no se pueden guardar y se omitirán.',
+  'offline.download': 'Descargar esta zona',
+  'offline.progress': '{done} de {total} teselas',
+  'offline.cancel': 'Cancelar',
+  'offline.saved': '{name} guardada para usar sin conexión',
+  'offline.savedWithFailures': 'No se pudieron descargar {failed} teselas.',
+  'offline.failed': 'No se pudo guardar la zona',
+  'offline.unsupported': 'Este navegador no puede guardar mapas sin conexión.',
+  'offline.noSources': 'Ninguna de las capas mostradas se puede guardar.',
+  'offline.regions': 'Zonas guardadas',
+  'offline.noRegions': 'Aún no hay zonas guardadas.',
+  'offline.regionDetails': '{size} · caduca el {date}',
+  'offline.delete': 'Eliminar {name}',
+  'offline.deleteFailed': 'No se pudo eliminar {name}',
+  'overlays.title': 'Capas',
+  'overlays.import': 'Importar',
+  'overlays.hint': 'Arrastra archivos GPX, KML, KMZ o GeoJSON al mapa, o impórtalos aquí.',
+  'overlays.drop': 'Suelta los archivos para añadirlos al mapa',
+  'overlays.show': 'Mostrar {name}',
+  'overlays.remove': 'Quitar capa',
+  'overlays.useAsRoute': 'Usar como ruta',
+  'overlays.importFailed': 'No se pudo importar {name}',
+  'overlays.unsupported': 'Este tipo de archivo no es compatible.',
+  'overlays.invalid': 'No se pudo leer el archivo. Puede estar dañado o no tener el formato que indica su nombre.',
+  'overlays.empty': 'El archivo no contiene nada que se pueda mostrar en el mapa.',
+  'overlays.trackStart': 'Inicio de {name}',
+  'overlays.trackEnd': 'Fin de {name}',
+
+  'elevation.title': 'Elevación',
+  'elevation.ascent': 'Ascenso',
+  'elevation.descent': 'Descenso',
+  'elevation.maxGrade': 'Pendiente máx.',
+  'elevation.loading': 'Cargando elevación...',
+  'elevation.unavailable': 'No hay datos de elevación para esta ruta.',
+
+  'navigation.waiting': 'Esperando tu posición…',
+  'navigation.rerouting': 'Recalculando…',
+  'navigation.arrived': 'Has llegado a {name}',
+  'navigation.eta': 'Llegada {time}',
+  'navigation.mute': 'Silenciar indicaciones por voz',
+  'navigation.unmute': 'Activar indicaciones por voz',
+  'navigation.stop': 'Detener navegación',
+  'navigation.rerouteFailed': 'No se pudo recalcular',
+  'navigation.rerouteFailedDescription': 'No se encontró una nueva ruta desde tu posición. Intenta volver a la ruta.',
+
+  'settings.title': 'Ajustes',
+  'settings.description': 'Las preferencias se guardan en este navegador.',
+  'settings.display': 'Pantalla',
+  'settings.language': 'Idioma',
+  'settings.units': 'Unidades',
+  'settings.routing': 'Rutas',
+  'settings.engine': 'Motor de rutas',
+  'settings.serverUrl': 'URL del servidor',
+  'settings.serverUrlHint': 'Indica aquí un servidor propio, o déjalo vacío para usar el servidor público.',
+  'settings.graphhopperApiKey': 'Clave de API de GraphHopper',
+  'settings.search': 'Búsqueda',
+  'settings.geocoder': 'Servicio de geocodificación',
+  'settings.nominatimEmail': 'Correo de contacto',
+  'settings.nominatimEmailHint': 'Se envía con cada solicitud para que los operadores de Nominatim puedan contactarte, como pide su política de uso.',
+  'settings.peliasApiKey': 'Clave de API de Pelias',
+  'settings.navigation': 'Navegación',
+  'settings.simulatePosition': 'Simular posición',
+  'settings.simulatePositionHint': 'Recorre la ruta en lugar de seguir el GPS, para probar la navegación.',
+  'settings.offRouteThreshold': 'Recalcular al desviarse de la ruta (metros)',
+  'settings.voiceGuidance': 'Indicaciones por voz',
+  'settings.voiceGuidanceHint': 'Lee en voz alta los próximos giros durante la navegación.',
+  'settings.voiceVolume': 'Volumen de la voz',
+  'settings.elevation': 'Elevación',
+  'settings.elevationSource': 'Datos de elevación',
+  'settings.elevationUrlHint': 'Para teselas de terreno, usa una plantilla de URL con {z}, {x} e {y}.',
+  'settings.map': 'Mapa',
+  'settings.satelliteUrl': 'URL de imágenes de satélite',
+  'settings.satelliteUrlHint': 'Una plantilla de URL con {z}, {x} e {y} de tu proveedor de imágenes.',
+  'settings.customLayers': 'Capas personalizadas',
+  'settings.customLayersHint': 'Añade servidores de teselas XYZ o WMS, como el de tu organización.',
+  'settings.layerName': 'Nombre',
+  'settings.layerUrl': 'URL',
+  'settings.layerType': 'Tipo',
+  'settings.layerRole': 'Mostrar como',
+  'settings.wmsLayers': 'Capas WMS',
+  'settings.addLayer': 'Añadir capa',
+  'settings.removeLayer': 'Quitar {name}',
+  'settings.layerProblem.missingName': 'Escribe un nombre para la capa.',
+  'settings.layerProblem.invalidUrl': 'La URL debe empezar por http:// o https://.',
+  'settings.layerProblem.missingPlaceholders': 'Las URL XYZ deben contener {z}, {x} e {y}.',
+  'settings.layerProblem.missingWmsLayers': 'Escribe las capas WMS que se solicitarán, separadas por comas.',
+
+  'units.metric': 'Métrico (km, m)',
+  'units.imperial': 'Imperial (mi, ft)',
+  'units.uk': 'Reino Unido (mi, yd)',
+
+  'voice.approaching': 'En {distance}, {instruction}',
+  'voice.meters': '{count} metros',
+  'voice.kilometer': '1 kilómetro',
+  'voice.kilometers': '{count} kilómetros',
+  'voice.mile': '1 milla',
+  'voice.miles': '{count} millas',
+  'voice.feet': '{count} pies',
+  'voice.yards': '{count} yardas',
+
+  'side.left': 'a la izquierda',
+  'side.right': 'a la derecha',
+  'side.straight': 'recto',
+
+  'cardinal.north': 'norte',
+  'cardinal.northeast': 'noreste',
+  'cardinal.east': 'este',
+  'cardinal.southeast': 'sureste',
+  'cardinal.south': 'sur',
+  'cardinal.southwest': 'suroeste',
+  'cardinal.west': 'oeste',
+  'cardinal.northwest': 'noroeste',
+
+  'maneuver.depart': 'Dirígete al {direction}',
+  'maneuver.depart.street': 'Dirígete al {direction} por {street}',
+  'maneuver.start': 'Comienza',
+  'maneuver.start.street': 'Comienza por {street}',
+  'maneuver.arrive': 'Llega a {stop}',
+  'maneuver.arrive.destination': 'Llega a tu destino',
+  'maneuver.arrive.stop': 'Llega a tu parada',
+  'maneuver.merge': 'Incorpórate',
+  'maneuver.merge.street': 'Incorpórate a {street}',
+  'maneuver.onRamp': 'Toma el acceso',
+  'maneuver.onRamp.street': 'Toma el acceso a {street}',
+  'maneuver.offRamp': 'Toma la salida',
+  'maneuver.offRamp.street': 'Toma la salida hacia {street}',
+  'maneuver.fork': 'En la bifurcación, mantente {side}',
+  'maneuver.fork.street': 'En la bifurcación, mantente {side} hacia {street}',
+  'maneuver.endOfRoad': 'Al final de la calle, gira {side}',
+  'maneuver.endOfRoad.street': 'Al final de la calle, gira {side} hacia {street}',
+  'maneuver.roundabout': 'Entra en la rotonda',
+  'maneuver.roundabout.street': 'En la rotonda, continúa por {street}',
+  'maneuver.roundabout.exit': 'En la rotonda, toma la salida {exit}',
+  'maneuver.roundabout.exit.street': 'En la rotonda, toma la salida {exit} hacia {street}',
+  'maneuver.exitRoundabout': 'Sal de la rotonda',
+  'maneuver.exitRoundabout.street': 'Sal de la rotonda hacia {street}',
+  'maneuver.ferry': 'Toma el ferri',
+  'maneuver.ferry.street': 'Toma el ferri {street}',
+  'maneuver.continue': 'Continúa recto',
+  'maneuver.continue.street': 'Continúa por {street}',
+  'maneuver.uturn': 'Cambia de sentido',
+  'maneuver.uturn.street': 'Cambia de sentido hacia {street}',
+  'maneuver.straight': 'Sigue recto',
+  'maneuver.straight.street': 'Sigue recto hacia {street}',
+  'maneuver.turn': 'Gira {side}',
+  'maneuver.turn.street': 'Gira {side} hacia {street}',
+  'maneuver.slight': 'Gira ligeramente {side}',
+  'maneuver.slight.street': 'Gira ligeramente {side} hacia {street}',
+  'maneuver.sharp': 'Gira bruscamente {side}',
+  'maneuver.sharp.street': 'Gira bruscamente {side} hacia {street}',
+};
@@ -0,0 +1,286 @@
+import { Messages } from '../types';
+
+export const fr: Messages = {
+  'app.getDirections': 'Itinéraire',
+  'app.exitDirections': "Quitter l'itinéraire",
+  'app.rerouted': 'Itinéraire recalculé',
+  'app.reroutedDescription': "Vous avez quitté l'itinéraire, il a donc été recalculé depuis votre position.",
+  'app.toggleTheme': 'Changer de thème',
+
+  'notFound.message': 'Oups ! Page introuvable',
+  'notFound.home': "Retour à l'accueil",
+
+  'search.placeholder': 'Rechercher un lieu...',
+  'search.results': 'Résultats',
+  'search.noResults': 'Aucun résultat',
+  'search.recent': 'Recherches récentes',
+  'search.hint': 'Commencez à taper pour rechercher un lieu',
+  'search.country': 'Pays',
+  'search.anyCountry': 'Tous les pays',
+  'search.thisArea': 'Rechercher dans cette zone',
+  'search.inThisArea': 'Dans cette zone',
+  'search.clearArea': 'Rechercher partout',
+
+  'location.selected': 'Lieu sélectionné',
+  'location.current': 'Position actuelle',
+  'location.error': 'Erreur de localisation',
+  'location.denied': 'Accès à la position refusé. Veuillez autoriser la localisation.',
+  'location.unavailable': 'Les informations de position ne sont pas disponibles.',
+  'location.timeout': 'La demande de position a expiré.',
+  'location.failed': 'Impossible de déterminer votre position.',
+  'location.unsupported': 'Ce navigateur ne prend pas en charge la géolocalisation.',
+
+  'coordinates.decimal': 'Degrés décimaux',
+  'coordinates.dms': 'Degrés, minutes, secondes',
+  'coordinates.pluscode': 'Plus Code',
+  'coordinates.geohash': 'Geohash',
+  'coordinates.utm': 'UTM',
+  'coordinates.mgrs': 'MGRS',
+  'coordinates.format': 'Format des coordonnées',
+  'coordinates.copy': 'Copier les coordonnées',
+  'coordinates.copied': 'Coordonnées copiées',
+  'coordinates.copyFailed': 'Impossible de copier les coordonnées',
+  'coordinates.parsed': 'Coordonnées ({format})',
+
+  'map.loading': 'Chargement de la carte...',
+  'map.myLocation': 'Ma position',
+  'map.error': 'Erreur',
+  'map.initFailed': "Impossible d'afficher la carte.",
+  'map.selectRoute': 'Cliquez pour choisir cet itinéraire',
+  'map.ferry': 'Ferry : {instruction} ({distance})',
+  'map.step': 'Étape {number} : {instruction} ({distance})',
+  'map.stop': 'Arrêt {number} : {name}',
+
+  'mode.driving': 'Voiture',
+  'mode.cycling': 'Vélo',
+  'mode.walking': 'À pied',
+  'mode.wheelchair': 'Fauteuil roulant',
+
+  'avoidance.tolls': 'Péages',
+  'avoidance.highways': 'Autoroutes',
+  'avoidance.ferries': 'Ferries',
+  'avoidance.unpaved': 'Routes non revêtues',
+  'avoidance.tolls.avoided': 'Sans péages',
+  'avoidance.highways.avoided': 'Sans autoroutes',
+  'avoidance.ferries.avoided': 'Sans ferries',
+  'avoidance.unpaved.avoided': 'Sans routes non revêtues',
+  'avoidance.tolls.used': 'Avec péages',
+  'avoidance.highways.used': 'Avec autoroutes',
+  'avoidance.ferries.used': 'Avec ferries',
+  'avoidance.unpaved.used': 'Avec routes non revêtues',
+
+  'tripTime.now': 'Partir maintenant',
+  'tripTime.depart': 'Partir à',
+  'tripTime.arrive': 'Arriver avant',
+
+  'directions.origin': 'Choisir le point de départ',
+  'directions.destination': 'Choisir la destination',
+  'directions.stop': 'Arrêt {number}',
+  'directions.dragStop': "Faire glisser pour déplacer l'arrêt",
+  'directions.removeStop': "Supprimer l'arrêt",
+  'directions.addStop': 'Ajouter un arrêt',
+  'directions.optimize': "Optimiser l'ordre",
+  'directions.keepStart': 'Garder le point de départ',
+  'directions.keepDestination': 'Garder la destination',
+  'directions.options': "Options d'itinéraire",
+  'directions.avoid': 'Éviter',
+  'directions.calculating': 'Calcul en cours...',
+  'directions.submit': "Calculer l'itinéraire",
+  'directions.invalidResponse': "Impossible de calculer l'itinéraire. Essayez d'autres lieux ou vérifiez que les destinations sont accessibles par la route.",
+  'directions.requestFailed': "Le calcul de l'itinéraire a échoué. Vérifiez votre connexion internet et réessayez.",
+  'directions.optimizeFailed': "Impossible d'optimiser l'ordre des arrêts. Réessayez ou réordonnez-les manuellement.",
+  'directions.noRouteTitle': 'Aucun itinéraire terrestre',
+  'directions.noRoute': "Il n'existe aucun itinéraire ni liaison par ferry entre ces lieux avec ce mode de transport. Ils sont peut-être séparés par l'eau ou hors du réseau routier.",
+  'directions.straightLine': "Distance à vol d'oiseau : {distance}",
+  'directions.leaveBy': 'Partez avant {departure} pour arriver à {arrival}',
+  'directions.arrive': 'Arrivée {arrival}',
+  'directions.arriveIfLeaving': 'Arrivée {arrival} en partant à {departure}',
+  'directions.cannotAvoid': "Aucun itinéraire n'a pu l'éviter",
+  'directions.startNavigation': 'Démarrer la navigation',
+  'directions.ferryWarning': "Cet itinéraire comprend une traversée en ferry. Consultez les horaires, car les temps d'attente ne sont pas inclus dans l'estimation.",
+  'directions.routes': 'Itinéraires',
+  'directions.via': 'par {roads}',
+  'directions.ferry': 'Ferry',
+  'directions.toll': 'Péage',
+  'directions.optimizeSavings': "L'ordre optimisé fait gagner {duration} par rapport à l'ordre initial.",
+  'directions.optimizeNoSavings': "L'ordre initial était déjà le plus rapide que nous ayons trouvé.",
+  'directions.turnByTurn': 'Instructions détaillées',
+  'directions.leg': 'Étape {number} : {origin} → {destination}',
+  'directions.legSummary': '{number}. {origin} → {destination}',
+  'directions.tips': 'Astuces',
+  'directions.tipMap': 'Cliquez sur la carte pour choisir la destination',
+  'directions.tipLocation': 'Utilisez le bouton « Ma position » pour votre position actuelle',
+  'directions.tipMode': "Choisissez un mode de transport avant de calculer l'itinéraire",
+
+  'export.title': 'Exporter l’itinéraire',
+  'export.routeName': 'Itinéraire de {origin} à {destination}',
+
+  'layers.title': 'Fonds de carte',
+  'layers.base': 'Carte de base',
+  'layers.overlays': 'Superpositions',
+  'layers.standard': 'Standard',
+  'layers.topo': 'Topographique',
+  'layers.cycle': 'Vélo',
+  'layers.dark': 'Sombre',
+  'layers.satellite': 'Satellite',
+  'layers.hillshading': 'Ombrage du relief',
+  'layers.rail': 'Voies ferrées',
+  'layers.cycleRoutes': 'Itinéraires cyclables',
+  'offline.title': 'Cartes hors ligne',
+  'offline.description': 'Enregistrez la carte autour de la vue actuelle pour qu’elle fonctionne sans connexion.',
+  'offline.name': 'Nom',
+  'offline.defaultName': 'Zone enregistrée le {date}',
+  'offline.zoomLevels': 'Niveaux de zoom {min}–{max}',
+  'offline.estimate': '{count} tuiles, environ {size}',
+  'offline.tooMany': 'Cela dépasse {max} tuiles. Zoomez ou réduisez le niveau de zoom maximal.',
+  'offline.wmsSkipped': 'Les calques WMS ne peuvent pas être enregistrés et seront ignorés.',
+  'offline.download': 'Télécharger cette zone',
+  'offline.progress': '{done} tuiles sur {total}',
+  'offline.cancel': 'Annuler',
+  'offline.saved': '{name} enregistrée pour une utilisation hors ligne',
+  'offline.savedWithFailures': '{failed} tuiles n’ont pas pu être téléchargées.',
+  'offline.failed': 'Impossible d’enregistrer la zone',
+  'offline.unsupported': 'Ce navigateur ne peut pas stocker de cartes hors ligne.',
+  'offline.noSources': 'Aucun des calques affichés ne peut être enregistré.',
+  'offline.regions': 'Zones enregistrées',
+  'offline.noRegions': 'Aucune zone enregistrée pour l’instant.',
+  'offline.regionDetails': '{size} · expire le {date}',
+  'offline.delete': 'Supprimer {name}',
+  'offline.deleteFailed': 'Impossible de supprimer {name}',
+  'overlays.title': 'Calques',
+  'overlays.import': 'Importer',
+  'overlays.hint': 'Déposez des fichiers GPX, KML, KMZ ou GeoJSON sur la carte, ou importez-les ici.',
+  'overlays.drop': 'Déposez les fichiers pour les ajouter à la carte',
+  'overlays.show': 'Afficher {name}',
+  'overlays.remove': 'Supprimer le calque',
+  'overlays.useAsRoute': 'Utiliser comme itinéraire',
+  'overlays.importFailed': 'Impossible d’importer {name}',
+  'overlays.unsupported': 'Ce type de fichier n’est pas pris en charge.',
+  'overlays.invalid': 'Le fichier n’a pas pu être lu. Il est peut-être endommagé ou n’est pas au format indiqué par son nom.',
+  'overlays.empty': 'Le fichier ne contient rien qui puisse être affiché sur la carte.',
+  'overlays.trackStart': 'Début de {name}',
+  'overlays.trackEnd': 'Fin de {name}',
+
+  'elevation.title': 'Dénivelé',
+  'elevation.ascent': 'Montée',
+  'elevation.descent': 'Descente',
+  'elevation.maxGrade': 'Pente max.',
+  'elevation.loading': 'Chargement du dénivelé...',
+  'elevation.unavailable': 'Les données d’altitude ne sont pas disponibles pour cet itinéraire.',
+
+  'navigation.waiting': 'En attente de votre position…',
+  'navigation.rerouting': 'Recalcul en cours…',
+  'navigation.arrived': 'Vous êtes arrivé à {name}',
+  'navigation.eta': 'Arrivée {time}',
+  'navigation.mute': 'Couper le guidage vocal',
+  'navigation.unmute': 'Activer le guidage vocal',
+  'navigation.stop': 'Arrêter la navigation',
+  'navigation.rerouteFailed': 'Échec du recalcul',
+  'navigation.rerouteFailedDescription': "Aucun nouvel itinéraire trouvé depuis votre position. Essayez de rejoindre l'itinéraire.",
+
+  'settings.title': 'Paramètres',
+  'settings.description': 'Les préférences sont enregistrées dans ce navigateur.',
+  'settings.display': 'Affichage',
+  'settings.language': 'Langue',
+  'settings.units': 'Unités',
+  'settings.routing': 'Itinéraires',
+  'settings.engine': 'Moteur de calcul',
+  'settings.serverUrl': 'URL du serveur',
+  'settings.serverUrlHint': 'Indiquez ici votre propre serveur, ou laissez vide pour utiliser le serveur public.',
+  'settings.graphhopperApiKey': 'Clé API GraphHopper',
+  'settings.search': 'Recherche',
+  'settings.geocoder': 'Service de géocodage',
+  'settings.nominatimEmail': 'E-mail de contact',
+  'settings.nominatimEmailHint': 'Envoyé avec chaque requête pour que les opérateurs de Nominatim puissent vous joindre, comme le demande leur politique d’utilisation.',
+  'settings.peliasApiKey': 'Clé d’API Pelias',
+  'settings.navigation': 'Navigation',
+  'settings.simulatePosition': 'Simuler la position',
+  'settings.simulatePositionHint': "Parcourt l'itinéraire au lieu de suivre le GPS, pour essayer la navigation.",
+  'settings.offRouteThreshold': "Recalculer au-delà d'un écart de (mètres)",
+  'settings.voiceGuidance': 'Guidage vocal',
+  'settings.voiceGuidanceHint': 'Annonce les prochains virages pendant la navigation.',
+  'settings.voiceVolume': 'Volume de la voix',
+  'settings.elevation': 'Altitude',
+  'settings.elevationSource': 'Données d’altitude',
+  'settings.elevationUrlHint': 'Pour les tuiles de terrain, utilisez un modèle d’URL avec {z}, {x} et {y}.',
+  'settings.map': 'Carte',
+  'settings.satelliteUrl': 'URL de l’imagerie satellite',
+  'settings.satelliteUrlHint': 'Un modèle d’URL avec {z}, {x} et {y} fourni par votre fournisseur d’imagerie.',
+  'settings.customLayers': 'Calques personnalisés',
+  'settings.customLayersHint': 'Ajoutez des serveurs de tuiles XYZ ou WMS, comme celui de votre organisation.',
+  'settings.layerName': 'Nom',
+  'settings.layerUrl': 'URL',
+  'settings.layerType': 'Type',
+  'settings.layerRole': 'Afficher comme',
+  'settings.wmsLayers': 'Couches WMS',
+  'settings.addLayer': 'Ajouter un calque',
+  'settings.removeLayer': 'Supprimer {name}',
+  'settings.layerProblem.missingName': 'Saisissez un nom pour le calque.',
+  'settings.layerProblem.invalidUrl': 'L’URL doit commencer par http:// ou https://.',
+  'settings.layerProblem.missingPlaceholders': 'Les URL XYZ doivent contenir {z}, {x} et {y}.',
+  'settings.layerProblem.missingWmsLayers': 'Saisissez les couches WMS à demander, séparées par des virgules.',
+
+  'units.metric': 'Métrique (km, m)',
+  'units.imperial': 'Impérial (mi, ft)',
+  'units.uk': 'Royaume-Uni (mi, yd)',
+
+  'voice.approaching': 'Dans {distance}, {instruction}',
+  'voice.meters': '{count} mètres',
+  'voice.kilometer': '1 kilomètre',
+  'voice.kilometers': '{count} kilomètres',
+  'voice.mile': '1 mile',
+  'voice.miles': '{count} miles',
+  'voice.feet': '{count} pieds',
+  'voice.yards': '{count} yards',
+
+  'side.left': 'à gauche',
+  'side.right': 'à droite',
+  'side.straight': 'tout droit',
+
+  'cardinal.north': 'le nord',
+  'cardinal.northeast': 'le nord-est',
+  'cardinal.east': "l'est",
+  'cardinal.southeast': 'le sud-est',
+  'cardinal.south': 'le sud',
+  'cardinal.southwest': 'le sud-ouest',
+  'cardinal.west': "l'ouest",
+  'cardinal.northwest': 'le nord-ouest',
+
+  'maneuver.depart': 'Dirigez-vous vers {direction}',
+  'maneuver.depart.street': 'Dirigez-vous vers {direction} sur {street}',
+  'maneuver.start': 'Partez',
+  'maneuver.start.street': 'Partez sur {street}',
+  'maneuver.arrive': 'Arrivée à {stop}',
+  'maneuver.arrive.destination': 'Vous êtes arrivé à destination',
+  'maneuver.arrive.stop': 'Vous êtes arrivé à votre arrêt',
+  'maneuver.merge': 'Insérez-vous',
+  'maneuver.merge.street': 'Insérez-vous sur {street}',
+  'maneuver.onRamp': "Prenez la bretelle d'accès",
+  'maneuver.onRamp.street': "Prenez la bretelle d'accès vers {street}",
+  'maneuver.offRamp': 'Prenez la sortie',
+  'maneuver.offRamp.street': 'Prenez la sortie vers {street}',
+  'maneuver.fork': "À l'embranchement, restez {side}",
+  'maneuver.fork.street': "À l'embranchement, restez {side} sur {street}",
+  'maneuver.endOfRoad': 'Au bout de la route, tournez {side}',
+  'maneuver.endOfRoad.street': 'Au bout de la route, tournez {side} sur {street}',
+  'maneuver.roundabout': 'Entrez dans le rond-point',
+  'maneuver.roundabout.street': 'Au rond-point, continuez sur {street}',
+  'maneuver.roundabout.exit': 'Au rond-point, prenez la sortie {exit}',
+  'maneuver.roundabout.exit.street': 'Au rond-point, prenez la sortie {exit} vers {street}',
+  'maneuver.exitRoundabout': 'Sortez du rond-point',
+  'maneuver.exitRoundabout.street': 'Sortez du rond-point vers {street}',
+  'maneuver.ferry': 'Prenez le ferry',
+  'maneuver.ferry.street': 'Prenez le ferry {street}',
+  'maneuver.continue': 'Continuez tout droit',
+  'maneuver.continue.street': 'Continuez sur {street}',
+  'maneuver.uturn': 'Faites demi-tour',
+  'maneuver.uturn.street': 'Faites demi-tour vers {street}',
+  'maneuver.straight': 'Allez tout droit',
+  'maneuver.straight.street': 'Allez tout droit sur {street}',
+  'maneuver.turn': 'Tournez {side}',
+  'maneuver.turn.street': 'Tournez {side} sur {street}',
+  'maneuver.slight': 'Tournez légèrement {side}',
+  'maneuver.slight.street': 'Tournez légèrement {side} sur {street}',
+  'maneuver.sharp': 'Tournez franchement {side}',
+  'maneuver.sharp.street': 'Tournez franchement {side} sur {street}',
+};
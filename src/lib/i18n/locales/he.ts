@@ -0,0 +1,286 @@
+import { Messages } from '../types';
+
+export const he: Messages = {
+  'app.getDirections': 'הוראות הגעה',
+  'app.exitDirections': 'יציאה מהוראות הגעה',
+  'app.rerouted': 'המסלול חושב מחדש',
+  'app.reroutedDescription': 'סטית מהמסלול, ולכן ההוראות חושבו מחדש מהמיקום שלך.',
+  'app.toggleTheme': 'החלפת ערכת נושא',
+
+  'notFound.message': 'אופס! הדף לא נמצא',
+  'notFound.home': 'חזרה לדף הבית',
+
+  'search.placeholder': 'חיפוש מקום...',
+  'search.results': 'תוצאות חיפוש',
+  'search.noResults': 'לא נמצאו תוצאות',
+  'search.recent': 'חיפושים אחרונים',
+  'search.hint': 'התחילו להקליד כדי לחפש מקומות',
+  'search.country': 'מדינה',
+  'search.anyCountry': 'כל מדינה',
+  'search.thisArea': 'חיפוש באזור זה',
+  'search.inThisArea': 'באזור זה',
+  'search.clearArea': 'חיפוש בכל מקום',
+
+  'location.selected': 'המיקום שנבחר',
+  'location.current': 'המיקום הנוכחי',
+  'location.error': 'שגיאת מיקום',
+  'location.denied': 'הגישה למיקום נדחתה. יש לאפשר הרשאות מיקום.',
+  'location.unavailable': 'פרטי המיקום אינם זמינים.',
+  'location.timeout': 'בקשת המיקום ארכה זמן רב מדי.',
+  'location.failed': 'לא ניתן לאתר את המיקום שלך.',
+  'location.unsupported': 'הדפדפן הזה אינו תומך באיתור מיקום.',
+
+  'coordinates.decimal': 'מעלות עשרוניות',
+  'coordinates.dms': 'מעלות, דקות, שניות',
+  'coordinates.pluscode': 'Plus Code',
+  'coordinates.geohash': 'Geohash',
+  'coordinates.utm': 'UTM',
+  'coordinates.mgrs': 'MGRS',
+  'coordinates.format': 'תבנית קואורדינטות',
+  'coordinates.copy': 'העתקת קואורדינטות',
+  'coordinates.copied': 'הקואורדינטות הועתקו',
+  'coordinates.copyFailed': 'לא ניתן להעתיק את הקואורדינטות',
+  'coordinates.parsed': 'קואורדינטות ({format})',
+
+  'map.loading': 'המפה נטענת...',
+  'map.myLocation': 'המיקום שלי',
+  'map.error': 'שגיאה',
+  'map.initFailed': 'לא ניתן לטעון את המפה.',
+  'map.selectRoute': 'לחצו לבחירת המסלול הזה',
+  'map.ferry': 'מעבורת: {instruction} ({distance})',
+  'map.step': 'שלב {number}: {instruction} ({distance})',
+  'map.stop': 'עצירה {number}: {name}',
+
+  'mode.driving': 'ברכב',
+  'mode.cycling': 'באופניים',
+  'mode.walking': 'ברגל',
+  'mode.wheelchair': 'בכיסא גלגלים',
+
+  'avoidance.tolls': 'כבישי אגרה',
+  'avoidance.highways': 'כבישים מהירים',
+  'avoidance.ferries': 'מעבורות',
+  'avoidance.unpaved': 'דרכים לא סלולות',
+  'avoidance.tolls.avoided': 'ללא אגרה',
+  'avoidance.highways.avoided': 'ללא כבישים מהירים',
+  'avoidance.ferries.avoided': 'ללא מעבורות',
+  'avoidance.unpaved.avoided': 'ללא דרכים לא סלולות',
+  'avoidance.tolls.used': 'כולל אגרה',
+  'avoidance.highways.used': 'כולל כבישים מהירים',
+  'avoidance.ferries.used': 'כולל מעבורות',
+  'avoidance.unpaved.used': 'כולל דרכים לא סלולות',
+
+  'tripTime.now': 'יציאה עכשיו',
+  'tripTime.depart': 'יציאה בשעה',
+  'tripTime.arrive': 'הגעה עד',
+
+  'directions.origin': 'בחירת נקודת מוצא',
+  'directions.destination': 'בחירת יעד',
+  'directions.stop': 'עצירה {number}',
+  'directions.dragStop': 'גררו כדי לשנות את סדר העצירה',
+  'directions.removeStop': 'הסרת עצירה',
+  'directions.addStop': 'הוספת עצירה',
+  'directions.optimize': 'אופטימיזציה של הסדר',
+  'directions.keepStart': 'שמירת נקודת המוצא',
+  'directions.keepDestination': 'שמירת היעד',
+  'directions.options': 'אפשרויות מסלול',
+  'directions.avoid': 'הימנעות',
+  'directions.calculating': 'מחשב...',
+  'directions.submit': 'חישוב מסלול',
+  'directions.invalidResponse': 'לא ניתן לחשב מסלול. נסו מקומות אחרים או בדקו שהיעדים נגישים בכביש.',
+  'directions.requestFailed': 'חישוב המסלול נכשל. בדקו את החיבור לאינטרנט ונסו שוב.',
+  'directions.optimizeFailed': 'לא ניתן לסדר את העצירות מחדש. נסו שוב או סדרו אותן ידנית.',
+  'directions.noRouteTitle': 'אין מסלול יבשתי',
+  'directions.noRoute': 'אין מסלול או קו מעבורת בין המקומות האלה באמצעי התחבורה הזה. ייתכן שמפרידים ביניהם מים או שהם מחוץ לרשת הדרכים.',
+  'directions.straightLine': 'מרחק בקו אווירי: {distance}',
+  'directions.leaveBy': 'צאו עד {departure} כדי להגיע ב-{arrival}',
+  'directions.arrive': 'הגעה {arrival}',
+  'directions.arriveIfLeaving': 'הגעה {arrival} ביציאה ב-{departure}',
+  'directions.cannotAvoid': 'אף מסלול לא הצליח להימנע מכך',
+  'directions.startNavigation': 'התחלת ניווט',
+  'directions.ferryWarning': 'המסלול כולל שיט במעבורת. בדקו את לוח הזמנים, כי זמני ההמתנה אינם כלולים בהערכה.',
+  'directions.routes': 'מסלולים',
+  'directions.via': 'דרך {roads}',
+  'directions.ferry': 'מעבורת',
+  'directions.toll': 'אגרה',
+  'directions.optimizeSavings': 'הסדר המשופר חוסך {duration} לעומת הסדר המקורי.',
+  'directions.optimizeNoSavings': 'הסדר המקורי כבר היה המהיר ביותר שמצאנו.',
+  'directions.turnByTurn': 'הוראות פנייה אחר פנייה',
+  'directions.leg': 'קטע {number}: {origin} ← {destination}',
+  'directions.legSummary': '{number}. {origin} ← {destination}',
+  'directions.tips': 'טיפים',
+  'directions.tipMap': 'לחצו על המפה כדי לקבוע יעד',
+  'directions.tipLocation': 'השתמשו בכפתור "המיקום שלי" למיקום הנוכחי',
+  'directions.tipMode': 'בחרו אמצעי תחבורה לפני חישוב המסלול',
+
+  'export.title': 'ייצוא מסלול',
+  'export.routeName': 'מסלול מ{origin} אל {destination}',
+
+  'layers.title': 'שכבות מפה',
+  'layers.base': 'מפת בסיס',
+  'layers.overlays': 'שכבות על',
+  'layers.standard': 'רגילה',
+  'layers.topo': 'טופוגרפית',
+  'layers.cycle': 'רכיבה על אופניים',
+  'layers.dark': 'כהה',
+  'layers.satellite': 'לוויין',
+  'layers.hillshading': 'הצללת תבליט',
+  'layers.rail': 'מסילות ברזל',
+  'layers.cycleRoutes': 'מסלולי אופניים',
+  'offline.title': 'מפות לא מקוונות',
+  'offline.description': 'שמרו את המפה סביב התצוגה הנוכחית כדי שתעבוד גם ללא חיבור.',
+  'offline.name': 'שם',
+  'offline.defaultName': 'אזור שנשמר ב-{date}',
+  'offline.zoomLevels': 'רמות זום {min}–{max}',
+  'offline.estimate': '{count} אריחים, כ-{size}',
+  'offline.tooMany': 'זה יותר מ-{max} אריחים. התקרבו או הורידו את רמת הזום המרבית.',
+  'offline.wmsSkipped': 'לא ניתן לשמור שכבות WMS והן יושמטו.',
+  'offline.download': 'הורדת האזור הזה',
+  'offline.progress': '{done} מתוך {total} אריחים',
+  'offline.cancel': 'ביטול',
+  'offline.saved': '{name} נשמר לשימוש לא מקוון',
+  'offline.savedWithFailures': 'לא ניתן היה להוריד {failed} אריחים.',
+  'offline.failed': 'לא ניתן היה לשמור את האזור',
+  'offline.unsupported': 'דפדפן זה אינו יכול לשמור מפות לשימוש לא מקוון.',
+  'offline.noSources': 'אף אחת מהשכבות המוצגות אינה ניתנת לשמירה.',
+  'offline.regions': 'אזורים שמורים',
+  'offline.noRegions': 'עדיין לא נשמרו אזורים.',
+  'offline.regionDetails': '{size} · תוקף עד {date}',
+  'offline.delete': 'מחיקת {name}',
+  'offline.deleteFailed': 'לא ניתן היה למחוק את {name}',
+  'overlays.title': 'שכבות',
+  'overlays.import': 'ייבוא',
+  'overlays.hint': 'גררו קובצי GPX, KML, KMZ או GeoJSON אל המפה, או ייבאו אותם כאן.',
+  'overlays.drop': 'שחררו את הקבצים כדי להוסיף אותם למפה',
+  'overlays.show': 'הצגת {name}',
+  'overlays.remove': 'הסרת שכבה',
+  'overlays.useAsRoute': 'שימוש כמסלול',
+  'overlays.importFailed': 'לא ניתן לייבא את {name}',
+  'overlays.unsupported': 'סוג קובץ זה אינו נתמך.',
+  'overlays.invalid': 'לא ניתן לקרוא את הקובץ. ייתכן שהוא פגום או שאינו בפורמט שמרמז שמו.',
+  'overlays.empty': 'הקובץ אינו מכיל דבר שניתן להציג במפה.',
+  'overlays.trackStart': 'תחילת {name}',
+  'overlays.trackEnd': 'סוף {name}',
+
+  'elevation.title': 'גובה',
+  'elevation.ascent': 'עלייה',
+  'elevation.descent': 'ירידה',
+  'elevation.maxGrade': 'שיפוע מרבי',
+  'elevation.loading': 'טוען נתוני גובה...',
+  'elevation.unavailable': 'אין נתוני גובה עבור מסלול זה.',
+
+  'navigation.waiting': 'ממתין למיקום שלך…',
+  'navigation.rerouting': 'מחשב מסלול מחדש…',
+  'navigation.arrived': 'הגעת אל {name}',
+  'navigation.eta': 'הגעה {time}',
+  'navigation.mute': 'השתקת הנחיות קוליות',
+  'navigation.unmute': 'הפעלת הנחיות קוליות',
+  'navigation.stop': 'עצירת הניווט',
+  'navigation.rerouteFailed': 'חישוב המסלול מחדש נכשל',
+  'navigation.rerouteFailedDescription': 'לא נמצא מסלול חדש מהמיקום שלך. נסו לחזור למסלול.',
+
+  'settings.title': 'הגדרות',
+  'settings.description': 'ההעדפות נשמרות בדפדפן הזה.',
+  'settings.display': 'תצוגה',
+  'settings.language': 'שפה',
+  'settings.units': 'יחידות',
+  'settings.routing': 'מסלולים',
+  'settings.engine': 'מנוע מסלולים',
+  'settings.serverUrl': 'כתובת השרת',
+  'settings.serverUrlHint': 'הזינו כאן שרת משלכם, או השאירו ריק כדי להשתמש בשרת הציבורי.',
+  'settings.graphhopperApiKey': 'מפתח API של GraphHopper',
+  'settings.search': 'חיפוש',
+  'settings.geocoder': 'שירות קידוד גאוגרפי',
+  'settings.nominatimEmail': 'אימייל ליצירת קשר',
+  'settings.nominatimEmailHint': 'נשלח עם כל בקשה כדי שמפעילי Nominatim יוכלו ליצור איתך קשר, כפי שמדיניות השימוש שלהם מבקשת.',
+  'settings.peliasApiKey': 'מפתח API של Pelias',
+  'settings.navigation': 'ניווט',
+  'settings.simulatePosition': 'הדמיית מיקום',
+  'settings.simulatePositionHint': 'נסיעה לאורך המסלול במקום מעקב GPS, לניסיון הניווט.',
+  'settings.offRouteThreshold': 'חישוב מחדש בסטייה מהמסלול של (מטרים)',
+  'settings.voiceGuidance': 'הנחיות קוליות',
+  'settings.voiceGuidanceHint': 'הקראת הפניות הבאות בזמן הניווט.',
+  'settings.voiceVolume': 'עוצמת הקול',
+  'settings.elevation': 'גובה',
+  'settings.elevationSource': 'נתוני גובה',
+  'settings.elevationUrlHint': 'עבור אריחי פני שטח, השתמשו בתבנית URL עם {z}, {x} ו-{y}.',
+  'settings.map': 'מפה',
+  'settings.satelliteUrl': 'כתובת URL לצילומי לוויין',
+  'settings.satelliteUrlHint': 'תבנית URL עם {z}, {x} ו-{y} מספק הצילומים שלכם.',
+  'settings.customLayers': 'שכבות מותאמות אישית',
+  'settings.customLayersHint': 'הוסיפו שרתי אריחים מסוג XYZ או WMS, כמו השרת של הארגון שלכם.',
+  'settings.layerName': 'שם',
+  'settings.layerUrl': 'כתובת URL',
+  'settings.layerType': 'סוג',
+  'settings.layerRole': 'הצג כ',
+  'settings.wmsLayers': 'שכבות WMS',
+  'settings.addLayer': 'הוספת שכבה',
+  'settings.removeLayer': 'הסרת {name}',
+  'settings.layerProblem.missingName': 'הזינו שם לשכבה.',
+  'settings.layerProblem.invalidUrl': 'הכתובת חייבת להתחיל ב-http:// או https://.',
+  'settings.layerProblem.missingPlaceholders': 'כתובות XYZ חייבות לכלול {z}, {x} ו-{y}.',
+  'settings.layerProblem.missingWmsLayers': 'הזינו את שכבות ה-WMS לבקשה, מופרדות בפסיקים.',
+
+  'units.metric': 'מטרי (ק״מ, מ׳)',
+  'units.imperial': 'אימפריאלי (מייל, רגל)',
+  'units.uk': 'בריטי (מייל, יארד)',
+
+  'voice.approaching': 'בעוד {distance}, {instruction}',
+  'voice.meters': '{count} מטר',
+  'voice.kilometer': 'קילומטר אחד',
+  'voice.kilometers': '{count} קילומטר',
+  'voice.mile': 'מייל אחד',
+  'voice.miles': '{count} מייל',
+  'voice.feet': '{count} רגל',
+  'voice.yards': '{count} יארד',
+
+  'side.left': 'שמאלה',
+  'side.right': 'ימינה',
+  'side.straight': 'ישר',
+
+  'cardinal.north': 'צפון',
+  'cardinal.northeast': 'צפון-מזרח',
+  'cardinal.east': 'מזרח',
+  'cardinal.southeast': 'דרום-מזרח',
+  'cardinal.south': 'דרום',
+  'cardinal.southwest': 'דרום-מערב',
+  'cardinal.west': 'מערב',
+  'cardinal.northwest': 'צפון-מערב',
+
+  'maneuver.depart': 'סעו לכיוון {direction}',
+  'maneuver.depart.street': 'סעו לכיוון {direction} ב{street}',
+  'maneuver.start': 'התחילו',
+  'maneuver.start.street': 'התחילו ב{street}',
+  'maneuver.arrive': 'הגעה אל {stop}',
+  'maneuver.arrive.destination': 'הגעה ליעד',
+  'maneuver.arrive.stop': 'הגעה לעצירה',
+  'maneuver.merge': 'השתלבו',
+  'maneuver.merge.street': 'השתלבו ב{street}',
+  'maneuver.onRamp': 'עלו על המחלף',
+  'maneuver.onRamp.street': 'עלו על המחלף אל {street}',
+  'maneuver.offRamp': 'צאו ביציאה',
+  'maneuver.offRamp.street': 'צאו ביציאה לכיוון {street}',
+  'maneuver.fork': 'בפיצול, המשיכו {side}',
+  'maneuver.fork.street': 'בפיצול, המשיכו {side} אל {street}',
+  'maneuver.endOfRoad': 'בסוף הדרך, פנו {side}',
+  'maneuver.endOfRoad.street': 'בסוף הדרך, פנו {side} אל {street}',
+  'maneuver.roundabout': 'היכנסו לכיכר',
+  'maneuver.roundabout.street': 'בכיכר, המשיכו אל {street}',
+  'maneuver.roundabout.exit': 'בכיכר, צאו ביציאה {exit}',
+  'maneuver.roundabout.exit.street': 'בכיכר, צאו ביציאה {exit} אל {street}',
+  'maneuver.exitRoundabout': 'צאו מהכיכר',
+  'maneuver.exitRoundabout.street': 'צאו מהכיכר אל {street}',
+  'maneuver.ferry': 'עלו על המעבורת',
+  'maneuver.ferry.street': 'עלו על המעבורת {street}',
+  'maneuver.continue': 'המשיכו ישר',
+  'maneuver.continue.street': 'המשיכו ב{street}',
+  'maneuver.uturn': 'בצעו פניית פרסה',
+  'maneuver.uturn.street': 'בצעו פניית פרסה אל {street}',
+  'maneuver.straight': 'סעו ישר',
+  'maneuver.straight.street': 'סעו ישר אל {street}',
+  'maneuver.turn': 'פנו {side}',
+  'maneuver.turn.street': 'פנו {side} אל {street}',
+  'maneuver.slight': 'פנו קלות {side}',
+  'maneuver.slight.street': 'פנו קלות {side} אל {street}',
+  'maneuver.sharp': 'פנו בחדות {side}',
+  'maneuver.sharp.street': 'פנו בחדות {side} אל {street}',
+};
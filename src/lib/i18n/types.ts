@@ -0,0 +1,11 @@
+import { en } from './locales/en';
+
+export type Locale = 'en' | 'de' | 'es' | 'fr' | 'ar' | 'he';
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
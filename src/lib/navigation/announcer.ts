@@ -0,0 +1,104 @@
+import { measureDistance } from '@/lib/format';
+import { Translate } from '@/lib/i18n';
+import { describeStep } from '@/lib/routing';
+import { Route } from '@/types/maps';
+import { NavigationProgress } from '@/types/navigation';
+import { UnitSystem } from '@/types/settings';
+
+// Distances before a maneuver at which it is announced, furthest first. The
+// last one is the "now" prompt given right at the turn.
+const ANNOUNCEMENT_DISTANCES = [500, 100, 20];
+
+export interface Announcer {
+  // Feeds in the latest progress; returns the text to speak, if anything is due
+  update: (route: Route, progress: NavigationProgress, t: Translate, units?: UnitSystem) => string | null;
+  reset: () => void;
+}
+
+// Distances read out loud; "m" and "km" are often spoken as letters. Short
+// distances round to 50 so prompts don't count down in odd steps.
+export const spokenDistance = (meters: number, t: Translate, units: UnitSystem = 'metric'): string => {
+  if (units === 'metric') {
+    if (meters >= 1000) {
+      const km = Math.round(meters / 100) / 10;
+      return km === 1 ? t('voice.kilometer') : t('voice.kilometers', { count: km });
+    }
+    return t('voice.meters', { count: Math.max(Math.round(meters / 50) * 50, 50) });
+  }
+
+  const { value, unit } = measureDistance(meters, units);
+  if (unit === 'mile') {
+    return value === 1 ? t('voice.mile') : t('voice.miles', { count: value });
+  }
+  const count = Math.max(Math.round(value / 50) * 50, 50);
+  return unit === 'yard' ? t('voice.yards', { count }) : t('voice.feet', { count });
+};
+
+const lowerFirst = (text: string) => text.charAt(0).toLocaleLowerCase() + text.slice(1);
+
+// Decides when each step's instruction should be spoken. Speaking it is left
+// to the caller.
+export const createAnnouncer = (distances: number[] = ANNOUNCEMENT_DISTANCES): Announcer => {
+  let currentRoute: Route | null = null;
+  let stepIndex = -1;
+  // Index into distances of the closest stage already announced for the step
+  let announcedStage = -1;
+  let arrivalAnnounced = false;
+
+  const reset = () => {
+    currentRoute = null;
+    stepIndex = -1;
+    announcedStage = -1;
+    arrivalAnnounced = false;
+  };
+
+  const update = (
+    route: Route,
+    progress: NavigationProgress,
+    t: Translate,
+    units: UnitSystem = 'metric'
+  ): string | null => {
+    if (route !== currentRoute) {
+      reset();
+      currentRoute = route;
+      // Say what to do first when starting out, or after a reroute
+      const currentStep = route.steps[progress.activeStepIndex - 1];
+      if (currentStep && !progress.arrived) {
+        stepIndex = progress.activeStepIndex;
+        return describeStep(route, currentStep, t);
+      }
+    }
+
+    if (progress.arrived) {
+      if (arrivalAnnounced) return null;
+      arrivalAnnounced = true;
+      return t('navigation.arrived', { name: route.destination.name });
+    }
+
+    if (progress.activeStepIndex !== stepIndex) {
+      stepIndex = progress.activeStepIndex;
+      announcedStage = -1;
+    }
+
+    // The closest stage we're now within; earlier ones are skipped if we
+    // passed them between fixes
+    let stage = -1;
+    distances.forEach((distance, index) => {
+      if (progress.distanceToManeuver <= distance) stage = index;
+    });
+    if (stage <= announcedStage) return null;
+    announcedStage = stage;
+
+    const step = route.steps[stepIndex];
+    if (!step) return null;
+    const instruction = describeStep(route, step, t);
+    return stage === distances.length - 1
+      ? instruction
+      : t('voice.approaching', {
+        distance: spokenDistance(progress.distanceToManeuver, t, units),
+        instruction: lowerFirst(instruction),
+      });
+  };
+
+  return { update, reset };
+};
@@ -0,0 +1,5 @@
+export * from './announcer';
+export * from './positionSource';
+export * from './reroute';
+export * from './speech';
+export * from './tracker';
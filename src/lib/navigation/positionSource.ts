@@ -0,0 +1,86 @@
+import { bearing, cumulativeDistances, pointAlong } from '@/lib/geo';
+import { MessageKey } from '@/lib/i18n';
+import { Route } from '@/types/maps';
+import { PositionFix } from '@/types/navigation';
+
+export interface PositionSource {
+  // Starts delivering fixes; returns a function that stops watching. Errors
+  // are reported as translation keys.
+  watch: (onFix: (fix: PositionFix) => void, onError: (message: MessageKey) => void) => () => void;
+}
+
+export const describeGeolocationError = (error: GeolocationPositionError): MessageKey => {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return 'location.denied';
+    case error.POSITION_UNAVAILABLE:
+      return 'location.unavailable';
+    case error.TIMEOUT:
+      return 'location.timeout';
+    default:
+      return 'location.failed';
+  }
+};
+
+export const createGeolocationSource = (): PositionSource => ({
+  watch: (onFix, onError) => {
+    if (!navigator.geolocation) {
+      onError('location.unsupported');
+      return () => undefined;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        onFix({
+          coordinates: [position.coords.longitude, position.coords.latitude],
+          accuracy: position.coords.accuracy,
+          heading: position.coords.heading,
+          speed: position.coords.speed,
+          timestamp: position.timestamp,
+        });
+      },
+      (error) => onError(describeGeolocationError(error)),
+      {
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 0,
+      }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  },
+});
+
+// Replays a drive along the route at its average speed, so navigation can be
+// tried out at a desk. `speedFactor` fast-forwards the trip.
+export const createSimulatedSource = (
+  route: Route,
+  { interval = 1000, speedFactor = 1 }: { interval?: number; speedFactor?: number } = {}
+): PositionSource => ({
+  watch: (onFix) => {
+    const totalDistance = cumulativeDistances(route.geometry).pop() || 0;
+    const speed = route.duration > 0 ? (route.distance / route.duration) * speedFactor : 10;
+    let travelled = 0;
+
+    const emit = () => {
+      const coordinates = pointAlong(route.geometry, travelled);
+      const ahead = pointAlong(route.geometry, travelled + 5);
+      onFix({
+        coordinates,
+        accuracy: 5,
+        heading: bearing(coordinates, ahead),
+        speed,
+        timestamp: Date.now(),
+      });
+    };
+
+    emit();
+    const timer = setInterval(() => {
+      travelled = Math.min(travelled + (speed * interval) / 1000, totalDistance);
+      emit();
+      if (travelled >= totalDistance) clearInterval(timer);
+    }, interval);
+
+    return () => clearInterval(timer);
+  },
+});
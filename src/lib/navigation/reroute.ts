@@ -0,0 +1,40 @@
+import { RouteRequest } from '@/lib/routing';
+import { Location, Route } from '@/types/maps';
+import { NavigationProgress, PositionFix } from '@/types/navigation';
+
+// Consecutive off-route fixes needed before rerouting, so one noisy GPS
+// reading doesn't throw away a perfectly good route
+export const OFF_ROUTE_FIXES = 3;
+
+// A fix is off the route when it is further away than the threshold, and
+// further than its own accuracy radius could explain
+export const isOffRoute = (progress: NavigationProgress, fix: PositionFix, threshold: number): boolean =>
+  progress.distanceFromRoute > Math.max(threshold, fix.accuracy);
+
+// A request from the current position to the stops not yet reached
+export const buildRerouteRequest = (
+  route: Route,
+  progress: NavigationProgress,
+  fix: PositionFix,
+  originName = 'Current Location'
+): RouteRequest => {
+  const activeStep = route.steps[progress.activeStepIndex];
+  const legIndex = Math.max(route.legs.findIndex((leg) => leg.steps.includes(activeStep)), 0);
+  const [lng, lat] = fix.coordinates;
+
+  const origin: Location = {
+    id: 'current-location',
+    name: originName,
+    address: `${lat.toFixed(6)}, ${lng.toFixed(6)}`,
+    coordinates: fix.coordinates,
+  };
+
+  return {
+    origin,
+    destination: route.destination,
+    // Leg n ends at waypoint n, so waypoints from the current leg on are still ahead
+    waypoints: route.waypoints.slice(legIndex),
+    mode: route.mode,
+    avoid: route.avoid,
+  };
+};
@@ -0,0 +1,37 @@
+export interface SpeechOptions {
+  volume: number; // 0 to 1
+  lang?: string;
+}
+
+export const isSpeechSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// The language the app is shown in, so prompts match the rest of the UI
+export const appSpeechLang = (): string =>
+  document.documentElement.lang || navigator.language || 'en';
+
+const pickVoice = (lang: string): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  const base = lang.split('-')[0];
+  return voices.find((voice) => voice.lang === lang)
+    || voices.find((voice) => voice.lang.split('-')[0] === base);
+};
+
+// Speaks a prompt, cutting off anything still being read so a stale
+// instruction never delays the current one
+export const speak = (text: string, { volume, lang = appSpeechLang() }: SpeechOptions) => {
+  if (!isSpeechSupported()) return;
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  utterance.volume = volume;
+  const voice = pickVoice(lang);
+  if (voice) utterance.voice = voice;
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = () => {
+  if (isSpeechSupported()) window.speechSynthesis.cancel();
+};
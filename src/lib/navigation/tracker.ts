@@ -0,0 +1,58 @@
+import { bearing, cumulativeDistances, nearestPointOnLine } from '@/lib/geo';
+import { Route } from '@/types/maps';
+import { NavigationProgress, PositionFix } from '@/types/navigation';
+
+// Within this distance of the destination the trip counts as finished
+const ARRIVAL_RADIUS = 25;
+const ON_ROUTE_RADIUS = 30;
+
+// Where each step starts along the route geometry, in meters. Step distances
+// come from the router and don't quite add up to the drawn line's length, so
+// they are scaled to fit it.
+const stepStartCache = new WeakMap<Route, { lineLength: number; stepStarts: number[] }>();
+
+const getStepStarts = (route: Route) => {
+  let cached = stepStartCache.get(route);
+  if (!cached) {
+    const lineLength = cumulativeDistances(route.geometry).pop() || 0;
+    const stepTotal = route.steps.reduce((total, step) => total + step.distance, 0);
+    const scale = stepTotal > 0 ? lineLength / stepTotal : 1;
+    let start = 0;
+    const stepStarts = route.steps.map((step) => {
+      const current = start;
+      start += step.distance * scale;
+      return current;
+    });
+    cached = { lineLength, stepStarts };
+    stepStartCache.set(route, cached);
+  }
+  return cached;
+};
+
+// Snaps a position fix onto the route and works out which maneuver is next
+export const trackProgress = (route: Route, fix: PositionFix): NavigationProgress => {
+  const { lineLength, stepStarts } = getStepStarts(route);
+  const nearest = nearestPointOnLine(fix.coordinates, route.geometry);
+  const segmentEnd = route.geometry[Math.min(nearest.segmentIndex + 1, route.geometry.length - 1)];
+  const segmentStart = route.geometry[nearest.segmentIndex];
+
+  // The next maneuver is the first step starting beyond our position
+  let activeStepIndex = stepStarts.findIndex((start) => start > nearest.distanceAlong);
+  if (activeStepIndex === -1) activeStepIndex = route.steps.length - 1;
+
+  const remainingDistance = Math.max(lineLength - nearest.distanceAlong, 0);
+
+  return {
+    snappedCoordinates: nearest.coordinates,
+    distanceFromRoute: nearest.distance,
+    // Close to the line the route's own direction is steadier than GPS heading
+    heading: nearest.distance < ON_ROUTE_RADIUS || !Number.isFinite(fix.heading)
+      ? bearing(segmentStart, segmentEnd)
+      : fix.heading,
+    activeStepIndex,
+    distanceToManeuver: Math.max(stepStarts[activeStepIndex] - nearest.distanceAlong, 0),
+    remainingDistance,
+    remainingDuration: lineLength > 0 ? route.duration * (remainingDistance / lineLength) : 0,
+    arrived: remainingDistance < ARRIVAL_RADIUS,
+  };
+};
@@ -0,0 +1,61 @@
+import { TileBounds, TileTemplate } from './types';
+
+export interface Tile {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Web Mercator stops short of the poles
+const MAX_LATITUDE = 85.05112878;
+
+const clampLatitude = (lat: number) => Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+
+const tileX = (lng: number, zoom: number) => Math.floor(((lng + 180) / 360) * 2 ** zoom);
+
+const tileY = (lat: number, zoom: number) => {
+  const latRadians = (clampLatitude(lat) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(latRadians) + 1 / Math.cos(latRadians)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+// The first and last tile columns and rows covering the bounds at a zoom level
+const tileRange = (bounds: TileBounds, zoom: number) => {
+  const last = 2 ** zoom - 1;
+  const clamp = (value: number) => Math.max(0, Math.min(last, value));
+  return {
+    minX: clamp(tileX(bounds.west, zoom)),
+    maxX: clamp(tileX(bounds.east, zoom)),
+    minY: clamp(tileY(bounds.north, zoom)),
+    maxY: clamp(tileY(bounds.south, zoom)),
+  };
+};
+
+export const countTiles = (bounds: TileBounds, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, zoom);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+};
+
+export function* tilesInBounds(bounds: TileBounds, minZoom: number, maxZoom: number): Generator<Tile> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        yield { x, y, z };
+      }
+    }
+  }
+}
+
+// Fills in a template the way Leaflet does, including its choice of
+// subdomain, so the map asks for exactly the URLs that were stored
+export const tileUrl = ({ url, subdomains = 'abc' }: TileTemplate, { x, y, z }: Tile): string =>
+  url
+    .replace('{s}', subdomains[Math.abs(x + y) % subdomains.length] ?? '')
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{r}', '');
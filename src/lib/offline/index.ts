@@ -0,0 +1,4 @@
+export * from './grid';
+export * from './regions';
+export * from './serviceWorker';
+export * from './types';
@@ -0,0 +1,164 @@
+import { countTiles, tilesInBounds, tileUrl } from './grid';
+import { DownloadProgress, OfflineError, OfflineRegion } from './types';
+
+// Shared with public/sw.js, which serves tiles from this cache
+export const TILE_CACHE = 'offline-tiles-v1';
+
+const STORAGE_KEY = 'offline-regions';
+
+export const REGION_LIFETIME_DAYS = 30;
+
+// A typical raster tile; used until the real sizes are known
+export const ESTIMATED_TILE_BYTES = 20 * 1024;
+
+// Public tile servers forbid bulk downloads, so regions stay street-sized
+export const MAX_REGION_TILES = 10000;
+
+// Tile usage policies allow two connections per client
+const CONCURRENT_DOWNLOADS = 2;
+
+export type RegionRequest = Pick<OfflineRegion, 'name' | 'bounds' | 'minZoom' | 'maxZoom' | 'templates'>;
+
+interface DownloadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+export const isOfflineSupported = (): boolean =>
+  typeof window !== 'undefined' && 'caches' in window && 'serviceWorker' in navigator;
+
+export const loadRegions = (): OfflineRegion[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? (JSON.parse(saved) as OfflineRegion[]) : [];
+  } catch (error) {
+    console.error('Error loading offline regions:', error);
+    return [];
+  }
+};
+
+const saveRegions = (regions: OfflineRegion[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(regions));
+};
+
+export const regionTileCount = ({ bounds, minZoom, maxZoom, templates }: RegionRequest): number =>
+  countTiles(bounds, minZoom, maxZoom) * templates.length;
+
+export const estimateRegionSize = (request: RegionRequest): number =>
+  regionTileCount(request) * ESTIMATED_TILE_BYTES;
+
+function* regionTileUrls({ bounds, minZoom, maxZoom, templates }: RegionRequest): Generator<string> {
+  for (const tile of tilesInBounds(bounds, minZoom, maxZoom)) {
+    for (const template of templates) {
+      yield tileUrl(template, tile);
+    }
+  }
+}
+
+// Removes tiles from the cache unless one of the remaining regions still covers them
+const deleteTiles = async (urls: Iterable<string>, remaining: OfflineRegion[]) => {
+  const kept = new Set(remaining.flatMap((region) => [...regionTileUrls(region)]));
+  const cache = await caches.open(TILE_CACHE);
+  for (const url of urls) {
+    if (!kept.has(url)) await cache.delete(url);
+  }
+};
+
+// Fetches a tile for the cache; servers without CORS give an opaque response
+// the map can still show, though its size can't be read
+const fetchTile = async (url: string, signal?: AbortSignal): Promise<{ response: Response; size: number }> => {
+  try {
+    const response = await fetch(url, { mode: 'cors', signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const size = (await response.clone().blob()).size;
+    return { response, size };
+  } catch (error) {
+    if (signal?.aborted || !(error instanceof TypeError)) throw error;
+    return { response: await fetch(url, { mode: 'no-cors', signal }), size: ESTIMATED_TILE_BYTES };
+  }
+};
+
+// Stores every tile of the region's sources and zoom levels for use offline.
+// Tiles that fail are skipped; cancelling removes what was stored so far.
+export const downloadRegion = async (
+  request: RegionRequest,
+  { signal, onProgress }: DownloadOptions = {}
+): Promise<OfflineRegion> => {
+  if (!isOfflineSupported()) {
+    throw new OfflineError('Unsupported', 'This browser cannot store map tiles');
+  }
+  if (request.templates.length === 0) {
+    throw new OfflineError('NoSources', 'None of the shown layers can be downloaded');
+  }
+  const total = regionTileCount(request);
+  if (total > MAX_REGION_TILES) {
+    throw new OfflineError('TooManyTiles', `The region has ${total} tiles; the limit is ${MAX_REGION_TILES}`);
+  }
+
+  const cache = await caches.open(TILE_CACHE);
+  const progress: DownloadProgress = { done: 0, total, failed: 0, bytes: 0 };
+  const stored: string[] = [];
+  const urls = regionTileUrls(request);
+
+  // Each worker takes the next URL until none are left
+  const worker = async () => {
+    for (let next = urls.next(); !next.done; next = urls.next()) {
+      if (signal?.aborted) return;
+      const url = next.value;
+      try {
+        const existing = await cache.match(url);
+        if (existing) {
+          progress.bytes += ESTIMATED_TILE_BYTES;
+        } else {
+          const { response, size } = await fetchTile(url, signal);
+          await cache.put(url, response);
+          stored.push(url);
+          progress.bytes += size;
+        }
+      } catch (error) {
+        if (signal?.aborted) return;
+        console.error(`Error downloading tile ${url}:`, error);
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENT_DOWNLOADS }, worker));
+
+  if (signal?.aborted) {
+    await deleteTiles(stored, loadRegions());
+    throw new OfflineError('Aborted', 'The download was cancelled');
+  }
+
+  const createdAt = new Date();
+  const region: OfflineRegion = {
+    ...request,
+    id: `region-${createdAt.getTime()}`,
+    tileCount: total - progress.failed,
+    size: progress.bytes,
+    createdAt: createdAt.toISOString(),
+    expiresAt: new Date(createdAt.getTime() + REGION_LIFETIME_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  };
+  saveRegions([...loadRegions(), region]);
+  return region;
+};
+
+export const deleteRegion = async (id: string): Promise<OfflineRegion[]> => {
+  const regions = loadRegions();
+  const region = regions.find((candidate) => candidate.id === id);
+  const remaining = regions.filter((candidate) => candidate.id !== id);
+  saveRegions(remaining);
+  if (region && isOfflineSupported()) await deleteTiles(regionTileUrls(region), remaining);
+  return remaining;
+};
+
+// Deletes regions past their expiry, so stale tiles don't stay around forever
+export const pruneExpiredRegions = async (now = new Date()): Promise<OfflineRegion[]> => {
+  let regions = loadRegions();
+  for (const region of regions) {
+    if (new Date(region.expiresAt) <= now) regions = await deleteRegion(region.id);
+  }
+  return regions;
+};
@@ -0,0 +1,12 @@
+// The worker in public/sw.js caches the app and map tiles so the map keeps
+// working without a connection. It's registered once per build, which also
+// names the cache it keeps the build's scripts and styles in.
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`/sw.js?build=${__BUILD_ID__}`).catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+};
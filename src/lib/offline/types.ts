@@ -0,0 +1,41 @@
+import { MapBounds } from '@/types/maps';
+
+export type TileBounds = MapBounds;
+
+// An XYZ source as it was when a region was downloaded, so its tiles can be found again
+export interface TileTemplate {
+  url: string;
+  subdomains?: string;
+}
+
+export interface OfflineRegion {
+  id: string;
+  name: string;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  templates: TileTemplate[];
+  tileCount: number;
+  size: number; // bytes stored, or the estimate where the server hid the size
+  createdAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+}
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+  bytes: number;
+}
+
+export type OfflineErrorCode = 'Unsupported' | 'TooManyTiles' | 'NoSources' | 'Aborted';
+
+export class OfflineError extends Error {
+  code: OfflineErrorCode;
+
+  constructor(code: OfflineErrorCode, message: string) {
+    super(message);
+    this.name = 'OfflineError';
+    this.code = code;
+  }
+}
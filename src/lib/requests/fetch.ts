@@ -0,0 +1,27 @@
+import { createRequestQueue } from './queue';
+
+// Minimum time between requests to public services with a usage policy;
+// Nominatim allows one request per second per application
+const RATE_LIMITS: Record<string, number> = {
+  'nominatim.openstreetmap.org': 1000,
+};
+
+const queues = new Map<string, ReturnType<typeof createRequestQueue>>();
+
+const queueFor = (host: string) => {
+  let queue = queues.get(host);
+  if (!queue) {
+    queue = createRequestQueue(RATE_LIMITS[host]);
+    queues.set(host, queue);
+  }
+  return queue;
+};
+
+// fetch() for third-party APIs. Requests to rate-limited hosts wait their turn.
+// Browsers don't let scripts set User-Agent, so services that want to know who
+// is calling are told through their own parameters, such as Nominatim's email.
+export const politeFetch = (url: string, init: RequestInit = {}): Promise<Response> => {
+  const request = () => fetch(url, init);
+  const { host } = new URL(url);
+  return host in RATE_LIMITS ? queueFor(host)(request, init.signal ?? undefined) : request();
+};
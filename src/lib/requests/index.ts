@@ -0,0 +1,4 @@
+export * from './fetch';
+export * from './persistentCache';
+export * from './queryClient';
+export * from './queue';
@@ -0,0 +1,65 @@
+// Keeps API responses in IndexedDB so they survive reloads. Failures only
+// cost a cache miss, as in private windows where IndexedDB may be missing.
+
+const DB_NAME = 'request-cache';
+const STORE = 'responses';
+
+interface Entry {
+  value: unknown;
+  expiresAt: number; // epoch milliseconds
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Drops everything past its expiry, once per session
+const pruneExpired = (db: IDBDatabase) => {
+  const cursorRequest = db.transaction(STORE, 'readwrite').objectStore(STORE).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if ((cursor.value as Entry).expiresAt <= Date.now()) cursor.delete();
+    cursor.continue();
+  };
+};
+
+const openDatabase = () => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    database = promisify(request).then((db) => {
+      pruneExpired(db);
+      return db;
+    });
+  }
+  return database;
+};
+
+const store = async (mode: IDBTransactionMode) =>
+  (await openDatabase()).transaction(STORE, mode).objectStore(STORE);
+
+export const readCache = async <T>(key: string): Promise<T | undefined> => {
+  if (typeof indexedDB === 'undefined') return undefined;
+  try {
+    const entry = await promisify<Entry | undefined>((await store('readonly')).get(key));
+    return entry && entry.expiresAt > Date.now() ? (entry.value as T) : undefined;
+  } catch (error) {
+    console.error('Error reading request cache:', error);
+    return undefined;
+  }
+};
+
+export const writeCache = async (key: string, value: unknown, ttl: number): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    const entry: Entry = { value, expiresAt: Date.now() + ttl };
+    await promisify((await store('readwrite')).put(entry, key));
+  } catch (error) {
+    console.error('Error writing request cache:', error);
+  }
+};
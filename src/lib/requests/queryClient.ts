@@ -0,0 +1,32 @@
+import { QueryClient, QueryKey } from '@tanstack/react-query';
+import { readCache, writeCache } from './persistentCache';
+
+const MINUTE = 60 * 1000;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+// Shared by the whole app. API answers change rarely, so they're reused for a
+// while rather than refetched whenever the window regains focus.
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 10 * MINUTE,
+      gcTime: 30 * MINUTE,
+      retry: 1,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
+
+// A query function that answers from IndexedDB when it can, and stores what
+// it fetches there for `ttl` milliseconds
+export const persistedQuery = <T>(queryKey: QueryKey, ttl: number, fetcher: () => Promise<T>) =>
+  async (): Promise<T> => {
+    const key = JSON.stringify(queryKey);
+    const cached = await readCache<T>(key);
+    if (cached !== undefined) return cached;
+
+    const value = await fetcher();
+    writeCache(key, value, ttl);
+    return value;
+  };
@@ -0,0 +1,34 @@
+const abortError = (signal?: AbortSignal) => signal?.reason ?? new DOMException('The request was aborted', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError(signal));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs tasks one at a time, starting each at least `interval` ms after the
+// previous one. Tasks cancelled while waiting are dropped when their turn comes.
+export const createRequestQueue = (interval: number) => {
+  let lastStart = 0;
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const run = tail.then(async () => {
+      if (signal?.aborted) throw abortError(signal);
+      const wait = lastStart + interval - Date.now();
+      if (wait > 0) await sleep(wait, signal);
+      lastStart = Date.now();
+      return task();
+    });
+    // A failed task mustn't stall the ones behind it
+    tail = run.catch(() => undefined);
+    return run;
+  };
+};
@@ -0,0 +1,44 @@
+import { Route, RouteAvoidance } from '@/types/maps';
+import { RouteRequest, RoutingProvider } from './types';
+
+// Whether a route uses something the user asked to avoid
+export const violatesAvoidance = (route: Route, avoidance: RouteAvoidance): boolean => {
+  switch (avoidance) {
+    case 'tolls':
+      return route.hasToll;
+    case 'highways':
+      return route.hasHighway;
+    case 'ferries':
+      return route.hasFerry;
+    case 'unpaved':
+      return route.hasUnpaved;
+  }
+};
+
+// Wraps a provider so avoidances it can't pass to the engine are still honoured
+// where possible: alternatives are requested and those using an avoided feature
+// are dropped. If every alternative violates, they are all returned unchanged
+// and the summary card flags the avoidance as unmet.
+export const withAvoidanceFilter = (provider: RoutingProvider): RoutingProvider => ({
+  ...provider,
+
+  route: async (request: RouteRequest): Promise<Route[]> => {
+    const avoid = request.avoid || [];
+    const supported = provider.supportedAvoidances(request.mode);
+    const unsupported = avoid.filter((avoidance) => !supported.includes(avoidance));
+
+    const routes = await provider.route({
+      ...request,
+      avoid: avoid.filter((avoidance) => supported.includes(avoidance)),
+      alternatives: request.alternatives || unsupported.length > 0,
+    });
+    const withAvoid = routes.map((route) => ({ ...route, avoid }));
+
+    const compliant = withAvoid.filter((route) =>
+      unsupported.every((avoidance) => !violatesAvoidance(route, avoidance))
+    );
+    const result = compliant.length > 0 ? compliant : withAvoid;
+
+    return request.alternatives ? result : result.slice(0, 1);
+  },
+});
@@ -0,0 +1,225 @@
+import { Maneuver, ManeuverModifier, ManeuverType, Route, RouteAvoidance, TravelMode } from '@/types/maps';
+import { MatrixRequest, RouteRequest, RoutingError, RoutingProvider } from './types';
+import { buildLegs, getStops, summarizeRoads } from './utils';
+
+interface GraphHopperInstruction {
+  text: string;
+  street_name?: string;
+  distance: number; // in meters
+  time: number; // in milliseconds
+  interval: [number, number];
+  sign: number;
+  exit_number?: number; // on roundabout instructions
+  heading?: number; // on the first instruction
+}
+
+interface GraphHopperPath {
+  distance: number; // in meters
+  time: number; // in milliseconds
+  points: { coordinates: number[][] };
+  instructions: GraphHopperInstruction[];
+  // Path details are [fromIndex, toIndex, value] ranges over the points
+  details?: {
+    toll?: [number, number, string][];
+    road_environment?: [number, number, string][];
+    road_class?: [number, number, string][];
+    surface?: [number, number, string][];
+  };
+}
+
+interface GraphHopperResponse {
+  paths?: GraphHopperPath[];
+  message?: string;
+}
+
+interface GraphHopperMatrixResponse {
+  times?: (number | null)[][]; // in seconds
+  message?: string;
+}
+
+const PROFILES: Record<TravelMode, string> = {
+  driving: 'car',
+  cycling: 'bike',
+  walking: 'foot',
+  wheelchair: 'wheelchair',
+};
+
+const UNPAVED_SURFACES = ['unpaved', 'compacted', 'fine_gravel', 'gravel', 'ground', 'dirt', 'grass', 'sand'];
+
+// Custom model conditions that block each avoided feature outright
+const AVOIDANCE_CONDITIONS: Record<RouteAvoidance, string> = {
+  tolls: 'toll != NO',
+  highways: 'road_class == MOTORWAY',
+  ferries: 'road_environment == FERRY',
+  unpaved: UNPAVED_SURFACES.map((surface) => `surface == ${surface.toUpperCase()}`).join(' || '),
+};
+
+// Instruction sign GraphHopper emits when a via-point is reached
+const SIGN_VIA_REACHED = 5;
+
+// GraphHopper instruction signs as a type and modifier
+const MANEUVER_SIGNS: Record<number, [ManeuverType, ManeuverModifier?]> = {
+  [-98]: ['turn', 'uturn'],
+  [-8]: ['turn', 'uturn'],
+  [-7]: ['fork', 'left'],
+  [-6]: ['exit-roundabout'],
+  [-3]: ['turn', 'sharp left'],
+  [-2]: ['turn', 'left'],
+  [-1]: ['turn', 'slight left'],
+  0: ['continue', 'straight'],
+  1: ['turn', 'slight right'],
+  2: ['turn', 'right'],
+  3: ['turn', 'sharp right'],
+  4: ['arrive'],
+  [SIGN_VIA_REACHED]: ['waypoint'],
+  6: ['roundabout'],
+  7: ['fork', 'right'],
+  8: ['turn', 'uturn'],
+};
+
+const toManeuver = (instruction: GraphHopperInstruction, isFirst: boolean, isFerry: boolean): Maneuver => {
+  const [type, modifier] = MANEUVER_SIGNS[instruction.sign] || ['continue'];
+
+  return {
+    // GraphHopper has no departure sign; the first instruction is the start
+    type: isFirst ? 'depart' : isFerry ? 'ferry' : type,
+    modifier: isFirst ? undefined : modifier,
+    street: instruction.street_name || undefined,
+    exit: instruction.exit_number,
+    bearingAfter: instruction.heading,
+  };
+};
+
+export const createGraphHopperProvider = (baseUrl: string, apiKey: string): RoutingProvider => ({
+  engine: 'graphhopper',
+
+  supportedAvoidances: () => Object.keys(AVOIDANCE_CONDITIONS) as RouteAvoidance[],
+
+  route: async (request: RouteRequest): Promise<Route[]> => {
+    const { origin, destination, waypoints, mode } = request;
+    const stops = getStops(request);
+    const avoid = request.avoid || [];
+    const body = {
+      points: stops.map((location) => location.coordinates),
+      profile: PROFILES[mode],
+      points_encoded: false,
+      instructions: true,
+      details: ['toll', 'road_environment', 'road_class', 'surface'],
+      // GraphHopper only computes alternatives between two points
+      ...(request.alternatives && waypoints.length === 0 && {
+        algorithm: 'alternative_route',
+        'alternative_route.max_paths': 3,
+      }),
+      ...(avoid.length > 0 && {
+        'ch.disable': true,
+        custom_model: {
+          priority: avoid.map((avoidance) => ({ if: AVOIDANCE_CONDITIONS[avoidance], multiply_by: '0' })),
+        },
+      }),
+    };
+    const query = apiKey ? `?key=${encodeURIComponent(apiKey)}` : '';
+
+    let response: Response;
+    let data: GraphHopperResponse;
+    try {
+      response = await fetch(`${baseUrl}/route${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      data = await response.json();
+    } catch (error) {
+      throw new RoutingError('RequestFailed', `GraphHopper request failed: ${error}`);
+    }
+
+    if (!response.ok) {
+      // GraphHopper reports unreachable points with a 400 and a descriptive message
+      const isNoRoute = /connection between locations not found|cannot find point/i.test(data.message || '');
+      throw new RoutingError(isNoRoute ? 'NoRoute' : 'RequestFailed', data.message || 'GraphHopper request failed');
+    }
+
+    if (!data.paths || data.paths.length === 0) {
+      throw new RoutingError('InvalidResponse', 'GraphHopper returned no paths');
+    }
+
+    return data.paths.map((path, pathIndex) => {
+      const geometry = path.points.coordinates.map((coord) => [coord[0], coord[1]] as [number, number]);
+
+      const ferryRanges = (path.details?.road_environment || []).filter(([, , value]) => value === 'ferry');
+      const isFerry = ([from, to]: [number, number]) =>
+        ferryRanges.some(([ferryFrom, ferryTo]) => from < ferryTo && to > ferryFrom);
+
+      // GraphHopper returns a single instruction list; split it into legs at each via-point
+      const rawLegs = [{ distance: 0, duration: 0, steps: [] }];
+      path.instructions.forEach((instruction, index) => {
+        const leg = rawLegs[rawLegs.length - 1];
+        const duration = instruction.time / 1000;
+        const ferry = isFerry(instruction.interval);
+        leg.distance += instruction.distance;
+        leg.duration += duration;
+        leg.steps.push({
+          mode: ferry ? 'ferry' : mode,
+          maneuver: toManeuver(instruction, index === 0, ferry),
+          instruction: instruction.text,
+          distance: instruction.distance,
+          duration,
+          coordinates: geometry.slice(instruction.interval[0], instruction.interval[1] + 1),
+        });
+        if (instruction.sign === SIGN_VIA_REACHED) {
+          rawLegs.push({ distance: 0, duration: 0, steps: [] });
+        }
+      });
+
+      const legs = buildLegs(stops, rawLegs);
+
+      return {
+        id: `route-${pathIndex + 1}`,
+        mode,
+        origin,
+        destination,
+        waypoints,
+        distance: path.distance,
+        duration: path.time / 1000,
+        geometry,
+        legs,
+        steps: legs.flatMap((leg) => leg.steps),
+        roads: summarizeRoads(path.instructions.map((instruction) => ({
+          name: instruction.street_name,
+          distance: instruction.distance,
+        }))),
+        avoid,
+        hasFerry: ferryRanges.length > 0,
+        hasToll: !!path.details?.toll?.some(([, , value]) => value !== 'no'),
+        hasHighway: !!path.details?.road_class?.some(([, , value]) => value === 'motorway'),
+        hasUnpaved: !!path.details?.surface?.some(([, , value]) => UNPAVED_SURFACES.includes(value)),
+      };
+    });
+  },
+
+  matrix: async ({ locations, mode }: MatrixRequest): Promise<number[][]> => {
+    const params = new URLSearchParams({
+      profile: PROFILES[mode],
+      out_array: 'times',
+    });
+    locations.forEach((location) => {
+      params.append('point', `${location.coordinates[1]},${location.coordinates[0]}`);
+    });
+    if (apiKey) {
+      params.set('key', apiKey);
+    }
+
+    let data: GraphHopperMatrixResponse;
+    try {
+      const response = await fetch(`${baseUrl}/matrix?${params.toString()}`);
+      data = await response.json();
+    } catch (error) {
+      throw new RoutingError('RequestFailed', `GraphHopper request failed: ${error}`);
+    }
+
+    if (!data.times) {
+      throw new RoutingError('InvalidResponse', data.message || 'GraphHopper returned no matrix');
+    }
+
+    return data.times.map((row) => row.map((time) => time ?? Infinity));
+  },
+});
@@ -0,0 +1,55 @@
+import { Route, RouteAvoidance, TravelMode } from '@/types/maps';
+import { RoutingEngine, RoutingSettings } from '@/types/settings';
+import { createGraphHopperProvider } from './graphhopper';
+import { createOsrmProvider } from './osrm';
+import { withAvoidanceFilter } from './avoid';
+import { RouteRequest, RoutingProvider } from './types';
+import { createValhallaProvider } from './valhalla';
+
+export * from './avoid';
+export * from './instructions';
+export * from './optimize';
+export * from './track';
+export * from './types';
+export { getStops } from './utils';
+
+export const ROUTING_ENGINES: { value: RoutingEngine; label: string }[] = [
+  { value: 'osrm', label: 'OSRM' },
+  { value: 'valhalla', label: 'Valhalla' },
+  { value: 'graphhopper', label: 'GraphHopper' },
+];
+
+// Labels for these come from the translation catalogues ("mode.driving", "avoidance.tolls")
+export const TRAVEL_MODES: TravelMode[] = ['driving', 'cycling', 'walking', 'wheelchair'];
+
+export const ROUTE_AVOIDANCES: RouteAvoidance[] = ['tolls', 'highways', 'ferries', 'unpaved'];
+
+export const DEFAULT_ROUTING_SETTINGS: RoutingSettings = {
+  engine: 'osrm',
+  baseUrls: {
+    osrm: 'https://router.project-osrm.org',
+    valhalla: 'https://valhalla1.openstreetmap.de',
+    graphhopper: 'https://graphhopper.com/api/1',
+  },
+  graphhopperApiKey: '',
+  avoid: [],
+};
+
+export const createRoutingProvider = (settings: RoutingSettings): RoutingProvider => {
+  const baseUrl = (settings.baseUrls[settings.engine] || DEFAULT_ROUTING_SETTINGS.baseUrls[settings.engine])
+    .replace(/\/+$/, '');
+
+  switch (settings.engine) {
+    case 'valhalla':
+      return withAvoidanceFilter(createValhallaProvider(baseUrl));
+    case 'graphhopper':
+      return withAvoidanceFilter(createGraphHopperProvider(baseUrl, settings.graphhopperApiKey));
+    case 'osrm':
+    default:
+      return withAvoidanceFilter(createOsrmProvider(baseUrl));
+  }
+};
+
+// Routes a request with the engine the user has configured
+export const calculateRoutes = (settings: RoutingSettings, request: RouteRequest): Promise<Route[]> =>
+  createRoutingProvider(settings).route(request);
@@ -0,0 +1,81 @@
+import { createTranslator, hasMessage, MessageKey, Translate } from '@/lib/i18n';
+import { Location, Maneuver, ManeuverModifier, Route, RouteStep } from '@/types/maps';
+
+const CARDINALS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'] as const;
+
+const cardinal = (bearing: number) => CARDINALS[Math.round((((bearing % 360) + 360) % 360) / 45) % 8];
+
+const side = (modifier?: ManeuverModifier) =>
+  modifier?.includes('left') ? 'left' : modifier?.includes('right') ? 'right' : 'straight';
+
+const upperFirst = (text: string) => text.charAt(0).toLocaleUpperCase() + text.slice(1);
+
+// Picks the key and placeholders for a maneuver; keys ending in ".street"
+// are the variants naming the road
+const messageFor = (maneuver: Maneuver, t: Translate, stop?: Location): [MessageKey, Record<string, string | number>] => {
+  const { type, modifier, exit, bearingAfter } = maneuver;
+  const sideParams = { side: t(`side.${side(modifier)}`) };
+
+  switch (type) {
+    case 'depart':
+      return bearingAfter !== undefined
+        ? ['maneuver.depart', { direction: t(`cardinal.${cardinal(bearingAfter)}`) }]
+        : ['maneuver.start', {}];
+    case 'arrive':
+    case 'waypoint':
+      if (stop) return ['maneuver.arrive', { stop: stop.name }];
+      return [type === 'arrive' ? 'maneuver.arrive.destination' : 'maneuver.arrive.stop', {}];
+    case 'merge':
+      return ['maneuver.merge', {}];
+    case 'on-ramp':
+      return ['maneuver.onRamp', {}];
+    case 'off-ramp':
+      return ['maneuver.offRamp', {}];
+    case 'fork':
+      return ['maneuver.fork', sideParams];
+    case 'end-of-road':
+      return ['maneuver.endOfRoad', { side: t(`side.${side(modifier || 'left')}`) }];
+    case 'roundabout':
+      return exit ? ['maneuver.roundabout.exit', { exit }] : ['maneuver.roundabout', {}];
+    case 'exit-roundabout':
+      return ['maneuver.exitRoundabout', {}];
+    case 'ferry':
+      return ['maneuver.ferry', {}];
+    case 'continue':
+      // A bend in the road reads like a turn
+      if (!modifier || modifier === 'straight') return ['maneuver.continue', {}];
+      break;
+  }
+
+  if (modifier === 'uturn') return ['maneuver.uturn', {}];
+  if (!modifier || modifier === 'straight') return ['maneuver.straight', {}];
+  if (modifier.startsWith('slight')) return ['maneuver.slight', sideParams];
+  if (modifier.startsWith('sharp')) return ['maneuver.sharp', sideParams];
+  return ['maneuver.turn', sideParams];
+};
+
+// Instruction text for a maneuver in the translator's language. `stop` is
+// the location a depart/arrive step refers to.
+export const describeManeuver = (maneuver: Maneuver, t: Translate, stop?: Location): string => {
+  const [key, params] = messageFor(maneuver, t, stop);
+  const streetKey = `${key}.street`;
+
+  return upperFirst(
+    maneuver.street && hasMessage(streetKey)
+      ? t(streetKey, { ...params, street: maneuver.street })
+      : t(key, params)
+  );
+};
+
+const english = createTranslator('en');
+
+// Engines that send no wording get English instructions stored on the step
+export const describeManeuverInEnglish = (maneuver: Maneuver, stop?: Location): string =>
+  describeManeuver(maneuver, english, stop);
+
+// A route step's instruction in the translator's language
+export const describeStep = (route: Route, step: RouteStep, t: Translate): string => {
+  const leg = route.legs.find((candidate) => candidate.steps.includes(step));
+  const stop = step.maneuver.type === 'depart' ? leg?.origin : leg?.destination;
+  return describeManeuver(step.maneuver, t, stop);
+};
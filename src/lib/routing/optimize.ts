@@ -0,0 +1,95 @@
+export interface StopOrderOptions {
+  fixFirst?: boolean;
+  fixLast?: boolean;
+}
+
+// Total travel time of visiting stops in the given order (an open path, not a loop)
+export const pathCost = (order: number[], matrix: number[][]): number => {
+  let cost = 0;
+  for (let i = 0; i < order.length - 1; i++) {
+    cost += matrix[order[i]][order[i + 1]];
+  }
+  return cost;
+};
+
+const nearestNeighbourPath = (start: number, matrix: number[][], end: number | null): number[] => {
+  const remaining = new Set(matrix.map((_, index) => index));
+  remaining.delete(start);
+  if (end !== null) remaining.delete(end);
+
+  const path = [start];
+  while (remaining.size > 0) {
+    const current = path[path.length - 1];
+    let next = -1;
+    remaining.forEach((candidate) => {
+      if (next === -1 || matrix[current][candidate] < matrix[current][next]) {
+        next = candidate;
+      }
+    });
+    path.push(next);
+    remaining.delete(next);
+  }
+
+  if (end !== null) path.push(end);
+  return path;
+};
+
+// Repeatedly reverses sub-paths while that shortens the trip. The full cost is
+// recomputed for each candidate because routing matrices are asymmetric
+// (one-way streets), so a reversed segment isn't free to traverse backwards.
+const twoOpt = (path: number[], matrix: number[][], first: number, last: number): number[] => {
+  let best = path;
+  let bestCost = pathCost(best, matrix);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = first; i < last; i++) {
+      for (let j = i + 1; j <= last; j++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, j + 1).reverse(),
+          ...best.slice(j + 1),
+        ];
+        const candidateCost = pathCost(candidate, matrix);
+        if (candidateCost < bestCost) {
+          best = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+};
+
+// Heuristic open-path TSP over a travel-time matrix: nearest neighbour for a
+// starting tour, then 2-opt to untangle it. Index 0 is the first stop and the
+// last index the final stop; either can be pinned in place. Returns the
+// visiting order as indexes into the matrix.
+export const optimizeStopOrder = (
+  matrix: number[][],
+  { fixFirst = true, fixLast = true }: StopOrderOptions = {}
+): number[] => {
+  const count = matrix.length;
+  const identity = matrix.map((_, index) => index);
+  if (count <= 2) return identity;
+
+  const end = fixLast ? count - 1 : null;
+  const starts = fixFirst ? [0] : identity.filter((index) => index !== end);
+
+  let best = identity;
+  let bestCost = pathCost(identity, matrix);
+  starts.forEach((start) => {
+    const path = nearestNeighbourPath(start, matrix, end);
+    const optimized = twoOpt(path, matrix, fixFirst ? 1 : 0, fixLast ? count - 2 : count - 1);
+    const cost = pathCost(optimized, matrix);
+    if (cost < bestCost) {
+      best = optimized;
+      bestCost = cost;
+    }
+  });
+
+  return best;
+};
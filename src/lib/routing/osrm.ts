@@ -0,0 +1,200 @@
+import { Maneuver, ManeuverModifier, ManeuverType, Route, RouteAvoidance, TravelMode } from '@/types/maps';
+import { MatrixRequest, RouteRequest, RoutingError, RoutingProvider } from './types';
+import { buildLegs, getStops, summarizeRoads } from './utils';
+
+interface OsrmStep {
+  name?: string;
+  ref?: string;
+  mode: string;
+  distance: number;
+  duration: number;
+  geometry: { coordinates: number[][] };
+  maneuver: {
+    type: string;
+    modifier?: ManeuverModifier;
+    bearing_before: number;
+    bearing_after: number;
+    exit?: number;
+  };
+  intersections?: { classes?: string[] }[];
+}
+
+interface OsrmLeg {
+  distance: number;
+  duration: number;
+  steps: OsrmStep[];
+}
+
+interface OsrmRoute {
+  distance: number;
+  duration: number;
+  geometry: { coordinates: number[][] };
+  legs: OsrmLeg[];
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations?: (number | null)[][];
+}
+
+interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes?: OsrmRoute[];
+  waypoints?: { distance: number }[]; // how far each input was moved to reach the network
+}
+
+// OSRM has no accessibility-aware profile, so wheelchair users get the foot network
+const PROFILES: Record<TravelMode, string> = {
+  driving: 'driving',
+  cycling: 'cycling',
+  walking: 'foot',
+  wheelchair: 'foot',
+};
+
+// Road classes OSRM's car profile can exclude; other profiles define none
+const EXCLUDE_CLASSES: Partial<Record<RouteAvoidance, string>> = {
+  tolls: 'toll',
+  highways: 'motorway',
+  ferries: 'ferry',
+};
+
+// OSRM snaps every input to the nearest road, however far away it is. A point
+// out at sea or on an unconnected island gets snapped to some distant shore and
+// the resulting path looks like a flight; treat large snaps as "no route".
+const MAX_SNAP_DISTANCE = 2000;
+
+// OSRM maneuver types that differ from ours; "notification" and "use lane"
+// don't change the road and read as carrying on
+const MANEUVER_TYPES: Record<string, ManeuverType> = {
+  'new name': 'continue',
+  notification: 'continue',
+  'use lane': 'continue',
+  'on ramp': 'on-ramp',
+  'off ramp': 'off-ramp',
+  'end of road': 'end-of-road',
+  rotary: 'roundabout',
+  'roundabout turn': 'turn',
+  'exit roundabout': 'exit-roundabout',
+  'exit rotary': 'exit-roundabout',
+};
+
+const toManeuver = (step: OsrmStep, isLastLeg: boolean): Maneuver => {
+  let type = MANEUVER_TYPES[step.maneuver.type] || (step.maneuver.type as ManeuverType);
+  if (step.mode === 'ferry') type = 'ferry';
+  // Every leg ends with an "arrive"; only the last one is the destination
+  if (type === 'arrive' && !isLastLeg) type = 'waypoint';
+
+  return {
+    type,
+    modifier: step.maneuver.modifier,
+    street: step.name || step.ref || undefined,
+    exit: step.maneuver.exit,
+    bearingBefore: step.maneuver.bearing_before,
+    bearingAfter: step.maneuver.bearing_after,
+  };
+};
+
+const toCoordinateList = (locations: { coordinates: [number, number] }[]) =>
+  locations.map((location) => `${location.coordinates[0]},${location.coordinates[1]}`).join(';');
+
+const toCoordinates = (coordinates: number[][]) =>
+  coordinates.map((coord) => [coord[0], coord[1]] as [number, number]);
+
+export const createOsrmProvider = (baseUrl: string): RoutingProvider => ({
+  engine: 'osrm',
+
+  supportedAvoidances: (mode: TravelMode) =>
+    mode === 'driving' ? (Object.keys(EXCLUDE_CLASSES) as RouteAvoidance[]) : [],
+
+  route: async (request: RouteRequest): Promise<Route[]> => {
+    const { origin, destination, waypoints, mode } = request;
+    const stops = getStops(request);
+    const coordinates = toCoordinateList(stops);
+    // OSRM only computes alternatives between two coordinates
+    const alternatives = request.alternatives && waypoints.length === 0;
+    const exclude = (request.avoid || []).map((avoidance) => EXCLUDE_CLASSES[avoidance]).filter(Boolean);
+
+    let data: OsrmResponse;
+    try {
+      const response = await fetch(
+        `${baseUrl}/route/v1/${PROFILES[mode]}/${coordinates}?overview=full&geometries=geojson&steps=true&alternatives=${alternatives ? 'true' : 'false'}${exclude.length > 0 ? `&exclude=${exclude.join(',')}` : ''}`
+      );
+      data = await response.json();
+    } catch (error) {
+      throw new RoutingError('RequestFailed', `OSRM request failed: ${error}`);
+    }
+
+    if (data.code === 'NoRoute') {
+      throw new RoutingError('NoRoute', data.message || 'No route found');
+    }
+
+    if (!data.routes || data.routes.length === 0) {
+      throw new RoutingError('InvalidResponse', data.message || 'OSRM returned no routes');
+    }
+
+    if (data.waypoints?.some((waypoint) => waypoint.distance > MAX_SNAP_DISTANCE)) {
+      throw new RoutingError('NoRoute', 'A location is too far from the road network');
+    }
+
+    return data.routes.map((routeData, routeIndex) => {
+      const osrmSteps = routeData.legs.flatMap((leg) => leg.steps);
+      const hasClass = (roadClass: string) =>
+        osrmSteps.some((step) =>
+          step.intersections?.some((intersection) => intersection.classes?.includes(roadClass))
+        );
+
+      // OSRM's public server sends no instruction text, so it's always written locally
+      const legs = buildLegs(stops, routeData.legs.map((leg, legIndex) => ({
+        distance: leg.distance,
+        duration: leg.duration,
+        steps: leg.steps.map((step) => ({
+          mode: step.mode === 'ferry' ? 'ferry' : mode,
+          maneuver: toManeuver(step, legIndex === routeData.legs.length - 1),
+          distance: step.distance,
+          duration: step.duration,
+          coordinates: toCoordinates(step.geometry.coordinates),
+        })),
+      })));
+
+      return {
+        id: `route-${routeIndex + 1}`,
+        mode,
+        origin,
+        destination,
+        waypoints,
+        distance: routeData.distance,
+        duration: routeData.duration,
+        geometry: toCoordinates(routeData.geometry.coordinates),
+        legs,
+        steps: legs.flatMap((leg) => leg.steps),
+        roads: summarizeRoads(osrmSteps),
+        avoid: request.avoid || [],
+        hasFerry: osrmSteps.some((step) => step.mode === 'ferry'),
+        hasToll: hasClass('toll'),
+        hasHighway: hasClass('motorway'),
+        // OSRM doesn't report surfaces
+        hasUnpaved: false,
+      };
+    });
+  },
+
+  matrix: async ({ locations, mode }: MatrixRequest): Promise<number[][]> => {
+    let data: OsrmTableResponse;
+    try {
+      const response = await fetch(
+        `${baseUrl}/table/v1/${PROFILES[mode]}/${toCoordinateList(locations)}?annotations=duration`
+      );
+      data = await response.json();
+    } catch (error) {
+      throw new RoutingError('RequestFailed', `OSRM request failed: ${error}`);
+    }
+
+    if (data.code !== 'Ok' || !data.durations) {
+      throw new RoutingError('InvalidResponse', data.message || 'OSRM returned no duration table');
+    }
+
+    return data.durations.map((row) => row.map((duration) => duration ?? Infinity));
+  },
+});
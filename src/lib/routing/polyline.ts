@@ -0,0 +1,29 @@
+// Decodes a Google encoded polyline into [longitude, latitude] pairs.
+// Valhalla uses precision 6, most other services use precision 5.
+export const decodePolyline = (encoded: string, precision = 5): [number, number][] => {
+  const factor = Math.pow(10, precision);
+  const coordinates: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    coordinates.push([lng / factor, lat / factor]);
+  }
+
+  return coordinates;
+};
@@ -0,0 +1,120 @@
+import { bearing, cumulativeDistances } from '@/lib/geo';
+import { Location, Maneuver, ManeuverModifier, Route, TravelMode } from '@/types/maps';
+import { buildLegs } from './utils';
+
+// Rough average speeds in m/s, for estimating how long a track takes when
+// no engine has timed it
+const TRACK_SPEEDS: Record<TravelMode, number> = {
+  driving: 50 / 3.6,
+  cycling: 16 / 3.6,
+  walking: 5 / 3.6,
+  wheelchair: 4 / 3.6,
+};
+
+// The turn between two headings, in the same terms the engines use
+const turnModifier = (bearingBefore: number, bearingAfter: number): ManeuverModifier => {
+  const angle = ((bearingAfter - bearingBefore + 540) % 360) - 180; // -180..180, positive is right
+  const size = Math.abs(angle);
+  const side = angle > 0 ? 'right' : 'left';
+  if (size < 20) return 'straight';
+  if (size < 60) return `slight ${side}`;
+  if (size < 120) return side;
+  if (size < 170) return `sharp ${side}`;
+  return 'uturn';
+};
+
+const trackLocation = (id: string, name: string, coordinates: [number, number]): Location => ({
+  id,
+  name,
+  address: `${coordinates[1].toFixed(6)}, ${coordinates[0].toFixed(6)}`,
+  coordinates,
+});
+
+interface TrackOptions {
+  mode: TravelMode;
+  originName: string;
+  destinationName: string;
+  // A planned route's turn points are named; a recorded track has none, and
+  // becomes a single step from start to finish
+  pointNames?: (string | undefined)[];
+}
+
+// Turns an imported line into a Route so it can be shown and navigated like
+// a calculated one. Distances are measured; durations are estimated.
+export const routeFromTrack = (
+  coordinates: [number, number][],
+  { mode, originName, destinationName, pointNames }: TrackOptions
+): Route => {
+  const distances = cumulativeDistances(coordinates);
+  const distance = distances[distances.length - 1];
+  const speed = TRACK_SPEEDS[mode];
+  const origin = trackLocation('track-origin', pointNames?.[0] || originName, coordinates[0]);
+  const destination = trackLocation(
+    'track-destination',
+    pointNames?.[coordinates.length - 1] || destinationName,
+    coordinates[coordinates.length - 1]
+  );
+
+  // Step boundaries: every turn point of a planned route, or just the ends
+  const breaks = pointNames ? coordinates.map((_, index) => index) : [0, coordinates.length - 1];
+
+  const steps = breaks.slice(0, -1).map((start, index) => {
+    const end = breaks[index + 1];
+    const stepDistance = distances[end] - distances[start];
+    const bearingAfter = bearing(coordinates[start], coordinates[start + 1]);
+    let maneuver: Maneuver = { type: 'depart', bearingAfter };
+
+    if (index > 0) {
+      const bearingBefore = bearing(coordinates[start - 1], coordinates[start]);
+      const modifier = turnModifier(bearingBefore, bearingAfter);
+      maneuver = {
+        type: modifier === 'straight' ? 'continue' : 'turn',
+        modifier,
+        street: pointNames?.[start],
+        bearingBefore,
+        bearingAfter,
+      };
+    }
+
+    return {
+      mode,
+      maneuver,
+      distance: stepDistance,
+      duration: stepDistance / speed,
+      coordinates: coordinates.slice(start, end + 1),
+    };
+  });
+
+  const arrival = {
+    mode,
+    maneuver: { type: 'arrive' as const },
+    distance: 0,
+    duration: 0,
+    coordinates: [coordinates[coordinates.length - 1]],
+  };
+
+  const legs = buildLegs([origin, destination], [{
+    distance,
+    duration: distance / speed,
+    steps: [...steps, arrival],
+  }]);
+
+  return {
+    id: `track-${Date.now()}`,
+    mode,
+    origin,
+    destination,
+    waypoints: [],
+    distance,
+    duration: distance / speed,
+    geometry: coordinates,
+    legs,
+    steps: legs.flatMap((leg) => leg.steps),
+    roads: [],
+    avoid: [],
+    hasFerry: false,
+    hasToll: false,
+    hasHighway: false,
+    hasUnpaved: false,
+  };
+};
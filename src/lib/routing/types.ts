@@ -0,0 +1,40 @@
+import { Location, Route, RouteAvoidance, TravelMode } from '@/types/maps';
+import { RoutingEngine } from '@/types/settings';
+
+export interface RouteRequest {
+  origin: Location;
+  destination: Location;
+  waypoints: Location[];
+  mode: TravelMode;
+  avoid?: RouteAvoidance[];
+  alternatives?: boolean;
+}
+
+export interface MatrixRequest {
+  locations: Location[];
+  mode: TravelMode;
+}
+
+export interface RoutingProvider {
+  engine: RoutingEngine;
+  // The recommended route first, followed by any alternatives
+  route: (request: RouteRequest) => Promise<Route[]>;
+  // Avoidances the engine can honour itself for a travel mode; others are
+  // applied by filtering the returned alternatives
+  supportedAvoidances: (mode: TravelMode) => RouteAvoidance[];
+  // Travel times in seconds between every pair of locations; matrix[from][to].
+  // Unreachable pairs are Infinity.
+  matrix: (request: MatrixRequest) => Promise<number[][]>;
+}
+
+export type RoutingErrorCode = 'NoRoute' | 'InvalidResponse' | 'RequestFailed';
+
+export class RoutingError extends Error {
+  code: RoutingErrorCode;
+
+  constructor(code: RoutingErrorCode, message: string) {
+    super(message);
+    this.name = 'RoutingError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,58 @@
+import { Location, RouteLeg, RouteStep } from '@/types/maps';
+import { describeManeuverInEnglish } from './instructions';
+import { RouteRequest } from './types';
+
+// All stops of a request in visiting order: origin, via-points, destination
+export const getStops = ({ origin, waypoints, destination }: RouteRequest): Location[] => [
+  origin,
+  ...waypoints,
+  destination,
+];
+
+interface RawLeg {
+  distance: number;
+  duration: number;
+  // Engines without usable wording leave the instruction out
+  steps: (Omit<RouteStep, 'id' | 'instruction'> & { instruction?: string })[];
+}
+
+// Pairs each raw leg with the stops it connects and numbers steps across the
+// whole route, so step ids stay unique when the legs are flattened. Missing
+// instructions are written from the structured maneuver.
+export const buildLegs = (stops: Location[], rawLegs: RawLeg[]): RouteLeg[] => {
+  let stepIndex = 0;
+
+  return rawLegs.map((leg, legIndex) => ({
+    id: `leg-${legIndex}`,
+    origin: stops[legIndex],
+    destination: stops[legIndex + 1],
+    distance: leg.distance,
+    duration: leg.duration,
+    steps: leg.steps.map((step) => {
+      const index = stepIndex++;
+      return {
+        ...step,
+        id: `step-${index}`,
+        instruction: step.instruction || describeManeuverInEnglish(
+          step.maneuver,
+          step.maneuver.type === 'depart' ? stops[legIndex] : stops[legIndex + 1]
+        ),
+      };
+    }),
+  }));
+};
+
+// Names of the roads carrying most of the route's distance, used to tell
+// alternatives apart ("via A1, B2")
+export const summarizeRoads = (segments: { name?: string; distance: number }[], limit = 2): string[] => {
+  const totals = new Map<string, number>();
+  segments.forEach(({ name, distance }) => {
+    if (!name) return;
+    totals.set(name, (totals.get(name) || 0) + distance);
+  });
+
+  return [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([name]) => name);
+};
@@ -0,0 +1,248 @@
+import { Maneuver, ManeuverModifier, ManeuverType, Route, RouteAvoidance, TravelMode } from '@/types/maps';
+import { decodePolyline } from './polyline';
+import { MatrixRequest, RouteRequest, RoutingError, RoutingProvider } from './types';
+import { buildLegs, getStops, summarizeRoads } from './utils';
+
+interface ValhallaManeuver {
+  type: number;
+  instruction: string;
+  street_names?: string[];
+  roundabout_exit_count?: number;
+  bearing_before?: number;
+  bearing_after?: number;
+  length: number; // in kilometers
+  time: number; // in seconds
+  begin_shape_index: number;
+  end_shape_index: number;
+}
+
+interface ValhallaLeg {
+  shape: string;
+  maneuvers: ValhallaManeuver[];
+  summary: { length: number; time: number };
+}
+
+interface ValhallaTrip {
+  legs: ValhallaLeg[];
+  summary: { length: number; time: number; has_toll?: boolean; has_ferry?: boolean; has_highway?: boolean };
+}
+
+interface ValhallaResponse {
+  trip?: ValhallaTrip;
+  alternates?: { trip: ValhallaTrip }[];
+  error_code?: number;
+  error?: string;
+}
+
+interface ValhallaMatrixResponse {
+  sources_to_targets?: { time: number | null }[][];
+  error?: string;
+}
+
+// Maneuver type that boards a ferry; the maneuver covers the crossing itself
+const MANEUVER_FERRY_ENTER = 28;
+
+// Valhalla's numeric maneuver types as a type and modifier; anything not
+// listed (transit, elevators, ...) is treated as carrying on
+const MANEUVER_TYPES: Record<number, [ManeuverType, ManeuverModifier?]> = {
+  1: ['depart'],
+  2: ['depart', 'right'],
+  3: ['depart', 'left'],
+  4: ['arrive'],
+  5: ['arrive', 'right'],
+  6: ['arrive', 'left'],
+  7: ['continue'],
+  8: ['continue', 'straight'],
+  9: ['turn', 'slight right'],
+  10: ['turn', 'right'],
+  11: ['turn', 'sharp right'],
+  12: ['turn', 'uturn'],
+  13: ['turn', 'uturn'],
+  14: ['turn', 'sharp left'],
+  15: ['turn', 'left'],
+  16: ['turn', 'slight left'],
+  17: ['on-ramp', 'straight'],
+  18: ['on-ramp', 'right'],
+  19: ['on-ramp', 'left'],
+  20: ['off-ramp', 'right'],
+  21: ['off-ramp', 'left'],
+  22: ['fork', 'straight'],
+  23: ['fork', 'right'],
+  24: ['fork', 'left'],
+  25: ['merge'],
+  26: ['roundabout'],
+  27: ['exit-roundabout'],
+  [MANEUVER_FERRY_ENTER]: ['ferry'],
+  36: ['merge', 'right'],
+  37: ['merge', 'left'],
+};
+
+const toManeuver = (maneuver: ValhallaManeuver, isLastLeg: boolean): Maneuver => {
+  const [type, modifier] = MANEUVER_TYPES[maneuver.type] || ['continue'];
+
+  return {
+    // Every leg ends at a destination; only the last one is the trip's
+    type: type === 'arrive' && !isLastLeg ? 'waypoint' : type,
+    modifier,
+    street: maneuver.street_names?.[0],
+    exit: maneuver.roundabout_exit_count,
+    bearingBefore: maneuver.bearing_before,
+    bearingAfter: maneuver.bearing_after,
+  };
+};
+
+// Valhalla error codes meaning the locations could not be connected, as
+// opposed to a malformed request or a server failure.
+const NO_ROUTE_ERROR_CODES = [170, 171, 442, 443];
+
+const COSTING: Record<TravelMode, string> = {
+  driving: 'auto',
+  cycling: 'bicycle',
+  walking: 'pedestrian',
+  wheelchair: 'pedestrian',
+};
+
+const toValhallaLocation = (location: { coordinates: [number, number] }) => ({
+  lon: location.coordinates[0],
+  lat: location.coordinates[1],
+});
+
+// Costing options that implement each avoidance, per costing model
+const AVOIDANCE_OPTIONS: Record<string, Partial<Record<RouteAvoidance, Record<string, number | boolean>>>> = {
+  auto: {
+    tolls: { use_tolls: 0 },
+    highways: { use_highways: 0 },
+    ferries: { use_ferry: 0 },
+    unpaved: { exclude_unpaved: true },
+  },
+  bicycle: {
+    ferries: { use_ferry: 0 },
+    unpaved: { avoid_bad_surfaces: 1 },
+  },
+  pedestrian: {
+    ferries: { use_ferry: 0 },
+  },
+};
+
+const costingFor = (mode: TravelMode, avoid: RouteAvoidance[] = []) => {
+  const costing = COSTING[mode];
+  const options = Object.assign(
+    // The wheelchair pedestrian type avoids steps and steep or rough surfaces
+    mode === 'wheelchair' ? { type: 'wheelchair' } : {},
+    ...avoid.map((avoidance) => AVOIDANCE_OPTIONS[costing][avoidance])
+  );
+
+  return {
+    costing,
+    ...(Object.keys(options).length > 0 && { costing_options: { [costing]: options } }),
+  };
+};
+
+export const createValhallaProvider = (baseUrl: string): RoutingProvider => ({
+  engine: 'valhalla',
+
+  supportedAvoidances: (mode: TravelMode) =>
+    Object.keys(AVOIDANCE_OPTIONS[COSTING[mode]]) as RouteAvoidance[],
+
+  route: async (request: RouteRequest): Promise<Route[]> => {
+    const { origin, destination, waypoints, mode } = request;
+    const stops = getStops(request);
+    const body = {
+      locations: stops.map(toValhallaLocation),
+      ...costingFor(mode, request.avoid),
+      directions_options: { units: 'kilometers' },
+      // Valhalla only computes alternates between two locations
+      ...(request.alternatives && waypoints.length === 0 && { alternates: 2 }),
+    };
+
+    let data: ValhallaResponse;
+    try {
+      const response = await fetch(`${baseUrl}/route`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      data = await response.json();
+    } catch (error) {
+      throw new RoutingError('RequestFailed', `Valhalla request failed: ${error}`);
+    }
+
+    if (data.error_code && NO_ROUTE_ERROR_CODES.includes(data.error_code)) {
+      throw new RoutingError('NoRoute', data.error || 'No route found');
+    }
+
+    if (!data.trip || data.trip.legs.length === 0) {
+      throw new RoutingError('InvalidResponse', data.error || 'Valhalla returned no trip');
+    }
+
+    const trips = [data.trip, ...(data.alternates || []).map((alternate) => alternate.trip)];
+
+    return trips.map((trip, tripIndex) => {
+      // Each leg carries its own shape; maneuver shape indexes are relative to it
+      const legShapes = trip.legs.map((leg) => decodePolyline(leg.shape, 6));
+      const maneuvers = trip.legs.flatMap((leg) => leg.maneuvers);
+
+      const legs = buildLegs(stops, trip.legs.map((leg, legIndex) => ({
+        distance: leg.summary.length * 1000,
+        duration: leg.summary.time,
+        steps: leg.maneuvers.map((maneuver) => ({
+          mode: maneuver.type === MANEUVER_FERRY_ENTER ? 'ferry' : mode,
+          maneuver: toManeuver(maneuver, legIndex === trip.legs.length - 1),
+          instruction: maneuver.instruction,
+          distance: maneuver.length * 1000,
+          duration: maneuver.time,
+          coordinates: legShapes[legIndex].slice(maneuver.begin_shape_index, maneuver.end_shape_index + 1),
+        })),
+      })));
+
+      return {
+        id: `route-${tripIndex + 1}`,
+        mode,
+        origin,
+        destination,
+        waypoints,
+        distance: trip.summary.length * 1000,
+        duration: trip.summary.time,
+        geometry: legShapes.flat(),
+        legs,
+        steps: legs.flatMap((leg) => leg.steps),
+        roads: summarizeRoads(maneuvers.map((maneuver) => ({
+          name: maneuver.street_names?.[0],
+          distance: maneuver.length,
+        }))),
+        avoid: request.avoid || [],
+        hasFerry: !!trip.summary.has_ferry || maneuvers.some((maneuver) => maneuver.type === MANEUVER_FERRY_ENTER),
+        hasToll: !!trip.summary.has_toll,
+        hasHighway: !!trip.summary.has_highway,
+        // Valhalla doesn't summarise surfaces; unpaved roads are avoided in costing instead
+        hasUnpaved: false,
+      };
+    });
+  },
+
+  matrix: async ({ locations, mode }: MatrixRequest): Promise<number[][]> => {
+    const body = {
+      sources: locations.map(toValhallaLocation),
+      targets: locations.map(toValhallaLocation),
+      ...costingFor(mode),
+    };
+
+    let data: ValhallaMatrixResponse;
+    try {
+      const response = await fetch(`${baseUrl}/sources_to_targets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      data = await response.json();
+    } catch (error) {
+      throw new RoutingError('RequestFailed', `Valhalla request failed: ${error}`);
+    }
+
+    if (!data.sources_to_targets) {
+      throw new RoutingError('InvalidResponse', data.error || 'Valhalla returned no matrix');
+    }
+
+    return data.sources_to_targets.map((row) => row.map((cell) => cell.time ?? Infinity));
+  },
+});
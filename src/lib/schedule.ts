@@ -0,0 +1,37 @@
+import { addSeconds, format, isSameDay, Locale } from 'date-fns';
+import { Route, TripTime } from '@/types/maps';
+
+export interface TripSchedule {
+  departure: Date;
+  arrival: Date;
+  // Time of day each step starts, keyed by step id
+  stepTimes: Record<string, Date>;
+}
+
+// Works out when to leave and arrive for a route. "Arrive by" trips are
+// planned backwards from the arrival time, giving the latest departure.
+export const scheduleTrip = (route: Route, tripTime: TripTime, now: Date = new Date()): TripSchedule => {
+  const departure =
+    tripTime.type === 'arrive'
+      ? addSeconds(tripTime.time, -route.duration)
+      : tripTime.type === 'depart'
+        ? tripTime.time
+        : now;
+
+  const stepTimes: Record<string, Date> = {};
+  let elapsed = 0;
+  route.steps.forEach((step) => {
+    stepTimes[step.id] = addSeconds(departure, elapsed);
+    elapsed += step.duration;
+  });
+
+  return {
+    departure,
+    arrival: addSeconds(departure, route.duration),
+    stepTimes,
+  };
+};
+
+// "14:32", or "Tue 14:32" when the time falls on a different day than the reference
+export const formatClockTime = (date: Date, reference: Date = new Date(), locale?: Locale): string =>
+  format(date, isSameDay(date, reference) ? 'HH:mm' : 'EEE HH:mm', { locale });
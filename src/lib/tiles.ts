@@ -0,0 +1,154 @@
+import { TileSource } from '@/types/maps';
+import { MapSettings } from '@/types/settings';
+
+const OSM_ATTRIBUTION = '© OpenStreetMap contributors';
+
+export const DEFAULT_SATELLITE_URL =
+  'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}';
+
+export const BASE_LAYERS: TileSource[] = [
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    labelKey: 'layers.standard',
+    kind: 'xyz',
+    role: 'base',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: OSM_ATTRIBUTION,
+    maxZoom: 19,
+    cors: true,
+  },
+  {
+    id: 'opentopomap',
+    name: 'OpenTopoMap',
+    labelKey: 'layers.topo',
+    kind: 'xyz',
+    role: 'base',
+    url: 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: `${OSM_ATTRIBUTION}, SRTM | Style: © OpenTopoMap (CC-BY-SA)`,
+    maxZoom: 17,
+    cors: true,
+  },
+  {
+    id: 'cyclosm',
+    name: 'CyclOSM',
+    labelKey: 'layers.cycle',
+    kind: 'xyz',
+    role: 'base',
+    url: 'https://{s}.tile-cyclosm.openstreetmap.fr/cyclosm/{z}/{x}/{y}.png',
+    attribution: `CyclOSM | ${OSM_ATTRIBUTION}`,
+    maxZoom: 20,
+    cors: true,
+  },
+  {
+    id: 'dark',
+    name: 'CARTO Dark Matter',
+    labelKey: 'layers.dark',
+    kind: 'xyz',
+    role: 'base',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}.png',
+    attribution: `${OSM_ATTRIBUTION} © CARTO`,
+    maxZoom: 20,
+    cors: true,
+    subdomains: 'abcd',
+  },
+  {
+    // The URL comes from the settings, so imagery can be pointed at any provider
+    id: 'satellite',
+    name: 'Satellite',
+    labelKey: 'layers.satellite',
+    kind: 'xyz',
+    role: 'base',
+    url: DEFAULT_SATELLITE_URL,
+    attribution: 'Imagery © Esri',
+    maxZoom: 19,
+    cors: true,
+  },
+];
+
+export const OVERLAY_LAYERS: TileSource[] = [
+  {
+    id: 'hillshading',
+    name: 'Hillshading',
+    labelKey: 'layers.hillshading',
+    kind: 'xyz',
+    role: 'overlay',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/Elevation/World_Hillshade/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Hillshade © Esri',
+    maxZoom: 19,
+    cors: true,
+    // The hillshade is opaque grey, so it's blended over the base map
+    opacity: 0.35,
+  },
+  {
+    id: 'rail',
+    name: 'OpenRailwayMap',
+    labelKey: 'layers.rail',
+    kind: 'xyz',
+    role: 'overlay',
+    url: 'https://{s}.tiles.openrailwaymap.org/standard/{z}/{x}/{y}.png',
+    attribution: 'OpenRailwayMap (CC-BY-SA)',
+    maxZoom: 19,
+    cors: true,
+  },
+  {
+    id: 'cycle-routes',
+    name: 'Waymarked Trails',
+    labelKey: 'layers.cycleRoutes',
+    kind: 'xyz',
+    role: 'overlay',
+    url: 'https://tile.waymarkedtrails.org/cycling/{z}/{x}/{y}.png',
+    attribution: '© waymarkedtrails.org',
+    maxZoom: 18,
+    cors: true,
+  },
+];
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  baseLayer: 'osm',
+  overlays: [],
+  satelliteUrl: DEFAULT_SATELLITE_URL,
+  customSources: [],
+};
+
+// The built-in sources followed by the user's own, with the settings applied
+export const tileSources = (settings: MapSettings): TileSource[] => [
+  ...BASE_LAYERS.map((source) => {
+    if (source.id !== 'satellite' || !settings.satelliteUrl || settings.satelliteUrl === DEFAULT_SATELLITE_URL) {
+      return source;
+    }
+    // Another imagery server may not allow CORS
+    return { ...source, url: settings.satelliteUrl, cors: false };
+  }),
+  ...OVERLAY_LAYERS,
+  ...settings.customSources,
+];
+
+// The base map to draw, falling back to OpenStreetMap if the saved one was removed.
+// The standard map follows the theme; picking any other keeps it in both themes.
+export const activeBaseLayer = (settings: MapSettings, theme: 'light' | 'dark' = 'light'): TileSource => {
+  const sources = tileSources(settings);
+  const selected = sources.find((source) => source.role === 'base' && source.id === settings.baseLayer) ?? sources[0];
+  if (theme === 'dark' && selected.id === 'osm') {
+    return sources.find((source) => source.id === 'dark') ?? selected;
+  }
+  return selected;
+};
+
+export const activeOverlays = (settings: MapSettings): TileSource[] => {
+  const sources = tileSources(settings);
+  return settings.overlays.flatMap((id) => sources.filter((source) => source.role === 'overlay' && source.id === id));
+};
+
+export type TileSourceProblem = 'missingName' | 'invalidUrl' | 'missingPlaceholders' | 'missingWmsLayers';
+
+// What's wrong with a source the user entered, or null if it can be drawn
+export const validateTileSource = (source: Pick<TileSource, 'name' | 'kind' | 'url' | 'wmsLayers'>): TileSourceProblem | null => {
+  if (!source.name.trim()) return 'missingName';
+  if (!/^https?:\/\//i.test(source.url.trim())) return 'invalidUrl';
+  if (source.kind === 'xyz' && !['{z}', '{x}', '{y}'].every((placeholder) => source.url.includes(placeholder))) {
+    return 'missingPlaceholders';
+  }
+  if (source.kind === 'wms' && !source.wmsLayers?.trim()) return 'missingWmsLayers';
+  return null;
+};
@@ -1,5 +1,9 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { registerServiceWorker } from './lib/offline'
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// In development the worker would serve stale modules over Vite's
+if (import.meta.env.PROD) registerServiceWorker();
@@ -1,37 +1,173 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import MapView from '@/components/MapView';
 import SearchPanel from '@/components/SearchPanel';
 import DirectionsPanel from '@/components/DirectionsPanel';
 import { ThemeToggle } from '@/components/ThemeToggle';
-import { Location, Route } from '@/types/maps';
+import { SettingsDialog } from '@/components/SettingsDialog';
+import { useSettings } from '@/components/SettingsProvider';
+import NavigationBanner from '@/components/NavigationBanner';
+import NotFound from '@/pages/NotFound';
+import OverlayPanel from '@/components/OverlayPanel';
+import { useNavigation } from '@/hooks/use-navigation';
+import { useVoiceGuidance } from '@/hooks/use-voice-guidance';
+import { toast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import { directionsPath, parseDeepLink, placePath, viewPath } from '@/lib/deepLinks';
+import { FileFormatError, OVERLAY_COLORS, promotableLine, readOverlayFile } from '@/lib/formats';
+import { isSpeechSupported } from '@/lib/navigation';
+import { calculateRoutes, routeFromTrack, RouteRequest } from '@/lib/routing';
+import { Location, MapViewport, Route, TravelMode } from '@/types/maps';
+import { Overlay } from '@/types/overlays';
 
 const Index = () => {
-  const [selectedLocation, setSelectedLocation] = useState<Location | null>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  // What the URL asked for when the page opened; after that the app writes the URL itself
+  const [deepLink] = useState(() => parseDeepLink(location.pathname, location.search));
+  const [selectedLocation, setSelectedLocation] = useState<Location | null>(
+    deepLink.type === 'place' ? deepLink.location : null
+  );
   const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
   const [route, setRoute] = useState<Route | null>(null);
-  const [isDirectionsMode, setIsDirectionsMode] = useState(false);
+  const [routes, setRoutes] = useState<Route[]>([]);
+  const [isDirectionsMode, setIsDirectionsMode] = useState(deepLink.type === 'directions');
+  const [linkedRequest, setLinkedRequest] = useState<RouteRequest | null>(
+    deepLink.type === 'directions' ? deepLink.request : null
+  );
+  const [mapView, setMapView] = useState<MapViewport | null>(deepLink.type === 'view' ? deepLink.view : null);
   const [destination, setDestination] = useState<Location | null>(null);
   const [zoomToCoordinates, setZoomToCoordinates] = useState<[number, number] | null>(null);
+  // Point on the route under the cursor in the elevation profile
+  const [elevationHighlight, setElevationHighlight] = useState<[number, number] | null>(null);
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
+  // Counts imports so each new overlay takes the next colour
+  const importCountRef = useRef(0);
+  const { settings, updateSettings } = useSettings();
+  const { t } = useTranslation();
+
+  const handleReroute = useCallback(async (request: RouteRequest) => {
+    const [reroutedRoute] = await calculateRoutes(settings.routing, request);
+    setRoutes([reroutedRoute]);
+    setRoute(reroutedRoute);
+    toast({
+      title: t('app.rerouted'),
+      description: t('app.reroutedDescription'),
+    });
+  }, [settings.routing, t]);
+
+  const navigation = useNavigation(route, {
+    simulate: settings.navigation.simulatePosition,
+    offRouteThreshold: settings.navigation.offRouteThreshold,
+    onReroute: handleReroute,
+  });
+  useVoiceGuidance(route, navigation.progress, {
+    muted: settings.navigation.voiceMuted,
+    volume: settings.navigation.voiceVolume,
+  });
+
+  const toggleVoiceMuted = () => {
+    updateSettings({
+      navigation: { ...settings.navigation, voiceMuted: !settings.navigation.voiceMuted },
+    });
+  };
+
+  const alternativeRoutes = useMemo(
+    () => routes.filter(r => r.id !== route?.id),
+    [routes, route]
+  );
+
+  // Keep the URL showing what's on screen, so it can be shared as it is
+  useEffect(() => {
+    const path = route
+      ? directionsPath(route)
+      : selectedLocation && !isDirectionsMode
+        ? placePath(selectedLocation)
+        : mapView && viewPath(mapView);
+
+    if (path && path !== `${location.pathname}${location.search}`) {
+      navigate(path, { replace: true });
+    }
+  }, [route, selectedLocation, isDirectionsMode, mapView, location.pathname, location.search, navigate]);
 
-  const handleLocationSelect = (location: Location) => {
-    setSelectedLocation(location);
+  const handleLocationSelect = (selected: Location) => {
+    setSelectedLocation(selected);
     if (isDirectionsMode && currentLocation) {
-      setDestination(location);
+      setDestination(selected);
     }
   };
 
-  const handleCurrentLocationFound = (location: Location) => {
-    setCurrentLocation(location);
+  const handleCurrentLocationFound = (found: Location) => {
+    setCurrentLocation(found);
   };
 
   const handleDirectionsToggle = () => {
+    navigation.stop();
     setIsDirectionsMode(!isDirectionsMode);
+    setLinkedRequest(null);
     setRoute(null);
+    setRoutes([]);
     setDestination(null);
   };
 
-  const handleRouteCalculated = (calculatedRoute: Route) => {
-    setRoute(calculatedRoute);
+  const handleRoutesCalculated = (calculatedRoutes: Route[]) => {
+    if (calculatedRoutes.length === 0) {
+      navigation.stop();
+    }
+    setRoutes(calculatedRoutes);
+    setRoute(calculatedRoutes[0] ?? null);
+  };
+
+  // Stable so MapView doesn't redraw the route layers on every render
+  const handleRouteSelect = useCallback((selectedRoute: Route) => {
+    setRoute(selectedRoute);
+  }, []);
+
+  const handleImportFiles = async (files: File[]) => {
+    for (const file of files) {
+      const color = OVERLAY_COLORS[importCountRef.current++ % OVERLAY_COLORS.length];
+      try {
+        const overlay = await readOverlayFile(file, color);
+        setOverlays((current) => [...current, overlay]);
+      } catch (error) {
+        console.error('Error importing file:', error);
+        const code = error instanceof FileFormatError ? error.code : 'Invalid';
+        toast({
+          title: t('overlays.importFailed', { name: file.name }),
+          description: t(code === 'Unsupported' ? 'overlays.unsupported' : code === 'Empty' ? 'overlays.empty' : 'overlays.invalid'),
+          variant: 'destructive',
+        });
+      }
+    }
+  };
+
+  const toggleOverlay = (id: string) => {
+    setOverlays((current) =>
+      current.map((overlay) => (overlay.id === id ? { ...overlay, visible: !overlay.visible } : overlay))
+    );
+  };
+
+  const removeOverlay = (id: string) => {
+    setOverlays((current) => current.filter((overlay) => overlay.id !== id));
+  };
+
+  // Shows an imported GPX track or route in the directions panel as if it had been calculated
+  const handlePromoteOverlay = (overlay: Overlay, mode: TravelMode) => {
+    const line = promotableLine(overlay);
+    if (line?.geometry.type !== 'LineString') return;
+
+    const name = line.name || overlay.name;
+    const promotedRoute = routeFromTrack(line.geometry.coordinates, {
+      mode,
+      originName: t('overlays.trackStart', { name }),
+      destinationName: t('overlays.trackEnd', { name }),
+      pointNames: line.kind === 'route' ? line.pointNames : undefined,
+    });
+
+    navigation.stop();
+    setIsDirectionsMode(true);
+    setRoutes([promotedRoute]);
+    setRoute(promotedRoute);
   };
 
   const handleStepClick = (coordinates: [number, number]) => {
@@ -40,6 +176,10 @@ const Index = () => {
     setTimeout(() => setZoomToCoordinates(null), 100);
   };
 
+  if (deepLink.type === 'invalid') {
+    return <NotFound />;
+  }
+
   return (
     <div className="flex h-screen bg-background">
       {/* Sidebar */}
@@ -47,10 +187,13 @@ const Index = () => {
         <div className="p-6 border-b border-border">
           <div className="flex items-center justify-between mb-4">
             <h1 className="text-2xl font-bold text-card-foreground">Mapsy</h1>
-            <ThemeToggle />
+            <div className="flex items-center space-x-2 rtl:space-x-reverse">
+              <SettingsDialog />
+              <ThemeToggle />
+            </div>
           </div>
           <button onClick={handleDirectionsToggle} className={`w-full px-4 py-2 rounded-lg font-medium transition-all duration-200 ${isDirectionsMode ? 'bg-primary text-primary-foreground hover:bg-primary/90' : 'bg-secondary text-secondary-foreground hover:bg-secondary/80'}`}>
-            {isDirectionsMode ? 'Exit Directions' : 'Get Directions'}
+            {isDirectionsMode ? t('app.exitDirections') : t('app.getDirections')}
           </button>
         </div>
 
@@ -59,28 +202,64 @@ const Index = () => {
             <DirectionsPanel
               origin={currentLocation}
               destination={destination}
-              onRouteCalculated={handleRouteCalculated}
+              onRoutesCalculated={handleRoutesCalculated}
               route={route}
+              routes={routes}
+              onRouteSelect={handleRouteSelect}
               onStepClick={handleStepClick}
+              isNavigating={navigation.isNavigating}
+              activeStepId={navigation.progress ? route?.steps[navigation.progress.activeStepIndex]?.id : null}
+              onStartNavigation={navigation.start}
+              onElevationHover={setElevationHighlight}
+              linkedRequest={linkedRequest}
+              mapView={mapView}
             />
           ) : (
             <SearchPanel
               onLocationSelect={handleLocationSelect}
               selectedLocation={selectedLocation}
+              mapView={mapView}
             />
           )}
         </div>
+
+        <OverlayPanel
+          overlays={overlays}
+          onImport={handleImportFiles}
+          onToggle={toggleOverlay}
+          onRemove={removeOverlay}
+          onPromote={handlePromoteOverlay}
+        />
       </div>
 
       {/* Map */}
-      <div className="flex-1">
+      <div className="flex-1 relative">
+        {navigation.isNavigating && route && (
+          <NavigationBanner
+            route={route}
+            progress={navigation.progress}
+            isRerouting={navigation.isRerouting}
+            isMuted={settings.navigation.voiceMuted}
+            onToggleMute={isSpeechSupported() ? toggleVoiceMuted : undefined}
+            onStop={navigation.stop}
+          />
+        )}
         <MapView
           selectedLocation={selectedLocation}
           currentLocation={currentLocation}
           route={route}
+          alternativeRoutes={alternativeRoutes}
+          onRouteSelect={handleRouteSelect}
           onCurrentLocationFound={handleCurrentLocationFound}
           onLocationSelect={handleLocationSelect}
           zoomToCoordinates={zoomToCoordinates}
+          isNavigating={navigation.isNavigating}
+          navigationProgress={navigation.progress}
+          highlightedPoint={elevationHighlight}
+          overlays={overlays}
+          onFilesDropped={handleImportFiles}
+          initialView={deepLink.type === 'view' ? deepLink.view : null}
+          onViewChange={setMapView}
         />
       </div>
     </div>
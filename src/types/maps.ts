@@ -1,3 +1,4 @@
+import { MessageKey } from '@/lib/i18n/types';
 
 export interface Location {
   id: string;
@@ -6,28 +7,128 @@ export interface Location {
   coordinates: [number, number]; // [longitude, latitude]
 }
 
+export type TravelMode = 'driving' | 'cycling' | 'walking' | 'wheelchair';
+
+export type RouteAvoidance = 'tolls' | 'highways' | 'ferries' | 'unpaved';
+
 export interface Route {
   id: string;
+  mode: TravelMode;
   origin: Location;
   destination: Location;
+  waypoints: Location[]; // intermediate stops, in visiting order
   distance: number; // in meters
   duration: number; // in seconds
-  steps: RouteStep[];
+  legs: RouteLeg[]; // one per segment between consecutive stops
+  steps: RouteStep[]; // all legs' steps, flattened
   geometry: [number, number][]; // route coordinates
+  roads: string[]; // main roads used, longest first
+  avoid: RouteAvoidance[]; // avoidances requested for this route
+  hasFerry: boolean;
+  hasToll: boolean;
+  hasHighway: boolean;
+  hasUnpaved: boolean;
+}
+
+export interface RouteLeg {
+  id: string;
+  origin: Location;
+  destination: Location;
+  distance: number;
+  duration: number;
+  steps: RouteStep[];
+}
+
+// The way a step is travelled: the route's travel mode, or a ferry crossing
+export type StepMode = TravelMode | 'ferry';
+
+export type ManeuverType =
+  | 'depart'
+  | 'arrive'
+  | 'waypoint' // arrival at an intermediate stop
+  | 'turn'
+  | 'continue'
+  | 'merge'
+  | 'on-ramp'
+  | 'off-ramp'
+  | 'fork'
+  | 'end-of-road'
+  | 'roundabout'
+  | 'exit-roundabout'
+  | 'ferry';
+
+export type ManeuverModifier =
+  | 'uturn'
+  | 'sharp right'
+  | 'right'
+  | 'slight right'
+  | 'straight'
+  | 'slight left'
+  | 'left'
+  | 'sharp left';
+
+// What to do at the start of a step, independent of any engine's wording
+export interface Maneuver {
+  type: ManeuverType;
+  modifier?: ManeuverModifier;
+  street?: string; // name or ref of the road the step follows
+  exit?: number; // roundabout exit to take
+  bearingBefore?: number; // degrees clockwise from north
+  bearingAfter?: number;
 }
 
 export interface RouteStep {
   id: string;
+  mode: StepMode;
+  maneuver: Maneuver;
   instruction: string;
   distance: number;
   duration: number;
   coordinates: [number, number][];
 }
 
+// What part of the map is on screen
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface MapViewport {
+  center: [number, number]; // [longitude, latitude]
+  zoom: number;
+  bounds?: MapBounds; // the area on screen, once the map has drawn it
+}
+
+// A source of map tiles, either a base map or a layer drawn over it
+export interface TileSource {
+  id: string;
+  name: string;
+  // Catalogue key for the built-in sources' names; custom sources are named by the user
+  labelKey?: MessageKey;
+  kind: 'xyz' | 'wms';
+  role: 'base' | 'overlay';
+  url: string; // XYZ template with {z}, {x}, {y}, or a WMS endpoint
+  wmsLayers?: string; // comma-separated, WMS only
+  attribution?: string;
+  maxZoom?: number;
+  subdomains?: string;
+  opacity?: number;
+  // The server sends CORS headers, so its tiles can be requested in a way the offline cache can keep
+  cors?: boolean;
+}
+
 export interface SearchResult {
   id: string;
   name: string;
   address: string;
   coordinates: [number, number];
   type: string;
+  distance?: number; // meters from the map centre, when ranked by it
+}
+
+export interface TripTime {
+  type: 'now' | 'depart' | 'arrive';
+  time: Date; // departure or arrival time; ignored for 'now'
 }
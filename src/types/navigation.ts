@@ -0,0 +1,18 @@
+export interface PositionFix {
+  coordinates: [number, number]; // [longitude, latitude]
+  accuracy: number; // in meters
+  heading: number | null; // degrees clockwise from north
+  speed: number | null; // in meters per second
+  timestamp: number;
+}
+
+export interface NavigationProgress {
+  snappedCoordinates: [number, number]; // the fix moved onto the route line
+  distanceFromRoute: number; // in meters
+  heading: number; // direction of the route at the snapped point
+  activeStepIndex: number; // the step whose maneuver comes next
+  distanceToManeuver: number; // in meters
+  remainingDistance: number; // in meters
+  remainingDuration: number; // in seconds
+  arrived: boolean;
+}
@@ -0,0 +1,26 @@
+export type OverlayGeometry =
+  | { type: 'Point'; coordinates: [number, number] }
+  | { type: 'LineString'; coordinates: [number, number][] }
+  | { type: 'Polygon'; coordinates: [number, number][][] }; // outer ring first, then holes
+
+export interface OverlayFeature {
+  geometry: OverlayGeometry;
+  name?: string;
+  description?: string;
+  // GPX lines are either a recorded track or a planned route of turn points
+  kind?: 'track' | 'route';
+  // Names of a GPX route's points, in order
+  pointNames?: (string | undefined)[];
+}
+
+export type OverlayFormat = 'gpx' | 'kml' | 'kmz' | 'geojson';
+
+// An imported file shown on top of the map
+export interface Overlay {
+  id: string;
+  name: string;
+  format: OverlayFormat;
+  features: OverlayFeature[];
+  color: string;
+  visible: boolean;
+}
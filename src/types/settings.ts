@@ -0,0 +1,60 @@
+import { Locale } from '@/lib/i18n/types';
+import { RouteAvoidance, TileSource } from './maps';
+
+// How distances are shown: kilometers, miles and feet, or miles and yards
+export type UnitSystem = 'metric' | 'imperial' | 'uk';
+
+export type RoutingEngine = 'osrm' | 'valhalla' | 'graphhopper';
+
+export interface RoutingSettings {
+  engine: RoutingEngine;
+  baseUrls: Record<RoutingEngine, string>;
+  graphhopperApiKey: string;
+  avoid: RouteAvoidance[]; // default avoidances for new routes
+}
+
+export type GeocodingEngine = 'nominatim' | 'photon' | 'pelias';
+
+export interface GeocodingSettings {
+  engine: GeocodingEngine;
+  baseUrls: Record<GeocodingEngine, string>;
+  peliasApiKey: string;
+  nominatimEmail: string; // contact address sent to Nominatim, as its usage policy asks
+  country: string; // ISO 3166-1 alpha-2 code searches are limited to, or '' for anywhere
+}
+
+export interface NavigationSettings {
+  simulatePosition: boolean; // replay the route instead of using GPS
+  offRouteThreshold: number; // meters from the route before rerouting
+  voiceMuted: boolean;
+  voiceVolume: number; // 0 to 1
+}
+
+// Where route elevation profiles get their heights from
+export type ElevationSource = 'open-meteo' | 'terrain-tiles';
+
+export interface ElevationSettings {
+  source: ElevationSource;
+  baseUrls: Record<ElevationSource, string>;
+}
+
+export interface DisplaySettings {
+  locale: Locale;
+  units: UnitSystem;
+}
+
+export interface MapSettings {
+  baseLayer: string; // id of the base map shown
+  overlays: string[]; // ids of the overlays shown, bottom first
+  satelliteUrl: string; // XYZ template for satellite imagery
+  customSources: TileSource[];
+}
+
+export interface AppSettings {
+  display: DisplaySettings;
+  routing: RoutingSettings;
+  geocoding: GeocodingSettings;
+  navigation: NavigationSettings;
+  elevation: ElevationSettings;
+  map: MapSettings;
+}
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+declare const __BUILD_ID__: string
+
+interface ImportMetaEnv {
+  // Contact address sent with Nominatim requests
+  readonly VITE_NOMINATIM_EMAIL?: string
+}